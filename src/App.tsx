@@ -1,31 +1,64 @@
 import React from 'react'
 import { Routes, Route } from 'react-router-dom'
 import { AuthProvider } from './contexts/AuthContext'
+import { SettingsProvider } from './contexts/SettingsContext'
+import { CategoriesProvider } from './contexts/CategoriesContext'
+import { WorkspaceProvider } from './contexts/WorkspaceContext'
+import { ConnectivityProvider } from './contexts/ConnectivityContext'
 import Layout from './components/Layout'
 import Home from './pages/Home'
 import Commands from './pages/Commands'
+import CommandDetail from './pages/CommandDetail'
 import Admin from './pages/Admin'
 import Login from './pages/Login'
+import ResetPassword from './pages/ResetPassword'
+import AuthCallback from './pages/AuthCallback'
+import SharedCollection from './pages/SharedCollection'
+import Runbooks from './pages/Runbooks'
+import RunbookDetail from './pages/RunbookDetail'
+import Profile from './pages/Profile'
 import ProtectedRoute from './components/ProtectedRoute'
 
 function App() {
   return (
     <AuthProvider>
-      <Routes>
-        <Route path="/login" element={<Login />} />
-        <Route path="/" element={<Layout />}>
-          <Route index element={<Home />} />
-          <Route path="commands" element={<Commands />} />
-          <Route 
-            path="admin" 
-            element={
-              <ProtectedRoute requireAdmin>
-                <Admin />
-              </ProtectedRoute>
-            } 
-          />
-        </Route>
-      </Routes>
+      <SettingsProvider>
+        <CategoriesProvider>
+          <WorkspaceProvider>
+            <ConnectivityProvider>
+              <Routes>
+                <Route path="/login" element={<Login />} />
+                <Route path="/reset-password" element={<ResetPassword />} />
+                <Route path="/auth/callback" element={<AuthCallback />} />
+                <Route path="/" element={<Layout />}>
+                  <Route index element={<Home />} />
+                  <Route path="commands" element={<Commands />} />
+                  <Route path="commands/:id" element={<CommandDetail />} />
+                  <Route path="collections/:token" element={<SharedCollection />} />
+                  <Route path="runbooks" element={<Runbooks />} />
+                  <Route path="runbooks/:id" element={<RunbookDetail />} />
+                  <Route
+                    path="profile"
+                    element={
+                      <ProtectedRoute>
+                        <Profile />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route 
+                    path="admin" 
+                    element={
+                      <ProtectedRoute requirePermission="moderate">
+                        <Admin />
+                      </ProtectedRoute>
+                    } 
+                  />
+                </Route>
+              </Routes>
+            </ConnectivityProvider>
+          </WorkspaceProvider>
+        </CategoriesProvider>
+      </SettingsProvider>
     </AuthProvider>
   )
 }
@@ -0,0 +1,67 @@
+import React, { useState, useRef, useEffect } from 'react'
+import { ListPlus, CheckSquare, Square, Plus } from 'lucide-react'
+import { Collection } from '../lib/supabase'
+import { CollectionItems } from '../lib/collections'
+
+interface AddToCollectionMenuProps {
+  commandId: string
+  collections: Collection[]
+  items: CollectionItems
+  onToggle: (collection: Collection, included: boolean) => void
+  onCreate: () => void
+}
+
+export default function AddToCollectionMenu({ commandId, collections, items, onToggle, onCreate }: AddToCollectionMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 text-dark-400 hover:text-primary-400 transition-colors"
+        title="Add to collection"
+      >
+        <ListPlus className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 bg-dark-800 border border-dark-700 rounded-lg shadow-xl z-20 py-1">
+          {collections.map(collection => {
+            const included = items[collection.id]?.includes(commandId) ?? false
+            return (
+              <button
+                key={collection.id}
+                onClick={() => onToggle(collection, !included)}
+                className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-dark-300 hover:bg-dark-700 hover:text-white transition-colors"
+              >
+                {included ? <CheckSquare className="w-4 h-4 text-primary-400" /> : <Square className="w-4 h-4" />}
+                <span className="truncate">{collection.name}</span>
+              </button>
+            )
+          })}
+          <button
+            onClick={() => {
+              setIsOpen(false)
+              onCreate()
+            }}
+            className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-dark-300 hover:bg-dark-700 hover:text-white transition-colors border-t border-dark-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New collection</span>
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
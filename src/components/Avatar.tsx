@@ -0,0 +1,29 @@
+import React from 'react'
+import { UserProfile } from '../lib/supabase'
+
+interface AvatarProps {
+  profile: Pick<UserProfile, 'full_name' | 'email' | 'avatar_url'> | null
+  // Used while the profile is still loading
+  email?: string
+  size?: 'sm' | 'lg'
+}
+
+function initials(name: string): string {
+  const words = name.replace(/@.*/, '').split(/[\s._-]+/).filter(Boolean)
+  return words.slice(0, 2).map(word => word[0].toUpperCase()).join('') || '?'
+}
+
+// The profile picture, or the user's initials when there is none.
+export default function Avatar({ profile, email, size = 'sm' }: AvatarProps) {
+  const sizeClass = size === 'lg' ? 'w-20 h-20 text-2xl' : 'w-7 h-7 text-xs'
+
+  if (profile?.avatar_url) {
+    return <img src={profile.avatar_url} alt="" className={`${sizeClass} rounded-full object-cover flex-shrink-0`} />
+  }
+
+  return (
+    <span className={`${sizeClass} rounded-full bg-gradient-primary text-white font-semibold flex items-center justify-center flex-shrink-0`}>
+      {initials(profile?.full_name || profile?.email || email || '')}
+    </span>
+  )
+}
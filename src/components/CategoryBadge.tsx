@@ -0,0 +1,45 @@
+import React from 'react'
+import { Terminal, Server, Network, Database, Code, Shield, Activity, Rocket, Cloud, Box, Wrench, Folder, LucideIcon } from 'lucide-react'
+import { useCategories } from '../contexts/CategoriesContext'
+import { CategoryIconName, categoryColorClass, findCategory } from '../lib/categories'
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIconName, LucideIcon> = {
+  terminal: Terminal,
+  server: Server,
+  network: Network,
+  database: Database,
+  code: Code,
+  shield: Shield,
+  activity: Activity,
+  rocket: Rocket,
+  cloud: Cloud,
+  box: Box,
+  wrench: Wrench,
+  folder: Folder,
+}
+
+interface CategoryBadgeProps {
+  slug: string
+  size?: 'sm' | 'md'
+  children?: React.ReactNode
+}
+
+// Commands whose slug no longer matches a category still render, using the
+// raw slug and the default style.
+export default function CategoryBadge({ slug, size = 'sm', children }: CategoryBadgeProps) {
+  const { categories } = useCategories()
+  const category = findCategory(categories, slug)
+  const Icon = CATEGORY_ICON_COMPONENTS[category?.icon as CategoryIconName] ?? Terminal
+
+  return (
+    <span
+      title={category?.description || undefined}
+      className={`inline-flex items-center rounded-full ${
+        size === 'md' ? 'px-3 py-1 text-sm' : 'px-2 py-1 text-xs'
+      } ${categoryColorClass(category?.color ?? '')}`}
+    >
+      <Icon className={`${size === 'md' ? 'w-4 h-4' : 'w-3 h-3'} mr-1`} />
+      {children ?? category?.name ?? slug}
+    </span>
+  )
+}
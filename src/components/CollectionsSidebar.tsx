@@ -0,0 +1,128 @@
+import React, { useState } from 'react'
+import { Layers, Star, FolderOpen, Plus, Edit, Trash2, Globe, Lock, Link, Check } from 'lucide-react'
+import { Collection } from '../lib/supabase'
+import { CollectionItems, collectionShareUrl } from '../lib/collections'
+
+// 'all', 'favorites' or a collection id
+export type LibraryView = string
+
+interface CollectionsSidebarProps {
+  view: LibraryView
+  onViewChange: (view: LibraryView) => void
+  favoritesCount: number
+  collections: Collection[]
+  items: CollectionItems
+  onCreate: () => void
+  onRename: (collection: Collection) => void
+  onDelete: (collection: Collection) => void
+  onToggleShare: (collection: Collection) => void
+}
+
+export default function CollectionsSidebar({
+  view,
+  onViewChange,
+  favoritesCount,
+  collections,
+  items,
+  onCreate,
+  onRename,
+  onDelete,
+  onToggleShare,
+}: CollectionsSidebarProps) {
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const copyShareLink = async (collection: Collection) => {
+    const url = collectionShareUrl(collection)
+    if (!url) return
+
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopiedId(collection.id)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch (error) {
+      console.error('Failed to copy:', error)
+    }
+  }
+
+  const itemClass = (active: boolean) =>
+    `w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition-colors ${
+      active ? 'bg-primary-600/20 text-primary-400' : 'text-dark-300 hover:bg-dark-700 hover:text-white'
+    }`
+
+  return (
+    <aside className="card p-4 space-y-1">
+      <button onClick={() => onViewChange('all')} className={itemClass(view === 'all')}>
+        <span className="flex items-center space-x-2">
+          <Layers className="w-4 h-4" />
+          <span>All commands</span>
+        </span>
+      </button>
+      <button onClick={() => onViewChange('favorites')} className={itemClass(view === 'favorites')}>
+        <span className="flex items-center space-x-2">
+          <Star className="w-4 h-4" />
+          <span>Favorites</span>
+        </span>
+        <span className="text-xs text-dark-400">{favoritesCount}</span>
+      </button>
+
+      <div className="flex items-center justify-between pt-4 pb-2 px-3">
+        <span className="text-xs uppercase tracking-wide text-dark-400">Collections</span>
+        <button onClick={onCreate} className="text-dark-400 hover:text-primary-400 transition-colors" title="New collection">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {collections.length === 0 && (
+        <p className="px-3 text-xs text-dark-500">Group commands you use together, like "on-call".</p>
+      )}
+
+      {collections.map(collection => (
+        <div key={collection.id} className="group">
+          <button onClick={() => onViewChange(collection.id)} className={itemClass(view === collection.id)}>
+            <span className="flex items-center space-x-2 min-w-0">
+              <FolderOpen className="w-4 h-4 flex-shrink-0" />
+              <span className="truncate">{collection.name}</span>
+              {collection.visibility === 'shared' && <Globe className="w-3 h-3 flex-shrink-0 text-dark-400" />}
+            </span>
+            <span className="text-xs text-dark-400">{items[collection.id]?.length ?? 0}</span>
+          </button>
+
+          {view === collection.id && (
+            <div className="flex space-x-1 px-3 py-1">
+              <button
+                onClick={() => onRename(collection)}
+                className="p-1 text-dark-400 hover:text-primary-400 transition-colors"
+                title="Rename"
+              >
+                <Edit className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onToggleShare(collection)}
+                className="p-1 text-dark-400 hover:text-primary-400 transition-colors"
+                title={collection.visibility === 'shared' ? 'Make private' : 'Share with a link'}
+              >
+                {collection.visibility === 'shared' ? <Lock className="w-3 h-3" /> : <Globe className="w-3 h-3" />}
+              </button>
+              {collection.visibility === 'shared' && (
+                <button
+                  onClick={() => copyShareLink(collection)}
+                  className="p-1 text-dark-400 hover:text-primary-400 transition-colors"
+                  title="Copy share link"
+                >
+                  {copiedId === collection.id ? <Check className="w-3 h-3 text-green-400" /> : <Link className="w-3 h-3" />}
+                </button>
+              )}
+              <button
+                onClick={() => onDelete(collection)}
+                className="p-1 text-dark-400 hover:text-red-400 transition-colors"
+                title="Delete"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </aside>
+  )
+}
@@ -0,0 +1,48 @@
+import React from 'react'
+import { Shell } from '../lib/supabase'
+import { MatchRange, mergeRanges } from '../lib/search'
+import { ShellTokenType, tokenizeShell } from '../lib/shellHighlight'
+import Highlight from './Highlight'
+
+const TOKEN_STYLES: Record<ShellTokenType, string> = {
+  text: 'text-dark-200',
+  command: 'text-primary-300 font-semibold',
+  keyword: 'text-purple-400',
+  flag: 'text-yellow-300',
+  string: 'text-green-400',
+  variable: 'text-cyan-300',
+  operator: 'text-pink-400',
+  comment: 'text-dark-500 italic',
+  placeholder: 'text-orange-300 bg-orange-500/10 rounded',
+}
+
+interface CommandCodeProps {
+  text: string
+  shell: Shell
+  ranges?: MatchRange[]
+}
+
+// Search ranges cover the whole text, so each token gets the slice of them
+// that falls inside it.
+export default function CommandCode({ text, shell, ranges = [] }: CommandCodeProps) {
+  const merged = mergeRanges(ranges)
+  let offset = 0
+
+  return (
+    <code className="text-sm break-all whitespace-pre-wrap">
+      {tokenizeShell(text, shell).map((token, index) => {
+        const start = offset
+        offset += token.text.length
+        const tokenRanges = merged
+          .filter(([from, to]) => from < offset && to > start)
+          .map(([from, to]): MatchRange => [Math.max(from, start) - start, Math.min(to, offset) - start])
+
+        return (
+          <span key={index} className={TOKEN_STYLES[token.type]}>
+            <Highlight text={token.text} ranges={tokenRanges} />
+          </span>
+        )
+      })}
+    </code>
+  )
+}
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react'
+import { History, RotateCcw, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Command, CommandRevision } from '../lib/supabase'
+import { fetchRevisions } from '../lib/revisions'
+import { fetchDisplayNames } from '../lib/profiles'
+import { diffLines } from '../lib/diff'
+import { SHELLS, DEFAULT_SHELL, SHELL_LABELS } from '../lib/shells'
+
+interface CommandHistoryProps {
+  isOpen: boolean
+  onClose: () => void
+  command: Command
+  canRestore: boolean
+  onRestore: (revision: CommandRevision) => Promise<void>
+}
+
+export default function CommandHistory({ isOpen, onClose, command, canRestore, onRestore }: CommandHistoryProps) {
+  const [revisions, setRevisions] = useState<CommandRevision[]>([])
+  const [authors, setAuthors] = useState<Record<string, string>>({})
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [restoring, setRestoring] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) loadHistory()
+  }, [isOpen, command.id, command.updated_at])
+
+  const loadHistory = async () => {
+    setLoading(true)
+    try {
+      const data = await fetchRevisions(command.id)
+      setRevisions(data)
+      setSelectedId(data[0]?.id ?? null)
+
+      setAuthors(await fetchDisplayNames(data.map(revision => revision.created_by)))
+    } catch (error) {
+      console.error('Error fetching command history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRestore = async (revision: CommandRevision) => {
+    if (!confirm('Restore this version? It will be saved as a new revision.')) return
+
+    setRestoring(true)
+    try {
+      await onRestore(revision)
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId)
+  const selected = revisions[selectedIndex]
+  const previous = revisions[selectedIndex + 1]
+  const changedVariants = SHELLS.filter(shell =>
+    shell !== DEFAULT_SHELL && (previous?.variants?.[shell] ?? '') !== (selected?.variants?.[shell] ?? '')
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold flex items-center">
+            <History className="w-6 h-6 mr-3 text-primary-400" />
+            History of {command.name}
+          </h2>
+          <button onClick={onClose} className="p-2 text-dark-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-dark-400 text-center py-12">No revisions have been recorded for this command yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {/* Revision List */}
+            <div className="space-y-2">
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    revision.id === selectedId
+                      ? 'border-primary-500 bg-primary-600/10'
+                      : 'border-dark-700 hover:border-dark-600'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Revision {revisions.length - index}</span>
+                    {index === 0 && (
+                      <span className="bg-green-500/20 text-green-400 px-2 py-1 rounded-full text-xs">Current</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-dark-400">
+                    {(revision.created_by && authors[revision.created_by]) || 'Unknown user'} · {new Date(revision.created_at).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-dark-500 mt-1">
+                    {revision.restored_from ? 'Restored earlier version' : `Changed: ${revision.changed_fields.join(', ')}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff View */}
+            {selected && (
+              <div className="md:col-span-2 space-y-4">
+                {previous && previous.name !== selected.name && (
+                  <p className="text-sm">
+                    <span className="text-dark-400">Name: </span>
+                    <span className="line-through text-red-400">{previous.name}</span>{' '}
+                    <span className="text-green-400">{selected.name}</span>
+                  </p>
+                )}
+                {previous && previous.category !== selected.category && (
+                  <p className="text-sm">
+                    <span className="text-dark-400">Category: </span>
+                    <span className="line-through text-red-400">{previous.category}</span>{' '}
+                    <span className="text-green-400">{selected.category}</span>
+                  </p>
+                )}
+
+                <DiffBlock title="Command" before={previous?.command ?? ''} after={selected.command} mono />
+                {changedVariants.map(shell => (
+                  <DiffBlock
+                    key={shell}
+                    title={`${SHELL_LABELS[shell]} variant`}
+                    before={previous?.variants?.[shell] ?? ''}
+                    after={selected.variants?.[shell] ?? ''}
+                    mono
+                  />
+                ))}
+                <DiffBlock title="Description" before={previous?.description ?? ''} after={selected.description} />
+
+                {canRestore && selectedIndex > 0 && (
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => handleRestore(selected)}
+                      disabled={restoring}
+                      className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>{restoring ? 'Restoring...' : 'Restore this version'}</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  )
+}
+
+function DiffBlock({ title, before, after, mono = false }: { title: string; before: string; after: string; mono?: boolean }) {
+  const lines = diffLines(before, after)
+
+  return (
+    <div>
+      <h4 className="text-sm text-dark-400 mb-2">{title}</h4>
+      <div className={`bg-dark-700 rounded-lg p-3 text-sm overflow-x-auto ${mono ? 'font-mono' : ''}`}>
+        {lines.map((line, index) => (
+          <div
+            key={index}
+            className={`whitespace-pre-wrap break-all px-2 ${
+              line.type === 'added'
+                ? 'bg-green-500/10 text-green-400'
+                : line.type === 'removed'
+                  ? 'bg-red-500/10 text-red-400'
+                  : 'text-dark-300'
+            }`}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+            {line.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
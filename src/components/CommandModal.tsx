@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { Command, Category, Shell } from '../lib/supabase'
+import { parseTemplate } from '../lib/templates'
+import { SHELLS, DEFAULT_SHELL, SHELL_LABELS, SHELL_PLATFORMS, cleanVariants } from '../lib/shells'
+import { LintRule, LINT_SEVERITY_STYLES, lintCommand } from '../lib/commandLint'
+import { useAuth } from '../contexts/AuthContext'
+import CommandCode from './CommandCode'
+import TagInput from './TagInput'
+
+export type CommandFormData = Pick<Command, 'name' | 'description' | 'command' | 'category' | 'is_active' | 'variants'> & { tags: string[] }
+
+interface CommandModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (data: any) => void
+  command?: Command | null
+  // Someone else saved the command while the form was open
+  changedElsewhere?: boolean
+  categories: Category[]
+  tags: string[]
+  tagSuggestions: string[]
+  lintRules: LintRule[]
+}
+
+export default function CommandModal({ isOpen, onClose, onSubmit, command, changedElsewhere = false, categories, tags, tagSuggestions, lintRules }: CommandModalProps) {
+  const { profile } = useAuth()
+  // New commands start in the user's default category while it still exists
+  const defaultCategory = categories.find(c => c.slug === profile?.default_category)?.slug ?? categories[0]?.slug ?? ''
+  const [formData, setFormData] = useState<CommandFormData>({
+    name: '',
+    description: '',
+    command: '',
+    category: defaultCategory,
+    is_active: true,
+    variants: {},
+    tags: []
+  })
+  const [activeShell, setActiveShell] = useState<Shell>(DEFAULT_SHELL)
+
+  useEffect(() => {
+    if (command) {
+      setFormData({
+        name: command.name,
+        description: command.description,
+        command: command.command,
+        category: command.category,
+        is_active: command.is_active,
+        variants: command.variants ?? {},
+        tags
+      })
+    } else {
+      setFormData({
+        name: '',
+        description: '',
+        command: '',
+        category: defaultCategory,
+        is_active: true,
+        variants: {},
+        tags: []
+      })
+    }
+    setActiveShell(DEFAULT_SHELL)
+  }, [command, categories, defaultCategory])
+
+  const activeText = activeShell === DEFAULT_SHELL ? formData.command : formData.variants[activeShell] ?? ''
+  const template = parseTemplate(activeText)
+  const findings = lintCommand(activeText, lintRules)
+  const hasTemplateErrors = [formData.command, ...Object.values(formData.variants)]
+    .some(text => parseTemplate(text ?? '').errors.length > 0)
+
+  const setActiveText = (text: string) => {
+    setFormData(activeShell === DEFAULT_SHELL
+      ? { ...formData, command: text }
+      : { ...formData, variants: { ...formData.variants, [activeShell]: text } }
+    )
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (hasTemplateErrors) return
+    if (!formData.command.trim()) {
+      setActiveShell(DEFAULT_SHELL)
+      return
+    }
+    onSubmit({ ...formData, variants: cleanVariants(formData.variants, formData.command) })
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <h2 className="text-2xl font-bold mb-6">
+          {command ? 'Edit Command' : 'Add New Command'}
+        </h2>
+
+        {changedElsewhere && (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 mb-4">
+            <p className="text-yellow-400 text-sm">
+              Someone else changed this command while you were editing. Only the fields you change here will be saved over theirs.
+            </p>
+          </div>
+        )}
+        
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Name</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="input-field w-full"
+              required
+            />
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium mb-2">Category</label>
+            <select
+              value={formData.category}
+              onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+              className="input-field w-full"
+              required
+            >
+              {categories.map(category => (
+                <option key={category.slug} value={category.slug}>
+                  {category.name}
+                </option>
+              ))}
+              {command && !categories.some(c => c.slug === command.category) && (
+                <option value={command.category}>{command.category}</option>
+              )}
+            </select>
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium mb-2">Tags</label>
+            <TagInput
+              value={formData.tags}
+              onChange={(tags) => setFormData({ ...formData, tags })}
+              suggestions={tagSuggestions}
+            />
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium mb-2">Description</label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="input-field w-full h-24 resize-none"
+              required
+            />
+          </div>
+          
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <label className="block text-sm font-medium">Command</label>
+              <div className="flex rounded-lg border border-dark-600 overflow-hidden">
+                {SHELLS.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setActiveShell(option)}
+                    title={SHELL_PLATFORMS[option]}
+                    className={`px-3 py-1 text-xs transition-colors ${
+                      activeShell === option ? 'bg-primary-600 text-white' : 'text-dark-300 hover:bg-dark-700'
+                    }`}
+                  >
+                    {SHELL_LABELS[option]}
+                    {option !== DEFAULT_SHELL && formData.variants[option]?.trim() && ' •'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <textarea
+              value={activeText}
+              onChange={(e) => setActiveText(e.target.value)}
+              placeholder={activeShell === DEFAULT_SHELL ? '' : `Leave empty to use the ${SHELL_LABELS[DEFAULT_SHELL]} command`}
+              className="input-field w-full h-32 resize-none font-mono text-sm"
+              required={activeShell === DEFAULT_SHELL}
+            />
+            {activeText.trim() && (
+              <div className="bg-dark-700 rounded-lg p-3 mt-2">
+                <CommandCode text={activeText} shell={activeShell} />
+              </div>
+            )}
+            <p className="text-xs text-dark-400 mt-2">
+              Use <code className="font-mono">{'{{host}}'}</code>, <code className="font-mono">{'{{port=8080}}'}</code> or{' '}
+              <code className="font-mono">{'{{name=default|description}}'}</code> for values filled in on copy.
+              Write <code className="font-mono">{'\\{{'}</code> for literal braces.
+            </p>
+            {template.placeholders.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {template.placeholders.map(placeholder => (
+                  <span
+                    key={placeholder.name}
+                    title={placeholder.description}
+                    className="bg-primary-600/20 text-primary-400 px-2 py-1 rounded-full text-xs font-mono"
+                  >
+                    {placeholder.name}
+                    {placeholder.defaultValue !== undefined && `=${placeholder.defaultValue}`}
+                  </span>
+                ))}
+              </div>
+            )}
+            {template.errors.length > 0 && (
+              <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 mt-2">
+                {template.errors.map(error => (
+                  <p key={error} className="text-red-400 text-sm">{error}</p>
+                ))}
+              </div>
+            )}
+            {findings.length > 0 && (
+              <div className="space-y-2 mt-2">
+                {findings.map(({ rule, match }) => (
+                  <div key={rule.id} className="flex items-start gap-2 text-sm">
+                    <span className={`px-2 py-1 rounded-full text-xs flex-shrink-0 ${LINT_SEVERITY_STYLES[rule.severity]}`}>
+                      {rule.severity}
+                    </span>
+                    <p className="text-dark-300">
+                      <span className="font-medium text-white">{rule.label}</span>
+                      {' '}<code className="font-mono text-xs text-dark-400">{match}</code>
+                      {rule.description && <span className="block text-dark-400">{rule.description}</span>}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          
+          <div className="flex justify-end space-x-4 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn-secondary"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={hasTemplateErrors}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {command ? 'Update' : 'Add'} Command
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+import React, { useState, useRef, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Wifi, WifiOff, RefreshCw, AlertTriangle } from 'lucide-react'
+import { OfflineEdit } from '../lib/offlineStore'
+import { useConnectivity } from '../contexts/ConnectivityContext'
+
+export default function ConnectionStatus() {
+  const { online, pendingEdits, syncing, resolveConflict } = useConnectivity()
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  const conflicts = pendingEdits.filter(edit => edit.conflict)
+  const waiting = pendingEdits.length - conflicts.length
+
+  const handleResolve = async (edit: OfflineEdit, keep: 'mine' | 'theirs') => {
+    try {
+      await resolveConflict(edit, keep)
+    } catch (error) {
+      console.error('Error resolving offline edit:', error)
+    }
+  }
+
+  const Icon = syncing ? RefreshCw : online ? Wifi : WifiOff
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-2 text-sm ${online ? 'text-green-400' : 'text-yellow-400'}`}
+        title={online ? 'Connected' : 'Offline: showing the saved copy of the library'}
+      >
+        <Icon className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+        <span>{syncing ? 'Syncing' : online ? 'Online' : 'Offline'}</span>
+        {pendingEdits.length > 0 && (
+          <span className={`px-2 py-1 rounded-full text-xs ${conflicts.length > 0 ? 'bg-red-500/20 text-red-400' : 'bg-yellow-500/20 text-yellow-400'}`}>
+            {pendingEdits.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 md:left-auto md:right-0 mt-2 w-80 bg-dark-800 border border-dark-700 rounded-lg shadow-xl z-20 p-4 space-y-3">
+          <p className="text-sm text-dark-300">
+            {online
+              ? 'Connected. Changes are saved as you make them.'
+              : 'Offline. You can browse, search and copy the saved library; edits are kept on this device until the connection returns.'}
+          </p>
+
+          {waiting > 0 && (
+            <p className="text-sm text-yellow-400">
+              {waiting} edit{waiting === 1 ? '' : 's'} waiting to sync.
+            </p>
+          )}
+
+          {conflicts.map(edit => (
+            <div key={edit.commandId} className="border border-red-500/20 bg-red-500/10 rounded-lg p-3 space-y-2">
+              <div className="flex items-start space-x-2">
+                <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                <div className="text-sm">
+                  <Link to={`/commands/${edit.commandId}`} onClick={() => setIsOpen(false)} className="text-white hover:text-primary-400">
+                    {edit.base.name}
+                  </Link>
+                  <p className="text-dark-400">
+                    {edit.conflict?.current
+                      ? `Changed by someone else while you were offline: ${edit.conflict.fields.join(', ')}.`
+                      : 'Deleted while you were offline.'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <button onClick={() => handleResolve(edit, 'theirs')} className="btn-secondary text-xs px-3 py-1">
+                  {edit.conflict?.current ? 'Keep theirs' : 'Discard mine'}
+                </button>
+                {edit.conflict?.current && (
+                  <button onClick={() => handleResolve(edit, 'mine')} disabled={!online} className="btn-primary text-xs px-3 py-1 disabled:opacity-50">
+                    Keep mine
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Command } from '../lib/supabase'
+
+interface DeleteAccountModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onConfirm: (keepCommands: boolean) => Promise<void>
+  contributions: Command[]
+}
+
+export default function DeleteAccountModal({ isOpen, onClose, onConfirm, contributions }: DeleteAccountModalProps) {
+  const [keepCommands, setKeepCommands] = useState(true)
+  const [confirmation, setConfirmation] = useState('')
+  const [deleting, setDeleting] = useState(false)
+  const [error, setError] = useState('')
+
+  if (!isOpen) return null
+
+  const approved = contributions.filter(command => command.status === 'approved').length
+  const others = contributions.length - approved
+
+  const handleConfirm = async () => {
+    setDeleting(true)
+    setError('')
+    try {
+      await onConfirm(keepCommands)
+    } catch (error) {
+      console.error('Error deleting account:', error)
+      setError(error instanceof Error ? error.message : 'The account could not be deleted')
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-lg"
+      >
+        <h2 className="text-2xl font-bold mb-4">Delete your account</h2>
+        <p className="text-dark-300 mb-4">
+          Your profile and sign-in are removed for good. You have added{' '}
+          {contributions.length} command{contributions.length === 1 ? '' : 's'}, {approved} of them approved.
+          Runbooks you wrote stay in their workspaces without an author.
+        </p>
+
+        <div className="space-y-3 mb-6">
+          <label className="flex items-start space-x-3 p-3 rounded-lg border border-dark-700 cursor-pointer hover:border-dark-600">
+            <input
+              type="radio"
+              name="commands"
+              checked={keepCommands}
+              onChange={() => setKeepCommands(true)}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-medium">Leave my approved commands in the library</span>
+              <span className="block text-sm text-dark-400">
+                {approved} command{approved === 1 ? '' : 's'} stay available to everyone, no longer credited to you.
+                {others > 0 && ` The other ${others}, still in review or rejected, are deleted.`}
+              </span>
+            </span>
+          </label>
+
+          <label className="flex items-start space-x-3 p-3 rounded-lg border border-dark-700 cursor-pointer hover:border-dark-600">
+            <input
+              type="radio"
+              name="commands"
+              checked={!keepCommands}
+              onChange={() => setKeepCommands(false)}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-medium">Delete all my commands</span>
+              <span className="block text-sm text-dark-400">
+                All {contributions.length} are removed from the library.
+              </span>
+            </span>
+          </label>
+        </div>
+
+        <label htmlFor="delete-confirmation" className="block text-sm font-medium mb-2">
+          Type DELETE to confirm
+        </label>
+        <input
+          id="delete-confirmation"
+          type="text"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          className="input-field w-full mb-4"
+          autoComplete="off"
+        />
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 mb-4">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4">
+          <button onClick={onClose} disabled={deleting} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={confirmation !== 'DELETE' || deleting}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            {deleting ? 'Deleting...' : 'Delete account'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import React, { useState } from 'react'
+import { Download } from 'lucide-react'
+import { Command } from '../lib/supabase'
+import { LIBRARY_FORMATS, LibraryFormat, serializeLibrary } from '../lib/libraryFormat'
+import { downloadFile } from '../lib/csv'
+
+interface ExportMenuProps {
+  commands: Command[]
+  filename: string
+  label?: string
+  // For paged lists: the number of matching commands and a way to fetch them
+  // all, so the export isn't limited to what has been loaded
+  total?: number
+  loadAll?: () => Promise<Command[]>
+}
+
+export default function ExportMenu({ commands, filename, label = 'Export', total = commands.length, loadAll }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async (format: LibraryFormat) => {
+    const { extension, mimeType } = LIBRARY_FORMATS.find(f => f.id === format)!
+    setExporting(true)
+    try {
+      const rows = loadAll ? await loadAll() : commands
+      downloadFile(serializeLibrary(rows, format), `${filename}.${extension}`, mimeType)
+      setIsOpen(false)
+    } catch (error) {
+      console.error('Error exporting commands:', error)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={total === 0 || exporting}
+        className="btn-secondary flex items-center space-x-2 h-full disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="w-5 h-5" />
+        <span>{label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-48 bg-dark-800 border border-dark-700 rounded-lg shadow-xl z-20 py-1">
+          <p className="px-4 py-2 text-xs text-dark-400">
+            {exporting ? 'Preparing export...' : `${total} command${total === 1 ? '' : 's'}`}
+          </p>
+          {LIBRARY_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              disabled={exporting}
+              className="w-full text-left px-4 py-2 text-sm text-dark-300 hover:bg-dark-700 hover:text-white transition-colors"
+            >
+              {format.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
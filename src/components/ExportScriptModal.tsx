@@ -0,0 +1,94 @@
+import React, { useState } from 'react'
+import { Copy, Check, Download, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Command } from '../lib/supabase'
+import { SCRIPT_FORMATS, ScriptFormat, generateScript } from '../lib/scriptExport'
+import { downloadFile } from '../lib/csv'
+
+interface ExportScriptModalProps {
+  isOpen: boolean
+  onClose: () => void
+  commands: Command[]
+}
+
+export default function ExportScriptModal({ isOpen, onClose, commands }: ExportScriptModalProps) {
+  const [format, setFormat] = useState<ScriptFormat>('bash')
+  const [title, setTitle] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  if (!isOpen) return null
+
+  const script = generateScript(format, commands, { title: title.trim() || undefined })
+  const { filename } = SCRIPT_FORMATS.find(f => f.id === format)!
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(script)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold">
+            Export {commands.length} command{commands.length === 1 ? '' : 's'} as script
+          </h2>
+          <button onClick={onClose} className="p-2 text-dark-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 mb-4">
+          <div className="flex rounded-lg border border-dark-600 overflow-hidden">
+            {SCRIPT_FORMATS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setFormat(option.id)}
+                className={`px-4 py-2 text-sm transition-colors ${
+                  format === option.id ? 'bg-primary-600 text-white' : 'text-dark-300 hover:bg-dark-700'
+                }`}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Title (optional)"
+            className="input-field flex-1"
+          />
+        </div>
+
+        <pre className="bg-dark-900 rounded-lg p-4 text-sm text-primary-300 font-mono overflow-auto max-h-[50vh] mb-6">
+          {script}
+        </pre>
+
+        <div className="flex justify-end space-x-4">
+          <button onClick={handleCopy} className="btn-secondary flex items-center space-x-2">
+            {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+            <span>Copy</span>
+          </button>
+          <button
+            onClick={() => downloadFile(script, filename, 'text/plain')}
+            className="btn-primary flex items-center space-x-2"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download {filename}</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
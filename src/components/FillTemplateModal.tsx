@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import { Copy, Terminal } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { parseTemplate, renderTemplate, missingValues } from '../lib/templates'
+import { Shell } from '../lib/supabase'
+
+interface FillTemplateModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onCopy: (rendered: string) => void
+  name: string
+  template: string
+  // The shell the template is written for; values are escaped for it
+  shell?: Shell
+}
+
+export default function FillTemplateModal({ isOpen, onClose, onCopy, name, template, shell = 'bash' }: FillTemplateModalProps) {
+  const { placeholders } = useMemo(() => parseTemplate(template), [template])
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    setValues(
+      Object.fromEntries(placeholders.map(p => [p.name, p.defaultValue ?? '']))
+    )
+  }, [placeholders])
+
+  const missing = missingValues(placeholders, values)
+  const preview = renderTemplate(template, values, { shell })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (missing.length > 0) return
+    onCopy(preview)
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <h2 className="text-2xl font-bold mb-2">Fill in {name}</h2>
+        <p className="text-dark-300 mb-6">
+          Values are shell-escaped before they are substituted into the command.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {placeholders.map((placeholder, index) => (
+            <div key={placeholder.name}>
+              <label htmlFor={`placeholder-${placeholder.name}`} className="block text-sm font-medium mb-2">
+                <span className="font-mono">{placeholder.name}</span>
+                {placeholder.defaultValue === undefined && <span className="text-red-400 ml-1">*</span>}
+              </label>
+              <input
+                id={`placeholder-${placeholder.name}`}
+                type="text"
+                value={values[placeholder.name] ?? ''}
+                onChange={(e) => setValues({ ...values, [placeholder.name]: e.target.value })}
+                placeholder={placeholder.defaultValue}
+                className="input-field w-full font-mono text-sm"
+                autoFocus={index === 0}
+              />
+              {placeholder.description && (
+                <p className="text-sm text-dark-400 mt-1">{placeholder.description}</p>
+              )}
+            </div>
+          ))}
+
+          <div className="bg-dark-700 rounded-lg p-4">
+            <div className="flex items-center space-x-2 mb-2">
+              <Terminal className="w-4 h-4 text-primary-400" />
+              <span className="text-sm text-dark-400">Preview</span>
+            </div>
+            <code className="text-primary-300 text-sm break-all whitespace-pre-wrap">
+              {preview}
+            </code>
+          </div>
+
+          {missing.length > 0 && (
+            <p className="text-sm text-yellow-400">
+              Missing required values: {missing.join(', ')}
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-4 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn-secondary"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={missing.length > 0}
+              className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Copy className="w-4 h-4" />
+              <span>Copy Command</span>
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import React from 'react'
+import { MatchRange, mergeRanges } from '../lib/search'
+
+interface HighlightProps {
+  text: string
+  ranges?: MatchRange[]
+}
+
+export default function Highlight({ text, ranges = [] }: HighlightProps) {
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+
+  for (const [start, end] of mergeRanges(ranges)) {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="bg-primary-500/30 text-inherit rounded px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <>{parts}</>
+}
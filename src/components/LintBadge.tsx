@@ -0,0 +1,22 @@
+import React from 'react'
+import { ShieldAlert } from 'lucide-react'
+import { LintFinding, LINT_SEVERITY_LABELS, LINT_SEVERITY_STYLES, highestSeverity } from '../lib/commandLint'
+
+interface LintBadgeProps {
+  findings: LintFinding[]
+}
+
+export default function LintBadge({ findings }: LintBadgeProps) {
+  const severity = highestSeverity(findings)
+  if (!severity) return null
+
+  return (
+    <span
+      title={findings.map(finding => finding.rule.label).join('\n')}
+      className={`inline-flex items-center px-2 py-1 rounded-full text-xs ${LINT_SEVERITY_STYLES[severity]}`}
+    >
+      <ShieldAlert className="w-3 h-3 mr-1" />
+      {LINT_SEVERITY_LABELS[severity]}
+    </span>
+  )
+}
@@ -0,0 +1,31 @@
+import React from 'react'
+import ReactMarkdown from 'react-markdown'
+
+interface MarkdownProps {
+  content: string
+}
+
+// Raw HTML in the source is not rendered, so notes can't inject markup.
+export default function Markdown({ content }: MarkdownProps) {
+  return (
+    <div className="text-dark-300 space-y-2">
+      <ReactMarkdown
+        components={{
+          a: ({ node, ...props }) => (
+            <a {...props} target="_blank" rel="noopener noreferrer" className="text-primary-400 hover:text-primary-300 underline" />
+          ),
+          ul: ({ node, ...props }) => <ul {...props} className="list-disc pl-6 space-y-1" />,
+          ol: ({ node, ...props }) => <ol {...props} className="list-decimal pl-6 space-y-1" />,
+          h1: ({ node, ...props }) => <h4 {...props} className="text-lg font-semibold text-white" />,
+          h2: ({ node, ...props }) => <h4 {...props} className="text-lg font-semibold text-white" />,
+          h3: ({ node, ...props }) => <h5 {...props} className="font-semibold text-white" />,
+          code: ({ node, ...props }) => <code {...props} className="bg-dark-700 text-primary-300 rounded px-1 font-mono text-sm" />,
+          pre: ({ node, ...props }) => <pre {...props} className="bg-dark-900 rounded-lg p-3 overflow-x-auto" />,
+          blockquote: ({ node, ...props }) => <blockquote {...props} className="border-l-2 border-dark-600 pl-3 italic" />,
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
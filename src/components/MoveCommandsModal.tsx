@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react'
+import { X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Workspace } from '../lib/supabase'
+
+export type TransferMode = 'move' | 'copy'
+
+interface MoveCommandsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (target: Workspace, mode: TransferMode) => Promise<void>
+  count: number
+  targets: Workspace[]
+  canMove: boolean
+}
+
+const MODES: { id: TransferMode; name: string; description: string }[] = [
+  { id: 'copy', name: 'Copy', description: 'Add copies to the other workspace and keep the originals here' },
+  { id: 'move', name: 'Move', description: 'Take the commands out of this workspace, with their history and tags' },
+]
+
+export default function MoveCommandsModal({ isOpen, onClose, onSubmit, count, targets, canMove }: MoveCommandsModalProps) {
+  const [targetId, setTargetId] = useState('')
+  const [mode, setMode] = useState<TransferMode>('copy')
+  const [working, setWorking] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setTargetId(targets[0]?.id ?? '')
+      setMode('copy')
+    }
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const target = targets.find(w => w.id === targetId)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!target) return
+
+    setWorking(true)
+    try {
+      await onSubmit(target, mode)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-lg"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold">
+            Move or copy {count} command{count === 1 ? '' : 's'}
+          </h2>
+          <button onClick={onClose} className="p-2 text-dark-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {targets.length === 0 ? (
+          <p className="text-dark-300">You cannot add commands to any other workspace.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Workspace</label>
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="input-field w-full"
+              >
+                {targets.map(workspace => (
+                  <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              {MODES.map(option => (
+                <label
+                  key={option.id}
+                  className={`flex items-start space-x-3 p-3 rounded-lg border transition-colors ${
+                    mode === option.id ? 'border-primary-500 bg-primary-500/10' : 'border-dark-600'
+                  } ${option.id === 'move' && !canMove ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="radio"
+                    name="mode"
+                    checked={mode === option.id}
+                    onChange={() => setMode(option.id)}
+                    disabled={option.id === 'move' && !canMove}
+                    className="mt-1 accent-primary-500"
+                  />
+                  <span>
+                    <span className="block font-medium">{option.name}</span>
+                    <span className="block text-sm text-dark-400">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+              {!canMove && (
+                <p className="text-xs text-dark-400">Moving needs permission to edit any command in this workspace.</p>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-4 pt-2">
+              <button type="button" onClick={onClose} className="btn-secondary">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!target || working}
+                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {working ? 'Working...' : `${mode === 'move' ? 'Move' : 'Copy'} to ${target?.name ?? '...'}`}
+              </button>
+            </div>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  )
+}
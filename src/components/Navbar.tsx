@@ -1,14 +1,21 @@
 import React, { useState } from 'react'
 import { Link, useLocation, useNavigate } from 'react-router-dom'
-import { Menu, X, Terminal, Shield, Home, LogOut, User } from 'lucide-react'
+import { Menu, X, Terminal, Shield, Home, LogOut, BookOpen } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
+import { useWorkspace, usePermission } from '../contexts/WorkspaceContext'
+import { ROLE_LABELS } from '../lib/permissions'
+import WorkspaceSwitcher from './WorkspaceSwitcher'
+import ConnectionStatus from './ConnectionStatus'
+import Avatar from './Avatar'
 import { motion, AnimatePresence } from 'framer-motion'
 
 export default function Navbar() {
   const [isOpen, setIsOpen] = useState(false)
   const location = useLocation()
   const navigate = useNavigate()
-  const { user, profile, signOut, isAdmin } = useAuth()
+  const { user, profile, signOut } = useAuth()
+  const { role } = useWorkspace()
+  const canModerate = usePermission('moderate')
 
   const handleSignOut = async () => {
     try {
@@ -22,7 +29,8 @@ export default function Navbar() {
   const navItems = [
     { name: 'Home', path: '/', icon: Home },
     { name: 'Commands', path: '/commands', icon: Terminal },
-    ...(isAdmin ? [{ name: 'Admin', path: '/admin', icon: Shield }] : []),
+    { name: 'Runbooks', path: '/runbooks', icon: BookOpen },
+    ...(canModerate ? [{ name: 'Admin', path: '/admin', icon: Shield }] : []),
   ]
 
   return (
@@ -55,14 +63,20 @@ export default function Navbar() {
                 </Link>
               )
             })}
-            
+
+            <ConnectionStatus />
+
+            {user && <WorkspaceSwitcher />}
+
             {user ? (
               <div className="flex items-center space-x-4">
                 <div className="flex items-center space-x-2 text-dark-300">
-                  <User className="w-4 h-4" />
-                  <span className="text-sm">{profile?.full_name || user.email}</span>
-                  {isAdmin && (
-                    <span className="bg-primary-600 text-xs px-2 py-1 rounded-full">Admin</span>
+                  <Link to="/profile" className="flex items-center space-x-2 hover:text-white transition-colors" title="Your profile">
+                    <Avatar profile={profile} email={user.email} />
+                    <span className="text-sm">{profile?.full_name || user.email}</span>
+                  </Link>
+                  {canModerate && role && (
+                    <span className="bg-primary-600 text-xs px-2 py-1 rounded-full">{ROLE_LABELS[role]}</span>
                   )}
                 </div>
                 <button
@@ -118,14 +132,24 @@ export default function Navbar() {
                   </Link>
                 )
               })}
-              
+
+              <ConnectionStatus />
+
+              {user && <WorkspaceSwitcher />}
+
               {user ? (
                 <div className="pt-4 border-t border-dark-700">
                   <div className="flex items-center space-x-2 text-dark-300 mb-2">
-                    <User className="w-4 h-4" />
-                    <span className="text-sm">{profile?.full_name || user.email}</span>
-                    {isAdmin && (
-                      <span className="bg-primary-600 text-xs px-2 py-1 rounded-full">Admin</span>
+                    <Link
+                      to="/profile"
+                      onClick={() => setIsOpen(false)}
+                      className="flex items-center space-x-2 hover:text-white transition-colors"
+                    >
+                      <Avatar profile={profile} email={user.email} />
+                      <span className="text-sm">{profile?.full_name || user.email}</span>
+                    </Link>
+                    {canModerate && role && (
+                      <span className="bg-primary-600 text-xs px-2 py-1 rounded-full">{ROLE_LABELS[role]}</span>
                     )}
                   </div>
                   <button
@@ -1,14 +1,17 @@
 import React from 'react'
 import { Navigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { useWorkspace } from '../contexts/WorkspaceContext'
+import { Permission, hasPermission } from '../lib/permissions'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
-  requireAdmin?: boolean
+  requirePermission?: Permission
 }
 
-export default function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
-  const { user, profile, loading } = useAuth()
+export default function ProtectedRoute({ children, requirePermission }: ProtectedRouteProps) {
+  const { user } = useAuth()
+  const { role, loading } = useWorkspace()
 
   if (loading) {
     return (
@@ -22,7 +25,7 @@ export default function ProtectedRoute({ children, requireAdmin = false }: Prote
     return <Navigate to="/login" replace />
   }
 
-  if (requireAdmin && !profile?.is_admin) {
+  if (requirePermission && !hasPermission(role, requirePermission)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react'
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Command, Runbook, RunbookStep } from '../lib/supabase'
+import { RunbookInput, RunbookStepDraft } from '../lib/runbooks'
+
+interface RunbookEditorProps {
+  isOpen: boolean
+  onClose: () => void
+  onSave: (input: RunbookInput, steps: RunbookStepDraft[]) => void
+  runbook?: Runbook | null
+  steps?: RunbookStep[]
+  commands: Command[]
+}
+
+const NO_STEPS: RunbookStep[] = []
+
+const emptyStep = (): RunbookStepDraft => ({ title: '', notes: '', command_id: null, inline_command: '' })
+
+export default function RunbookEditor({ isOpen, onClose, onSave, runbook, steps = NO_STEPS, commands }: RunbookEditorProps) {
+  const [formData, setFormData] = useState<RunbookInput>({ title: '', description: '' })
+  const [drafts, setDrafts] = useState<RunbookStepDraft[]>([emptyStep()])
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setFormData(runbook ? { title: runbook.title, description: runbook.description } : { title: '', description: '' })
+    setDrafts(
+      steps.length > 0
+        ? steps.map(({ id, title, notes, command_id, inline_command }) => ({ id, title, notes, command_id, inline_command }))
+        : [emptyStep()]
+    )
+  }, [isOpen, runbook, steps])
+
+  const updateStep = (index: number, changes: Partial<RunbookStepDraft>) => {
+    setDrafts(drafts.map((step, i) => i === index ? { ...step, ...changes } : step))
+  }
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const next = [...drafts]
+    const [step] = next.splice(index, 1)
+    next.splice(index + direction, 0, step)
+    setDrafts(next)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave(formData, drafts)
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+      >
+        <h2 className="text-2xl font-bold mb-6">
+          {runbook ? 'Edit Runbook' : 'New Runbook'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Title</label>
+            <input
+              type="text"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              className="input-field w-full"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Description</label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="input-field w-full h-20 resize-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Steps</label>
+            <div className="space-y-4">
+              {drafts.map((step, index) => (
+                <div key={step.id ?? `new-${index}`} className="border border-dark-700 rounded-lg p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-dark-400 font-mono text-sm w-6">{index + 1}.</span>
+                    <input
+                      type="text"
+                      value={step.title}
+                      onChange={(e) => updateStep(index, { title: e.target.value })}
+                      placeholder="Step title"
+                      className="input-field flex-1"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      className="p-2 text-dark-400 hover:text-white disabled:opacity-30"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === drafts.length - 1}
+                      className="p-2 text-dark-400 hover:text-white disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                      disabled={drafts.length === 1}
+                      className="p-2 text-dark-400 hover:text-red-400 disabled:opacity-30"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div className="flex rounded-lg border border-dark-600 overflow-hidden w-fit text-sm">
+                    <button
+                      type="button"
+                      onClick={() => updateStep(index, { command_id: null })}
+                      className={`px-3 py-1 transition-colors ${
+                        !step.command_id ? 'bg-primary-600 text-white' : 'text-dark-300 hover:bg-dark-700'
+                      }`}
+                    >
+                      Inline command
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => updateStep(index, { command_id: step.command_id || commands[0]?.id || null })}
+                      disabled={commands.length === 0}
+                      className={`px-3 py-1 transition-colors disabled:opacity-50 ${
+                        step.command_id ? 'bg-primary-600 text-white' : 'text-dark-300 hover:bg-dark-700'
+                      }`}
+                    >
+                      From library
+                    </button>
+                  </div>
+
+                  {step.command_id ? (
+                    <select
+                      value={step.command_id}
+                      onChange={(e) => updateStep(index, { command_id: e.target.value })}
+                      className="input-field w-full"
+                    >
+                      {commands.map(command => (
+                        <option key={command.id} value={command.id}>{command.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <textarea
+                      value={step.inline_command ?? ''}
+                      onChange={(e) => updateStep(index, { inline_command: e.target.value })}
+                      placeholder="Command to run (optional for manual steps)"
+                      className="input-field w-full h-20 resize-none font-mono text-sm"
+                    />
+                  )}
+
+                  <textarea
+                    value={step.notes}
+                    onChange={(e) => updateStep(index, { notes: e.target.value })}
+                    placeholder="Notes (Markdown supported)"
+                    className="input-field w-full h-24 resize-none text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => setDrafts([...drafts, emptyStep()])}
+              className="mt-4 btn-secondary flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add step</span>
+            </button>
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary">
+              {runbook ? 'Update' : 'Create'} Runbook
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  )
+}
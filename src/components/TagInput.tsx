@@ -0,0 +1,87 @@
+import React, { useState } from 'react'
+import { X } from 'lucide-react'
+import { normalizeTagName } from '../lib/tags'
+
+interface TagInputProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  suggestions: string[]
+}
+
+export default function TagInput({ value, onChange, suggestions }: TagInputProps) {
+  const [input, setInput] = useState('')
+  const [focused, setFocused] = useState(false)
+
+  const query = normalizeTagName(input)
+  const matches = suggestions
+    .filter(tag => !value.includes(tag) && (!query || tag.includes(query)))
+    .sort((a, b) => Number(!a.startsWith(query)) - Number(!b.startsWith(query)))
+    .slice(0, 8)
+
+  const addTag = (name: string) => {
+    const tag = normalizeTagName(name)
+    if (tag && !value.includes(tag)) onChange([...value, tag])
+    setInput('')
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      if (!input.trim()) return
+      e.preventDefault()
+      addTag(input)
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      onChange(value.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="relative">
+      <div className="input-field w-full flex flex-wrap items-center gap-2 py-2">
+        {value.map(tag => (
+          <span key={tag} className="bg-dark-600 text-dark-200 px-2 py-1 rounded-full text-xs flex items-center">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter(t => t !== tag))}
+              className="ml-1 text-dark-400 hover:text-white"
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false)
+            if (input.trim()) addTag(input)
+          }}
+          placeholder={value.length === 0 ? 'Add tags...' : ''}
+          className="flex-1 min-w-[8rem] bg-transparent outline-none text-white placeholder-dark-400"
+        />
+      </div>
+
+      {focused && matches.length > 0 && (
+        <div className="absolute left-0 right-0 mt-1 bg-dark-800 border border-dark-700 rounded-lg shadow-xl z-20 py-1 max-h-48 overflow-y-auto">
+          {matches.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault()
+                addTag(tag)
+              }}
+              className="w-full text-left px-4 py-2 text-sm text-dark-300 hover:bg-dark-700 hover:text-white transition-colors"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
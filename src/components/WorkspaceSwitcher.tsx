@@ -0,0 +1,99 @@
+import React, { useState, useRef, useEffect } from 'react'
+import { Layers, ChevronDown, Check, Plus } from 'lucide-react'
+import { createWorkspace } from '../lib/workspaces'
+import { ROLE_LABELS } from '../lib/permissions'
+import { logAuditEvent } from '../lib/audit'
+import { useAuth } from '../contexts/AuthContext'
+import { useWorkspace } from '../contexts/WorkspaceContext'
+
+export default function WorkspaceSwitcher() {
+  const { user, isAdmin } = useAuth()
+  const { workspaces, workspace, roleIn, switchWorkspace, refreshWorkspaces } = useWorkspace()
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  // Nothing to switch between, and nobody who could add a workspace
+  if (workspaces.length < 2 && !isAdmin) return null
+
+  const handleCreate = async () => {
+    setIsOpen(false)
+    if (!user) return
+
+    const name = prompt(workspaces.length === 0
+      ? 'Name the default workspace. It will hold the existing commands.'
+      : 'Workspace name')
+    if (!name?.trim()) return
+
+    try {
+      const created = await createWorkspace(name, '', user.id, workspaces.length === 0)
+
+      await logAuditEvent({
+        actor: user,
+        action: 'workspace.create',
+        targetType: 'workspace',
+        targetId: created.id,
+        after: { name: created.name, is_default: created.is_default },
+      })
+
+      await refreshWorkspaces()
+      await switchWorkspace(created.id)
+    } catch (error) {
+      console.error('Error creating workspace:', error)
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="nav-link flex items-center space-x-2"
+        title="Switch workspace"
+      >
+        <Layers className="w-4 h-4" />
+        <span className="max-w-[10rem] truncate">{workspace?.name ?? 'No workspace'}</span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 md:left-auto md:right-0 mt-2 w-64 bg-dark-800 border border-dark-700 rounded-lg shadow-xl z-20 py-1">
+          {workspaces.map(option => {
+            const role = roleIn(option)
+            return (
+              <button
+                key={option.id}
+                onClick={() => {
+                  setIsOpen(false)
+                  switchWorkspace(option.id)
+                }}
+                className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-dark-300 hover:bg-dark-700 hover:text-white transition-colors"
+              >
+                {option.id === workspace?.id ? <Check className="w-4 h-4 text-primary-400" /> : <span className="w-4 h-4" />}
+                <span className="flex-1 truncate text-left">{option.name}</span>
+                {role && <span className="text-xs text-dark-400">{ROLE_LABELS[role]}</span>}
+              </button>
+            )
+          })}
+          {isAdmin && (
+            <button
+              onClick={handleCreate}
+              className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-dark-300 hover:bg-dark-700 hover:text-white transition-colors border-t border-dark-700"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New workspace</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react'
+import { Download, Filter } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { AuditLogEntry } from '../../lib/supabase'
+import { useAuth } from '../../contexts/AuthContext'
+import { AuditAction, AuditLogFilters, AUDIT_ACTION_LABELS, fetchAuditLogs, retryPendingAuditEvents, subscribeToPendingAuditEvents } from '../../lib/audit'
+import { toCsv, downloadFile } from '../../lib/csv'
+
+const DELAY_SHOWN_MS = 60_000
+
+export default function AuditLog() {
+  const { user } = useAuth()
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const [loading, setLoading] = useState(true)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [retrying, setRetrying] = useState(false)
+
+  useEffect(() => {
+    loadEntries()
+  }, [filters])
+
+  useEffect(() => subscribeToPendingAuditEvents(setPendingCount), [])
+
+  const retryPending = async () => {
+    if (!user) return
+    setRetrying(true)
+    try {
+      await retryPendingAuditEvents(user.id)
+      await loadEntries()
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  const loadEntries = async () => {
+    setLoading(true)
+    try {
+      setEntries(await fetchAuditLogs(filters))
+    } catch (error) {
+      console.error('Error fetching audit log:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const exportCsv = () => {
+    const csv = toCsv(
+      ['timestamp', 'occurred_at', 'actor_id', 'actor_email', 'action', 'target_type', 'target_id', 'before', 'after'],
+      entries.map(entry => [
+        entry.created_at,
+        entry.occurred_at,
+        entry.actor_id,
+        entry.actor_email,
+        entry.action,
+        entry.target_type,
+        entry.target_id,
+        entry.before,
+        entry.after,
+      ]),
+      { neutralizeFormulas: true }
+    )
+    downloadFile(csv, `audit-log-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv')
+  }
+
+  // Entries queued offline reach the server after the action happened
+  const isDelayed = (entry: AuditLogEntry) =>
+    !!entry.occurred_at && Date.parse(entry.created_at) - Date.parse(entry.occurred_at) > DELAY_SHOWN_MS
+
+  const actionLabel = (action: string) => AUDIT_ACTION_LABELS[action as AuditAction] ?? action
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-semibold">Audit Log</h3>
+        <button
+          onClick={exportCsv}
+          disabled={entries.length === 0}
+          className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export CSV</span>
+        </button>
+      </div>
+
+      {pendingCount > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4 mb-6 flex items-center justify-between gap-4">
+          <p className="text-yellow-400 text-sm">
+            {pendingCount} audit entr{pendingCount === 1 ? 'y' : 'ies'} from this browser could not be recorded yet.
+            The actions themselves went through.
+          </p>
+          <button onClick={retryPending} disabled={retrying} className="btn-secondary text-sm disabled:opacity-50">
+            {retrying ? 'Retrying...' : 'Retry now'}
+          </button>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="relative">
+          <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-4 h-4" />
+          <input
+            type="search"
+            value={filters.actorEmail ?? ''}
+            onChange={(e) => setFilters({ ...filters, actorEmail: e.target.value.trim() || undefined })}
+            placeholder="Actor email"
+            className="input-field pl-9 w-full"
+          />
+        </div>
+        <select
+          value={filters.action ?? ''}
+          onChange={(e) => setFilters({ ...filters, action: (e.target.value || undefined) as AuditAction | undefined })}
+          className="input-field w-full"
+        >
+          <option value="">All actions</option>
+          {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+            <option key={action} value={action}>{label}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.from ?? ''}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+          className="input-field w-full"
+          aria-label="From date"
+        />
+        <input
+          type="date"
+          value={filters.to ?? ''}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+          className="input-field w-full"
+          aria-label="To date"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-dark-400 text-center py-12">No audit entries match these filters.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-dark-700">
+                <th className="text-left py-3 px-4">Time</th>
+                <th className="text-left py-3 px-4">Actor</th>
+                <th className="text-left py-3 px-4">Action</th>
+                <th className="text-left py-3 px-4">Target</th>
+                <th className="text-left py-3 px-4">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className="border-b border-dark-700/50 align-top">
+                  <td className="py-3 px-4 text-dark-300 whitespace-nowrap">
+                    {new Date(entry.created_at).toLocaleString()}
+                    {isDelayed(entry) && (
+                      <span className="block text-xs text-dark-500">
+                        Happened {new Date(entry.occurred_at!).toLocaleString()}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4">{entry.actor_email || entry.actor_id}</td>
+                  <td className="py-3 px-4">
+                    <span className="bg-primary-600/20 text-primary-400 px-2 py-1 rounded-full text-xs">
+                      {actionLabel(entry.action)}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4 text-dark-300">
+                    {entry.target_type}
+                    {entry.target_id && <span className="block text-xs text-dark-500 font-mono">{entry.target_id}</span>}
+                  </td>
+                  <td className="py-3 px-4 text-xs font-mono text-dark-300">
+                    {entry.before !== null && <div className="text-red-400">- {JSON.stringify(entry.before)}</div>}
+                    {entry.after !== null && <div className="text-green-400">+ {JSON.stringify(entry.after)}</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  )
+}
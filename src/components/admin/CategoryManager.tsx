@@ -0,0 +1,493 @@
+import React, { useState, useEffect } from 'react'
+import { Plus, Edit, Trash2, Merge, ArrowUp, ArrowDown, FolderPlus } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Category } from '../../lib/supabase'
+import {
+  CategoryInput,
+  CategoryIconName,
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  categoryColorClass,
+  fetchCategories,
+  fetchCategoryUsage,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  reorderCategories,
+  seedDefaultCategories,
+  slugify,
+} from '../../lib/categories'
+import { logAuditEvent } from '../../lib/audit'
+import { useAuth } from '../../contexts/AuthContext'
+import { useCategories } from '../../contexts/CategoriesContext'
+import { CATEGORY_ICON_COMPONENTS } from '../CategoryBadge'
+
+interface CategoryManagerProps {
+  onCommandsChanged: () => void
+}
+
+export default function CategoryManager({ onCommandsChanged }: CategoryManagerProps) {
+  const { user } = useAuth()
+  const { refreshCategories } = useCategories()
+  const [categories, setCategories] = useState<Category[]>([])
+  const [usage, setUsage] = useState<Record<string, number>>({})
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<Category | null>(null)
+  const [showCreate, setShowCreate] = useState(false)
+  const [removing, setRemoving] = useState<{ category: Category; mode: 'delete' | 'merge' } | null>(null)
+
+  useEffect(() => {
+    loadCategories()
+  }, [])
+
+  const loadCategories = async () => {
+    try {
+      const [categoryList, categoryUsage] = await Promise.all([fetchCategories(), fetchCategoryUsage()])
+      setCategories(categoryList)
+      setUsage(categoryUsage)
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const afterChange = async (commandsMoved = false) => {
+    await Promise.all([loadCategories(), refreshCategories()])
+    if (commandsMoved) onCommandsChanged()
+  }
+
+  const handleSeed = async () => {
+    try {
+      await seedDefaultCategories()
+      await afterChange()
+    } catch (error) {
+      console.error('Error creating default categories:', error)
+    }
+  }
+
+  const handleSave = async (input: CategoryInput) => {
+    if (!user) return
+
+    try {
+      if (editing) {
+        const updated = await updateCategory(editing, input, user.id)
+        await logAuditEvent({
+          actor: user,
+          action: 'category.update',
+          targetType: 'category',
+          targetId: editing.id,
+          before: { ...pickInput(editing) },
+          after: { ...pickInput(updated) },
+        })
+        await afterChange(updated.slug !== editing.slug)
+      } else {
+        const created = await createCategory({ ...input, sort_order: categories.length })
+        await logAuditEvent({
+          actor: user,
+          action: 'category.create',
+          targetType: 'category',
+          targetId: created.id,
+          after: { ...pickInput(created) },
+        })
+        await afterChange()
+      }
+      setEditing(null)
+      setShowCreate(false)
+    } catch (error) {
+      console.error('Error saving category:', error)
+      alert('Could not save the category. Slugs must be unique.')
+    }
+  }
+
+  const handleRemove = async (target: Category) => {
+    if (!user || !removing) return
+
+    const { category, mode } = removing
+    try {
+      const moved = await deleteCategory(category, target, user.id)
+      await logAuditEvent({
+        actor: user,
+        action: mode === 'merge' ? 'category.merge' : 'category.delete',
+        targetType: 'category',
+        targetId: category.id,
+        before: { ...pickInput(category) },
+        after: { reassigned_to: target.slug, commands_moved: moved },
+      })
+      setRemoving(null)
+      await afterChange(moved > 0)
+    } catch (error) {
+      console.error('Error removing category:', error)
+    }
+  }
+
+  const move = async (index: number, direction: -1 | 1) => {
+    const next = [...categories]
+    const [item] = next.splice(index, 1)
+    next.splice(index + direction, 0, item)
+    setCategories(next.map((category, i) => ({ ...category, sort_order: i })))
+
+    try {
+      await reorderCategories(next)
+      await refreshCategories()
+    } catch (error) {
+      console.error('Error reordering categories:', error)
+      loadCategories()
+    }
+  }
+
+  // Commands whose slug matches no category, e.g. from before categories
+  // were managed here.
+  const orphaned = Object.entries(usage).filter(([slug]) => !categories.some(c => c.slug === slug))
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-semibold">Category Management</h3>
+        <button onClick={() => setShowCreate(true)} className="btn-primary flex items-center space-x-2">
+          <Plus className="w-4 h-4" />
+          <span>Add Category</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      ) : categories.length === 0 ? (
+        <div className="text-center py-12">
+          <FolderPlus className="w-12 h-12 text-dark-600 mx-auto mb-4" />
+          <p className="text-dark-400 mb-4">
+            No categories are stored yet, so the built-in defaults are shown to users.
+          </p>
+          <button onClick={handleSeed} className="btn-secondary">
+            Create the default categories
+          </button>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-dark-700">
+                <th className="text-left py-3 px-4">Order</th>
+                <th className="text-left py-3 px-4">Category</th>
+                <th className="text-left py-3 px-4">Slug</th>
+                <th className="text-left py-3 px-4">Description</th>
+                <th className="text-left py-3 px-4">Commands</th>
+                <th className="text-left py-3 px-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((category, index) => {
+                const Icon = CATEGORY_ICON_COMPONENTS[category.icon as CategoryIconName] ?? CATEGORY_ICON_COMPONENTS.terminal
+                return (
+                  <tr key={category.id} className="border-b border-dark-700 hover:bg-dark-700/50">
+                    <td className="py-3 px-4">
+                      <div className="flex space-x-1">
+                        <button
+                          onClick={() => move(index, -1)}
+                          disabled={index === 0}
+                          className="p-1 text-dark-400 hover:text-white disabled:opacity-30"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => move(index, 1)}
+                          disabled={index === categories.length - 1}
+                          className="p-1 text-dark-400 hover:text-white disabled:opacity-30"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                    <td className="py-3 px-4">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs ${categoryColorClass(category.color)}`}>
+                        <Icon className="w-3 h-3 mr-1" />
+                        {category.name}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-dark-300 font-mono text-sm">{category.slug}</td>
+                    <td className="py-3 px-4 text-dark-300 text-sm">{category.description}</td>
+                    <td className="py-3 px-4 text-dark-300">{usage[category.slug] ?? 0}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => setEditing(category)}
+                          className="p-2 text-dark-400 hover:text-primary-400 transition-colors"
+                          title="Edit"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setRemoving({ category, mode: 'merge' })}
+                          disabled={categories.length < 2}
+                          className="p-2 text-dark-400 hover:text-primary-400 transition-colors disabled:opacity-30"
+                          title="Merge into another category"
+                        >
+                          <Merge className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setRemoving({ category, mode: 'delete' })}
+                          disabled={categories.length < 2}
+                          className="p-2 text-dark-400 hover:text-red-400 transition-colors disabled:opacity-30"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {orphaned.length > 0 && categories.length > 0 && (
+        <div className="mt-6 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+          <p className="text-yellow-400 text-sm">
+            Some commands use categories that don't exist:{' '}
+            {orphaned.map(([slug, count]) => `${slug} (${count})`).join(', ')}.
+            Create a category with the same slug to adopt them.
+          </p>
+        </div>
+      )}
+
+      <CategoryModal
+        isOpen={showCreate || !!editing}
+        category={editing}
+        onClose={() => {
+          setShowCreate(false)
+          setEditing(null)
+        }}
+        onSubmit={handleSave}
+      />
+
+      {removing && (
+        <RemoveCategoryModal
+          category={removing.category}
+          mode={removing.mode}
+          commandCount={usage[removing.category.slug] ?? 0}
+          targets={categories.filter(c => c.id !== removing.category.id)}
+          onClose={() => setRemoving(null)}
+          onConfirm={handleRemove}
+        />
+      )}
+    </motion.div>
+  )
+}
+
+function pickInput({ slug, name, icon, color, description, sort_order }: Category): CategoryInput {
+  return { slug, name, icon, color, description, sort_order }
+}
+
+interface CategoryModalProps {
+  isOpen: boolean
+  category: Category | null
+  onClose: () => void
+  onSubmit: (input: CategoryInput) => void
+}
+
+function CategoryModal({ isOpen, category, onClose, onSubmit }: CategoryModalProps) {
+  const [formData, setFormData] = useState<CategoryInput>({
+    slug: '',
+    name: '',
+    icon: 'terminal',
+    color: 'sky',
+    description: '',
+    sort_order: 0,
+  })
+  const [slugEdited, setSlugEdited] = useState(false)
+
+  useEffect(() => {
+    setFormData(category ? pickInput(category) : {
+      slug: '',
+      name: '',
+      icon: 'terminal',
+      color: 'sky',
+      description: '',
+      sort_order: 0,
+    })
+    setSlugEdited(!!category)
+  }, [category, isOpen])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({ ...formData, slug: slugify(formData.slug || formData.name) })
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+      >
+        <h2 className="text-2xl font-bold mb-6">
+          {category ? 'Edit Category' : 'Add Category'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Name</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({
+                ...formData,
+                name: e.target.value,
+                slug: slugEdited ? formData.slug : slugify(e.target.value),
+              })}
+              className="input-field w-full"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Slug</label>
+            <input
+              type="text"
+              value={formData.slug}
+              onChange={(e) => {
+                setSlugEdited(true)
+                setFormData({ ...formData, slug: e.target.value })
+              }}
+              className="input-field w-full font-mono text-sm"
+              required
+            />
+            {category && slugify(formData.slug) !== category.slug && (
+              <p className="text-xs text-yellow-400 mt-2">
+                Commands in this category will be moved to the new slug.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Description</label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="input-field w-full h-20 resize-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Icon</label>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_ICONS.map(name => {
+                const Icon = CATEGORY_ICON_COMPONENTS[name]
+                return (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, icon: name })}
+                    title={name}
+                    className={`p-2 rounded-lg border transition-colors ${
+                      formData.icon === name
+                        ? 'border-primary-500 text-primary-400'
+                        : 'border-dark-600 text-dark-400 hover:text-white'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" />
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Color</label>
+            <div className="flex flex-wrap gap-2">
+              {Object.keys(CATEGORY_COLORS).map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, color })}
+                  className={`px-2 py-1 rounded-full text-xs border ${categoryColorClass(color)} ${
+                    formData.color === color ? 'border-white' : 'border-transparent'
+                  }`}
+                >
+                  {color}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary">
+              {category ? 'Update' : 'Add'} Category
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  )
+}
+
+interface RemoveCategoryModalProps {
+  category: Category
+  mode: 'delete' | 'merge'
+  commandCount: number
+  targets: Category[]
+  onClose: () => void
+  onConfirm: (target: Category) => void
+}
+
+function RemoveCategoryModal({ category, mode, commandCount, targets, onClose, onConfirm }: RemoveCategoryModalProps) {
+  const [targetId, setTargetId] = useState(targets[0]?.id ?? '')
+  const target = targets.find(t => t.id === targetId)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-md"
+      >
+        <h2 className="text-2xl font-bold mb-4">
+          {mode === 'merge' ? `Merge "${category.name}"` : `Delete "${category.name}"`}
+        </h2>
+        <p className="text-dark-300 mb-4">
+          {commandCount === 0
+            ? 'No commands use this category.'
+            : `${commandCount} command${commandCount === 1 ? '' : 's'} will be moved to:`}
+        </p>
+
+        <select
+          value={targetId}
+          onChange={(e) => setTargetId(e.target.value)}
+          className="input-field w-full mb-6"
+        >
+          {targets.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+
+        <div className="flex justify-end space-x-4">
+          <button onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={() => target && onConfirm(target)}
+            disabled={!target}
+            className={`${mode === 'merge' ? 'btn-primary' : 'bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg font-medium transition-colors'} disabled:opacity-50`}
+          >
+            {mode === 'merge' ? 'Merge' : 'Delete'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
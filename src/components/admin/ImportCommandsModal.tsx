@@ -0,0 +1,224 @@
+import React, { useState } from 'react'
+import { Upload, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Command } from '../../lib/supabase'
+import { detectFormat, parseLibrary } from '../../lib/libraryFormat'
+import { ConflictStrategy, ImportPlanItem, ImportResult, ImportStatus, applyImport, planLibraryImport } from '../../lib/libraryImport'
+import { fetchAllCommands } from '../../lib/commands'
+import { logAuditEvent } from '../../lib/audit'
+import { useAuth } from '../../contexts/AuthContext'
+import { useWorkspace } from '../../contexts/WorkspaceContext'
+
+interface ImportCommandsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: (result: ImportResult) => void
+}
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  new: 'bg-green-500/20 text-green-400',
+  updated: 'bg-blue-500/20 text-blue-400',
+  unchanged: 'bg-dark-600 text-dark-300',
+  conflicting: 'bg-yellow-500/20 text-yellow-400',
+  invalid: 'bg-red-500/20 text-red-400',
+}
+
+const STRATEGIES: { id: ConflictStrategy; name: string; description: string }[] = [
+  { id: 'skip', name: 'Skip', description: 'Leave the existing command untouched' },
+  { id: 'overwrite', name: 'Overwrite', description: 'Replace the existing command with the imported one' },
+  { id: 'rename', name: 'Rename', description: 'Import as a new command with a suffixed name' },
+]
+
+export default function ImportCommandsModal({ isOpen, onClose, onImported }: ImportCommandsModalProps) {
+  const { user } = useAuth()
+  const { workspace } = useWorkspace()
+  const [filename, setFilename] = useState('')
+  const [plan, setPlan] = useState<ImportPlanItem[]>([])
+  const [existing, setExisting] = useState<Command[]>([])
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip')
+  const [error, setError] = useState('')
+  const [importing, setImporting] = useState(false)
+
+  const reset = () => {
+    setFilename('')
+    setPlan([])
+    setError('')
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    reset()
+    setFilename(file.name)
+
+    const format = detectFormat(file.name)
+    if (!format) {
+      setError('Unsupported file type. Use .json, .yaml, .yml or .csv')
+      return
+    }
+
+    try {
+      // Rows are matched against the whole workspace library, not just the
+      // commands loaded in the admin table
+      const library = await fetchAllCommands({ workspace, libraryOnly: false, order: 'newest' })
+      setExisting(library)
+      setPlan(await planLibraryImport(parseLibrary(await file.text(), format), library))
+    } catch (error: any) {
+      setError(`Could not read ${file.name}: ${error.message}`)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!user) return
+
+    setImporting(true)
+    setError('')
+    try {
+      const result = await applyImport(plan, strategy, user.id, existing, workspace?.id ?? null)
+
+      await logAuditEvent({
+        actor: user,
+        action: 'library.import',
+        targetType: 'command',
+        after: {
+          file: filename,
+          strategy,
+          created: result.created.length,
+          updated: result.updated.length,
+          skipped: result.skipped,
+        },
+      })
+
+      onImported(result)
+      reset()
+      onClose()
+    } catch (error: any) {
+      console.error('Error importing commands:', error)
+      setError(error.message || 'Import failed')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const counts = plan.reduce<Record<ImportStatus, number>>(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { new: 0, updated: 0, unchanged: 0, conflicting: 0, invalid: 0 }
+  )
+  const writes = counts.new + counts.updated + (strategy === 'skip' ? 0 : counts.conflicting)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-dark-800 rounded-xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold">Import Commands</h2>
+          <button onClick={onClose} className="p-2 text-dark-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="border-2 border-dashed border-dark-600 hover:border-primary-500 rounded-lg p-6 flex flex-col items-center cursor-pointer transition-colors mb-6">
+          <Upload className="w-8 h-8 text-dark-400 mb-2" />
+          <span className="text-dark-300">{filename || 'Choose a JSON, YAML or CSV file'}</span>
+          <input type="file" accept=".json,.yaml,.yml,.csv" onChange={handleFile} className="sr-only" />
+        </label>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 mb-6">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {plan.length > 0 && (
+          <>
+            {/* Dry-run Summary */}
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(Object.keys(counts) as ImportStatus[]).map(status => (
+                <span key={status} className={`px-3 py-1 rounded-full text-sm ${STATUS_STYLES[status]}`}>
+                  {counts[status]} {status}
+                </span>
+              ))}
+            </div>
+
+            {counts.conflicting > 0 && (
+              <div className="mb-4">
+                <p className="text-sm font-medium mb-2">When a command with the same name already exists</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  {STRATEGIES.map(option => (
+                    <label
+                      key={option.id}
+                      className={`border rounded-lg p-3 cursor-pointer transition-colors ${
+                        strategy === option.id ? 'border-primary-500 bg-primary-600/10' : 'border-dark-700 hover:border-dark-600'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="strategy"
+                        value={option.id}
+                        checked={strategy === option.id}
+                        onChange={() => setStrategy(option.id)}
+                        className="sr-only"
+                      />
+                      <p className="font-medium">{option.name}</p>
+                      <p className="text-xs text-dark-400">{option.description}</p>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="overflow-x-auto max-h-80 mb-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-dark-700">
+                    <th className="text-left py-2 px-3">Row</th>
+                    <th className="text-left py-2 px-3">Name</th>
+                    <th className="text-left py-2 px-3">Category</th>
+                    <th className="text-left py-2 px-3">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.map(item => (
+                    <tr key={item.index} className="border-b border-dark-700/50 align-top">
+                      <td className="py-2 px-3 text-dark-400">{item.index + 1}</td>
+                      <td className="py-2 px-3">{item.record?.name ?? '—'}</td>
+                      <td className="py-2 px-3 text-dark-300">{item.record?.category ?? '—'}</td>
+                      <td className="py-2 px-3">
+                        <span className={`px-2 py-1 rounded-full text-xs ${STATUS_STYLES[item.status]}`}>
+                          {item.status}
+                        </span>
+                        {item.errors.map(message => (
+                          <p key={message} className="text-xs text-red-400 mt-1">{message}</p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end space-x-4">
+          <button type="button" onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={writes === 0 || importing}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {importing ? 'Importing...' : `Import ${writes} command${writes === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+import React, { useState } from 'react'
+import { Plus, Trash2, ShieldAlert } from 'lucide-react'
+import {
+  LintConfig,
+  LintRule,
+  LintSeverity,
+  LintCategory,
+  BUILT_IN_LINT_RULES,
+  DEFAULT_LINT_CONFIG,
+  LINT_SEVERITIES,
+  LINT_SEVERITY_LABELS,
+  LINT_SEVERITY_STYLES,
+  LINT_CATEGORY_LABELS,
+  isValidPattern,
+  lintCommand,
+  resolveLintRules,
+} from '../../lib/commandLint'
+import { logAuditEvent } from '../../lib/audit'
+import { useAuth } from '../../contexts/AuthContext'
+import { useSettings } from '../../contexts/SettingsContext'
+
+// Audit entries record custom rules by id and pattern rather than in full.
+const summarize = (config: LintConfig) => ({
+  disabled: config.disabled,
+  severities: config.severities,
+  custom: config.custom.map(rule => `${rule.id}: ${rule.pattern}`),
+})
+
+const emptyRule = { label: '', description: '', pattern: '', severity: 'medium' as LintSeverity, category: 'destructive' as LintCategory }
+
+export default function LintRulesSettings() {
+  const { user } = useAuth()
+  const { settings, updateSetting } = useSettings()
+  const [sample, setSample] = useState('')
+  const [newRule, setNewRule] = useState(emptyRule)
+
+  const config: LintConfig = { ...DEFAULT_LINT_CONFIG, ...settings.lint_rules }
+  const rules = [...BUILT_IN_LINT_RULES, ...config.custom]
+  const sampleFindings = sample.trim() ? lintCommand(sample, resolveLintRules(config)) : []
+
+  const save = async (next: LintConfig) => {
+    if (!user) return
+
+    try {
+      await updateSetting('lint_rules', next)
+
+      await logAuditEvent({
+        actor: user,
+        action: 'settings.update',
+        targetType: 'setting',
+        targetId: 'lint_rules',
+        before: summarize(config),
+        after: summarize(next),
+      })
+    } catch (error) {
+      console.error('Error updating lint rules:', error)
+    }
+  }
+
+  const toggleRule = (rule: LintRule) => {
+    const disabled = config.disabled.includes(rule.id)
+      ? config.disabled.filter(id => id !== rule.id)
+      : [...config.disabled, rule.id]
+    save({ ...config, disabled })
+  }
+
+  const setSeverity = (rule: LintRule, severity: LintSeverity) => {
+    const isCustom = config.custom.some(custom => custom.id === rule.id)
+    if (isCustom) {
+      save({ ...config, custom: config.custom.map(custom => custom.id === rule.id ? { ...custom, severity } : custom) })
+      return
+    }
+
+    const severities = { ...config.severities }
+    const builtIn = BUILT_IN_LINT_RULES.find(r => r.id === rule.id)
+    if (builtIn?.severity === severity) {
+      delete severities[rule.id]
+    } else {
+      severities[rule.id] = severity
+    }
+    save({ ...config, severities })
+  }
+
+  const addRule = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValidPattern(newRule.pattern)) return
+
+    const id = `custom-${Date.now().toString(36)}`
+    save({ ...config, custom: [...config.custom, { id, ...newRule, label: newRule.label.trim() }] })
+    setNewRule(emptyRule)
+  }
+
+  const removeRule = (rule: LintRule) => {
+    if (!confirm(`Remove the rule "${rule.label}"?`)) return
+    save({
+      ...config,
+      custom: config.custom.filter(custom => custom.id !== rule.id),
+      disabled: config.disabled.filter(id => id !== rule.id),
+    })
+  }
+
+  const patternInvalid = newRule.pattern !== '' && !isValidPattern(newRule.pattern)
+
+  return (
+    <div>
+      <h4 className="font-medium mb-2">Command Safety Rules</h4>
+      <p className="text-dark-300 text-sm mb-4">
+        Commands matching these patterns are flagged while editing and on cards. High-severity matches ask for
+        confirmation before copying.
+      </p>
+
+      {/* Rule Tester */}
+      <div className="mb-6">
+        <input
+          type="text"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder="Try a command against the current rules..."
+          className="input-field w-full font-mono text-sm"
+        />
+        {sample.trim() && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {sampleFindings.length === 0 ? (
+              <span className="text-sm text-green-400">No rules match.</span>
+            ) : sampleFindings.map(finding => (
+              <span key={finding.rule.id} className={`px-2 py-1 rounded-full text-xs ${LINT_SEVERITY_STYLES[finding.rule.severity]}`}>
+                {finding.rule.label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-dark-700">
+              <th className="text-left py-3 px-4">Rule</th>
+              <th className="text-left py-3 px-4">Category</th>
+              <th className="text-left py-3 px-4">Severity</th>
+              <th className="text-left py-3 px-4">Enabled</th>
+              <th className="py-3 px-4"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map(rule => {
+              const isCustom = config.custom.some(custom => custom.id === rule.id)
+              const severity = config.severities[rule.id] ?? rule.severity
+              return (
+                <tr key={rule.id} className="border-b border-dark-700/50 align-top">
+                  <td className="py-3 px-4">
+                    <p className="font-medium">
+                      {rule.label}
+                      {isCustom && <span className="ml-2 text-xs text-dark-400">custom</span>}
+                    </p>
+                    {rule.description && <p className="text-sm text-dark-400">{rule.description}</p>}
+                    <code className="text-xs text-dark-500 break-all">{rule.pattern}</code>
+                  </td>
+                  <td className="py-3 px-4 text-sm text-dark-300 whitespace-nowrap">{LINT_CATEGORY_LABELS[rule.category]}</td>
+                  <td className="py-3 px-4">
+                    <select
+                      value={severity}
+                      onChange={(e) => setSeverity(rule, e.target.value as LintSeverity)}
+                      className="input-field py-1 text-sm"
+                    >
+                      {LINT_SEVERITIES.map(level => (
+                        <option key={level} value={level}>{LINT_SEVERITY_LABELS[level]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-3 px-4">
+                    <input
+                      type="checkbox"
+                      checked={!config.disabled.includes(rule.id)}
+                      onChange={() => toggleRule(rule)}
+                      className="accent-primary-500"
+                    />
+                  </td>
+                  <td className="py-3 px-4">
+                    {isCustom && (
+                      <button
+                        onClick={() => removeRule(rule)}
+                        className="p-2 text-dark-400 hover:text-red-400 transition-colors"
+                        title="Remove rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Custom Rule */}
+      <form onSubmit={addRule} className="border border-dark-700 rounded-lg p-4 space-y-3">
+        <p className="font-medium flex items-center space-x-2">
+          <ShieldAlert className="w-4 h-4 text-primary-400" />
+          <span>Add a custom rule</span>
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={newRule.label}
+            onChange={(e) => setNewRule({ ...newRule, label: e.target.value })}
+            placeholder="Label, e.g. Deletes S3 buckets"
+            className="input-field"
+            required
+          />
+          <input
+            type="text"
+            value={newRule.pattern}
+            onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+            placeholder="Regular expression, e.g. \baws\s+s3\s+rb\b"
+            className={`input-field font-mono text-sm ${patternInvalid ? 'border-red-500' : ''}`}
+            required
+          />
+          <input
+            type="text"
+            value={newRule.description}
+            onChange={(e) => setNewRule({ ...newRule, description: e.target.value })}
+            placeholder="Why it is dangerous (optional)"
+            className="input-field md:col-span-2"
+          />
+          <select
+            value={newRule.category}
+            onChange={(e) => setNewRule({ ...newRule, category: e.target.value as LintCategory })}
+            className="input-field"
+          >
+            {(Object.keys(LINT_CATEGORY_LABELS) as LintCategory[]).map(category => (
+              <option key={category} value={category}>{LINT_CATEGORY_LABELS[category]}</option>
+            ))}
+          </select>
+          <select
+            value={newRule.severity}
+            onChange={(e) => setNewRule({ ...newRule, severity: e.target.value as LintSeverity })}
+            className="input-field"
+          >
+            {LINT_SEVERITIES.map(level => (
+              <option key={level} value={level}>{LINT_SEVERITY_LABELS[level]}</option>
+            ))}
+          </select>
+        </div>
+        {patternInvalid && <p className="text-red-400 text-sm">That pattern is not a valid regular expression.</p>}
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={patternInvalid}
+            className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add rule</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
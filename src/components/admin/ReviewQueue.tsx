@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react'
+import { Check, X, MessageSquare, Terminal, Inbox } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Command } from '../../lib/supabase'
+import { EditDecision, PendingEdit, ReviewDecision, fetchPendingEdits, fetchReviewQueue, reviewCommand, reviewEdit } from '../../lib/moderation'
+import { AuditAction, logAuditEvent } from '../../lib/audit'
+import { DEFAULT_SHELL } from '../../lib/shells'
+import { diffLines } from '../../lib/diff'
+import { changedFields } from '../../lib/revisions'
+import { fetchDisplayNames } from '../../lib/profiles'
+import { useAuth } from '../../contexts/AuthContext'
+import { useWorkspace } from '../../contexts/WorkspaceContext'
+import CategoryBadge from '../CategoryBadge'
+import CommandCode from '../CommandCode'
+
+interface ReviewQueueProps {
+  onReviewed: (command: Command) => void
+}
+
+const DECISION_AUDIT_ACTIONS: Record<ReviewDecision, AuditAction> = {
+  approved: 'command.approve',
+  rejected: 'command.reject',
+  changes_requested: 'command.request_changes',
+}
+
+export default function ReviewQueue({ onReviewed }: ReviewQueueProps) {
+  const { user } = useAuth()
+  const { workspace } = useWorkspace()
+  const [queue, setQueue] = useState<Command[]>([])
+  const [edits, setEdits] = useState<PendingEdit[]>([])
+  const [authors, setAuthors] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadQueue()
+  }, [workspace?.id])
+
+  const loadQueue = async () => {
+    try {
+      const [commands, pendingEdits] = await Promise.all([fetchReviewQueue(workspace), fetchPendingEdits(workspace)])
+      setQueue(commands)
+      setEdits(pendingEdits)
+      setAuthors(await fetchDisplayNames([
+        ...commands.map(command => command.created_by),
+        ...pendingEdits.map(edit => edit.revision.created_by),
+      ]))
+    } catch (error) {
+      console.error('Error fetching review queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const review = async (command: Command, decision: ReviewDecision) => {
+    if (!user) return
+
+    let note: string | null = null
+    if (decision !== 'approved') {
+      note = prompt(decision === 'rejected' ? 'Reason for rejection:' : 'What should the author change?')
+      if (!note?.trim()) return
+      note = note.trim()
+    }
+
+    try {
+      const reviewed = await reviewCommand(command.id, decision, user.id, note)
+      setQueue(queue.filter(cmd => cmd.id !== command.id))
+      onReviewed(reviewed)
+
+      await logAuditEvent({
+        actor: user,
+        action: DECISION_AUDIT_ACTIONS[decision],
+        targetType: 'command',
+        targetId: command.id,
+        before: { status: command.status },
+        after: { status: decision, review_note: note },
+      })
+    } catch (error) {
+      console.error('Error reviewing command:', error)
+    }
+  }
+
+  const reviewPendingEdit = async (edit: PendingEdit, decision: EditDecision) => {
+    if (!user) return
+
+    let note: string | null = null
+    if (decision === 'rejected') {
+      note = prompt('Reason for rejection:')
+      if (!note?.trim()) return
+      note = note.trim()
+    }
+
+    try {
+      const reviewed = await reviewEdit(edit, decision, user.id, note)
+      setEdits(edits.filter(other => other.revision.id !== edit.revision.id))
+      if (decision === 'approved') onReviewed(reviewed)
+
+      const fields = changedFields(edit.command, edit.revision)
+      await logAuditEvent({
+        actor: user,
+        action: DECISION_AUDIT_ACTIONS[decision],
+        targetType: 'command',
+        targetId: edit.command.id,
+        before: Object.fromEntries(fields.map(field => [field, edit.command[field]])),
+        after: { ...Object.fromEntries(fields.map(field => [field, edit.revision[field]])), review_note: note },
+      })
+    } catch (error) {
+      console.error('Error reviewing edit:', error)
+    }
+  }
+
+  const authorName = (id: string | null) => (id && authors[id]) || 'Unknown user'
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card"
+    >
+      <h3 className="text-xl font-semibold mb-6">Review Queue</h3>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      ) : queue.length === 0 && edits.length === 0 ? (
+        <div className="text-center py-12">
+          <Inbox className="w-12 h-12 text-dark-600 mx-auto mb-4" />
+          <p className="text-dark-400">No commands are waiting for review.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {queue.map((command) => (
+            <div key={command.id} className="border border-dark-700 rounded-lg p-4">
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <h4 className="font-semibold">{command.name}</h4>
+                  <p className="text-sm text-dark-400">
+                    {authorName(command.created_by)} · submitted {new Date(command.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <CategoryBadge slug={command.category} />
+              </div>
+
+              <p className="text-dark-300 text-sm mb-3">{command.description}</p>
+
+              <div className="bg-dark-700 rounded-lg p-3 mb-4">
+                <div className="flex items-center space-x-2 mb-1">
+                  <Terminal className="w-4 h-4 text-primary-400" />
+                  <span className="text-xs text-dark-400">Command</span>
+                </div>
+                <CommandCode text={command.command} shell={DEFAULT_SHELL} />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => review(command, 'changes_requested')}
+                  className="px-3 py-2 rounded-lg text-sm flex items-center space-x-1 text-orange-400 hover:bg-orange-500/20 transition-colors"
+                >
+                  <MessageSquare className="w-4 h-4" />
+                  <span>Request changes</span>
+                </button>
+                <button
+                  onClick={() => review(command, 'rejected')}
+                  className="px-3 py-2 rounded-lg text-sm flex items-center space-x-1 text-red-400 hover:bg-red-500/20 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                  <span>Reject</span>
+                </button>
+                <button
+                  onClick={() => review(command, 'approved')}
+                  className="px-3 py-2 rounded-lg text-sm flex items-center space-x-1 text-green-400 hover:bg-green-500/20 transition-colors"
+                >
+                  <Check className="w-4 h-4" />
+                  <span>Approve</span>
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {edits.length > 0 && (
+            <h4 className="text-sm font-medium text-dark-400 pt-2">Edits to published commands</h4>
+          )}
+          {edits.map((edit) => (
+            <div key={edit.revision.id} className="border border-dark-700 rounded-lg p-4">
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <h4 className="font-semibold">{edit.revision.name}</h4>
+                  <p className="text-sm text-dark-400">
+                    {authorName(edit.revision.created_by)} · edit of "{edit.command.name}" · submitted {new Date(edit.revision.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <CategoryBadge slug={edit.revision.category} />
+              </div>
+
+              <p className="text-sm text-dark-400 mb-3">
+                Changes {edit.revision.changed_fields.join(', ')}. The published version stays in the library until the edit is approved.
+              </p>
+
+              {edit.revision.changed_fields.includes('description') && (
+                <p className="text-dark-300 text-sm mb-3">{edit.revision.description}</p>
+              )}
+
+              <div className="bg-dark-700 rounded-lg p-3 mb-4 font-mono text-sm overflow-x-auto">
+                {diffLines(edit.command.command, edit.revision.command).map((line, index) => (
+                  <div
+                    key={index}
+                    className={line.type === 'added' ? 'text-green-400' : line.type === 'removed' ? 'text-red-400' : 'text-dark-300'}
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => reviewPendingEdit(edit, 'rejected')}
+                  className="px-3 py-2 rounded-lg text-sm flex items-center space-x-1 text-red-400 hover:bg-red-500/20 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                  <span>Reject</span>
+                </button>
+                <button
+                  onClick={() => reviewPendingEdit(edit, 'approved')}
+                  className="px-3 py-2 rounded-lg text-sm flex items-center space-x-1 text-green-400 hover:bg-green-500/20 transition-colors"
+                >
+                  <Check className="w-4 h-4" />
+                  <span>Approve</span>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  )
+}
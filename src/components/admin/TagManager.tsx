@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react'
+import { Edit, Trash2, Merge, Tags } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Tag } from '../../lib/supabase'
+import { fetchTags, fetchTagUsage, renameTag, mergeTags, deleteTag, normalizeTagName } from '../../lib/tags'
+import { logAuditEvent } from '../../lib/audit'
+import { useAuth } from '../../contexts/AuthContext'
+
+export default function TagManager() {
+  const { user } = useAuth()
+  const [tags, setTags] = useState<Tag[]>([])
+  const [usage, setUsage] = useState<Record<string, number>>({})
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [mergeTarget, setMergeTarget] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadTags()
+  }, [])
+
+  const loadTags = async () => {
+    try {
+      const [tagList, tagUsage] = await Promise.all([fetchTags(), fetchTagUsage()])
+      setTags(tagList)
+      setUsage(tagUsage)
+    } catch (error) {
+      console.error('Error fetching tags:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(t => t !== id) : [...selectedIds, id])
+  }
+
+  const handleRename = async (tag: Tag) => {
+    if (!user) return
+
+    const input = prompt('New tag name:', tag.name)
+    const name = input ? normalizeTagName(input) : ''
+    if (!name || name === tag.name) return
+
+    if (tags.some(t => t.name === name)) {
+      alert(`A tag named "${name}" already exists. Merge the tags instead.`)
+      return
+    }
+
+    try {
+      const renamed = await renameTag(tag.id, name)
+      setTags(tags.map(t => t.id === tag.id ? renamed : t).sort((a, b) => a.name.localeCompare(b.name)))
+
+      await logAuditEvent({
+        actor: user,
+        action: 'tag.rename',
+        targetType: 'tag',
+        targetId: tag.id,
+        before: { name: tag.name },
+        after: { name: renamed.name },
+      })
+    } catch (error) {
+      console.error('Error renaming tag:', error)
+    }
+  }
+
+  const handleDelete = async (tag: Tag) => {
+    if (!user) return
+
+    const count = usage[tag.id] ?? 0
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from ${count} command${count === 1 ? '' : 's'}.`)) return
+
+    try {
+      await deleteTag(tag.id)
+      setTags(tags.filter(t => t.id !== tag.id))
+      setSelectedIds(selectedIds.filter(id => id !== tag.id))
+
+      await logAuditEvent({
+        actor: user,
+        action: 'tag.delete',
+        targetType: 'tag',
+        targetId: tag.id,
+        before: { name: tag.name, commands: count },
+      })
+    } catch (error) {
+      console.error('Error deleting tag:', error)
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!user || !mergeTarget) return
+
+    const target = tags.find(t => t.id === mergeTarget)
+    const sources = tags.filter(t => selectedIds.includes(t.id) && t.id !== mergeTarget)
+    if (!target || sources.length === 0) return
+
+    if (!confirm(`Merge ${sources.map(t => `"${t.name}"`).join(', ')} into "${target.name}"?`)) return
+
+    try {
+      await mergeTags(sources.map(t => t.id), target.id)
+
+      await logAuditEvent({
+        actor: user,
+        action: 'tag.merge',
+        targetType: 'tag',
+        targetId: target.id,
+        before: { tags: sources.map(t => t.name) },
+        after: { name: target.name },
+      })
+    } catch (error) {
+      console.error('Error merging tags:', error)
+    } finally {
+      setSelectedIds([])
+      setMergeTarget('')
+      loadTags()
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card"
+    >
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-xl font-semibold">Tag Management</h3>
+
+        {selectedIds.length > 1 && (
+          <div className="flex items-center gap-2">
+            <select
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              className="input-field"
+            >
+              <option value="">Merge into...</option>
+              {tags.filter(t => selectedIds.includes(t.id)).map(tag => (
+                <option key={tag.id} value={tag.id}>#{tag.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleMerge}
+              disabled={!mergeTarget}
+              className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Merge className="w-4 h-4" />
+              <span>Merge {selectedIds.length} tags</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      ) : tags.length === 0 ? (
+        <div className="text-center py-12">
+          <Tags className="w-12 h-12 text-dark-600 mx-auto mb-4" />
+          <p className="text-dark-400">No tags yet. Tags are created when commands are tagged.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-dark-700">
+                <th className="py-3 px-4 w-10"></th>
+                <th className="text-left py-3 px-4">Tag</th>
+                <th className="text-left py-3 px-4">Commands</th>
+                <th className="text-left py-3 px-4">Created</th>
+                <th className="text-left py-3 px-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tags.map((tag) => (
+                <tr key={tag.id} className="border-b border-dark-700 hover:bg-dark-700/50">
+                  <td className="py-3 px-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(tag.id)}
+                      onChange={() => toggleSelected(tag.id)}
+                      className="accent-primary-500"
+                    />
+                  </td>
+                  <td className="py-3 px-4 font-medium">#{tag.name}</td>
+                  <td className="py-3 px-4 text-dark-300">{usage[tag.id] ?? 0}</td>
+                  <td className="py-3 px-4 text-dark-300">
+                    {new Date(tag.created_at).toLocaleDateString()}
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleRename(tag)}
+                        className="p-2 text-dark-400 hover:text-primary-400 transition-colors"
+                        title="Rename"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(tag)}
+                        className="p-2 text-dark-400 hover:text-red-400 transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react'
+import { UserPlus, Trash2 } from 'lucide-react'
+import { UserRole } from '../../lib/supabase'
+import { WorkspaceMemberProfile, fetchMembers, addMember, setMemberRole, removeMember } from '../../lib/workspaces'
+import { ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS, DEFAULT_ROLE } from '../../lib/permissions'
+import { logAuditEvent } from '../../lib/audit'
+import { useAuth } from '../../contexts/AuthContext'
+import { useWorkspace } from '../../contexts/WorkspaceContext'
+
+export default function WorkspaceMembers() {
+  const { user } = useAuth()
+  const { workspace, refreshWorkspaces } = useWorkspace()
+  const [members, setMembers] = useState<WorkspaceMemberProfile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<UserRole>(DEFAULT_ROLE)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadMembers()
+  }, [workspace?.id])
+
+  const loadMembers = async () => {
+    if (!workspace) return
+
+    try {
+      setMembers(await fetchMembers(workspace.id))
+    } catch (error) {
+      console.error('Error fetching workspace members:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || !workspace || !email.trim()) return
+
+    setError('')
+    try {
+      const member = await addMember(workspace.id, email, role)
+      if (!member) {
+        setError(`No account uses ${email.trim()}.`)
+        return
+      }
+
+      setMembers([...members.filter(m => m.user_id !== member.user_id), member])
+      setEmail('')
+
+      await logAuditEvent({
+        actor: user,
+        action: 'workspace.add_member',
+        targetType: 'workspace',
+        targetId: workspace.id,
+        after: { user_id: member.user_id, email: member.email, role },
+      })
+    } catch (error) {
+      console.error('Error adding workspace member:', error)
+    }
+  }
+
+  const handleRoleChange = async (member: WorkspaceMemberProfile, next: UserRole) => {
+    if (!user || !workspace || member.role === next) return
+
+    try {
+      await setMemberRole(workspace.id, member.user_id, next)
+      setMembers(members.map(m => m.user_id === member.user_id ? { ...m, role: next } : m))
+
+      await logAuditEvent({
+        actor: user,
+        action: 'workspace.change_member_role',
+        targetType: 'workspace',
+        targetId: workspace.id,
+        before: { user_id: member.user_id, role: member.role },
+        after: { user_id: member.user_id, role: next },
+      })
+    } catch (error) {
+      console.error('Error updating workspace member:', error)
+    }
+  }
+
+  const handleRemove = async (member: WorkspaceMemberProfile) => {
+    if (!user || !workspace) return
+    if (!confirm(`Remove ${member.full_name || member.email} from ${workspace.name}?`)) return
+
+    try {
+      await removeMember(workspace.id, member.user_id)
+      setMembers(members.filter(m => m.user_id !== member.user_id))
+
+      await logAuditEvent({
+        actor: user,
+        action: 'workspace.remove_member',
+        targetType: 'workspace',
+        targetId: workspace.id,
+        before: { user_id: member.user_id, email: member.email, role: member.role },
+      })
+      if (member.user_id === user.id) await refreshWorkspaces()
+    } catch (error) {
+      console.error('Error removing workspace member:', error)
+    }
+  }
+
+  if (!workspace) return null
+
+  return (
+    <div className="card">
+      <h3 className="text-xl font-semibold mb-2">Members of {workspace.name}</h3>
+      <p className="text-dark-300 text-sm mb-6">
+        {workspace.is_default
+          ? 'Every account can use the default workspace with its account role. Members listed here get a different role in it.'
+          : 'Only members can see this workspace and its commands.'}
+      </p>
+
+      {/* Add Member */}
+      <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-3 mb-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email address"
+          className="input-field flex-1"
+          required
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          className="input-field"
+        >
+          {ROLES.map(option => (
+            <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+          ))}
+        </select>
+        <button type="submit" className="btn-primary flex items-center justify-center space-x-2">
+          <UserPlus className="w-4 h-4" />
+          <span>Add member</span>
+        </button>
+      </form>
+      {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      ) : members.length === 0 ? (
+        <p className="text-dark-400 text-sm mt-4">No members yet.</p>
+      ) : (
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-dark-700">
+                <th className="text-left py-3 px-4">Member</th>
+                <th className="text-left py-3 px-4">Role</th>
+                <th className="py-3 px-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(member => (
+                <tr key={member.user_id} className="border-b border-dark-700/50">
+                  <td className="py-3 px-4">
+                    <p className="font-medium">{member.full_name || member.email}</p>
+                    {member.full_name && <p className="text-sm text-dark-400">{member.email}</p>}
+                  </td>
+                  <td className="py-3 px-4">
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as UserRole)}
+                      disabled={member.user_id === user?.id}
+                      title={member.user_id === user?.id ? 'You cannot change your own role' : ROLE_DESCRIPTIONS[member.role]}
+                      className="input-field py-1 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {ROLES.map(option => (
+                        <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-3 px-4 text-right">
+                    <button
+                      onClick={() => handleRemove(member)}
+                      className="p-2 text-dark-400 hover:text-red-400 transition-colors"
+                      title="Remove from workspace"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,15 +1,14 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { User, Session } from '@supabase/supabase-js'
-import { supabase } from '../lib/supabase'
-
-interface UserProfile {
-  id: string
-  email: string
-  full_name: string
-  is_admin: boolean
-  created_at: string
-  updated_at: string
-}
+import { supabase, UserProfile, UserRole } from '../lib/supabase'
+import { backend } from '../lib/backend'
+import { profilesRepository } from '../lib/repositories'
+import { localUser, localSignIn, localSignUp, localSignOut } from '../lib/localAuth'
+import { fetchSettings } from '../lib/settings'
+import { deleteAccount as deleteUserAccount } from '../lib/profiles'
+import { AuthProviderId, providerById, identityName } from '../lib/authProviders'
+import { readCached, writeCached } from '../lib/offlineStore'
+import { roleOf } from '../lib/permissions'
 
 interface AuthContextType {
   user: User | null
@@ -17,13 +16,44 @@ interface AuthContextType {
   session: Session | null
   loading: boolean
   signIn: (email: string, password: string) => Promise<void>
-  signUp: (email: string, password: string, fullName: string) => Promise<void>
+  signUp: (email: string, password: string, fullName: string) => Promise<{ needsConfirmation: boolean }>
+  signInWithMagicLink: (email: string) => Promise<void>
+  resendVerification: (email: string) => Promise<void>
+  requestPasswordReset: (email: string) => Promise<void>
+  updatePassword: (password: string) => Promise<void>
+  signInWithProvider: (provider: AuthProviderId) => Promise<void>
+  linkProvider: (provider: AuthProviderId) => Promise<void>
+  completeProviderSignIn: () => Promise<ProviderSignIn>
   signOut: () => Promise<void>
+  updateProfile: (updates: ProfileChanges) => Promise<void>
+  changeEmail: (email: string) => Promise<void>
+  deleteAccount: (keepCommands: boolean) => Promise<void>
+  role: UserRole | null
   isAdmin: boolean
 }
 
+// What users may change about their own profile
+type ProfileChanges = Partial<Pick<UserProfile, 'full_name' | 'avatar_url' | 'preferred_shell' | 'default_category' | 'active_workspace_id'>>
+
+// How a provider sign-in ended. `link-required` means the provider's email
+// belongs to an account that signs in some other way: the user has to sign in
+// to that account first and connect the provider from there.
+export type ProviderSignIn =
+  | { status: 'signed-in' }
+  | { status: 'link-required'; email: string; provider: string | undefined }
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// Links in auth emails and provider redirects bring the user back to this app
+function redirectUrl(path: string): string {
+  return `${window.location.origin}${path}`
+}
+
+// The local backend sends no email, has no OAuth and does not check passwords
+function requireSupabaseAuth(feature: string) {
+  if (backend === 'local') throw new Error(`${feature} is not available with the local backend`)
+}
+
 export function useAuth() {
   const context = useContext(AuthContext)
   if (context === undefined) {
@@ -39,12 +69,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
+    if (backend === 'local') {
+      localUser().then(applyLocalUser)
+      return
+    }
+
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session)
       setUser(session?.user ?? null)
       if (session?.user) {
-        fetchUserProfile(session.user.id)
+        fetchUserProfile(session.user)
       } else {
         setLoading(false)
       }
@@ -52,12 +87,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     // Listen for auth changes
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
+      async (_event, session) => {
         setSession(session)
         setUser(session?.user ?? null)
         
         if (session?.user) {
-          await fetchUserProfile(session.user.id)
+          await fetchUserProfile(session.user)
         } else {
           setProfile(null)
           setLoading(false)
@@ -68,24 +103,44 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => subscription.unsubscribe()
   }, [])
 
-  const fetchUserProfile = async (userId: string) => {
-    try {
-      const { data, error } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .eq('id', userId)
-        .single()
+  // The local backend has no sessions or auth events; signing in and out
+  // just swaps the user
+  const applyLocalUser = (localAccount: User | null) => {
+    setUser(localAccount)
+    if (localAccount) {
+      fetchUserProfile(localAccount)
+    } else {
+      setProfile(null)
+      setLoading(false)
+    }
+  }
 
-      if (error) throw error
+  const fetchUserProfile = async (account: User) => {
+    try {
+      let data = await profilesRepository.get(account.id)
+      // A changed email address only reaches the account once the user has
+      // confirmed it, so the profile catches up here
+      if (data && account.email && data.email !== account.email) {
+        data = await profilesRepository.update(account.id, { email: account.email, updated_at: new Date().toISOString() })
+      }
       setProfile(data)
+      writeCached(`profile:${account.id}`, data).catch(() => undefined)
     } catch (error) {
       console.error('Error fetching user profile:', error)
+      // Offline, the last profile seen keeps the user's role and preferences
+      const cached = await readCached<UserProfile>(`profile:${account.id}`).catch(() => undefined)
+      if (cached) setProfile(cached)
     } finally {
       setLoading(false)
     }
   }
 
   const signIn = async (email: string, password: string) => {
+    if (backend === 'local') {
+      applyLocalUser(await localSignIn(email))
+      return
+    }
+
     const { error } = await supabase.auth.signInWithPassword({
       email,
       password,
@@ -94,33 +149,196 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }
 
   const signUp = async (email: string, password: string, fullName: string) => {
+    const { allow_registration } = await fetchSettings()
+    if (!allow_registration) {
+      throw new Error('Registration is currently closed')
+    }
+
+    if (backend === 'local') {
+      applyLocalUser(await localSignUp(email, fullName))
+      return { needsConfirmation: false }
+    }
+
+    // The database creates the profile from the name passed along here, so
+    // it exists before the email address is confirmed (see
+    // supabase/migrations/20261018000000_app_schema.sql)
     const { data, error } = await supabase.auth.signUp({
       email,
       password,
+      options: { emailRedirectTo: redirectUrl('/'), data: { full_name: fullName } },
     })
     
     if (error) throw error
-    
-    if (data.user) {
-      // Create user profile
-      const { error: profileError } = await supabase
-        .from('user_profiles')
-        .insert({
-          id: data.user.id,
-          email,
-          full_name: fullName,
-          is_admin: false,
-        })
-      
-      if (profileError) throw profileError
+
+    // Projects that confirm email addresses sign the user in only once the
+    // link in the confirmation email is followed
+    return { needsConfirmation: !data.session }
+  }
+
+  // Accounts are only created through signUp, which checks whether
+  // registration is open and creates the profile
+  const signInWithMagicLink = async (email: string) => {
+    requireSupabaseAuth('Email sign-in links')
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: redirectUrl('/') },
+    })
+    if (error) throw error
+  }
+
+  const resendVerification = async (email: string) => {
+    requireSupabaseAuth('Email confirmation')
+
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: redirectUrl('/') },
+    })
+    if (error) throw error
+  }
+
+  const requestPasswordReset = async (email: string) => {
+    requireSupabaseAuth('Password reset')
+
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: redirectUrl('/reset-password'),
+    })
+    if (error) throw error
+  }
+
+  // Following a reset link signs the user in, so this works for both a
+  // forgotten password and a signed-in user changing theirs
+  const updatePassword = async (password: string) => {
+    requireSupabaseAuth('Changing the password')
+
+    const { error } = await supabase.auth.updateUser({ password })
+    if (error) throw error
+  }
+
+  const signInWithProvider = async (provider: AuthProviderId) => {
+    requireSupabaseAuth('Signing in with a provider')
+
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider: providerById(provider).provider,
+      options: { redirectTo: redirectUrl('/auth/callback') },
+    })
+    if (error) throw error
+  }
+
+  // Adds the provider to the signed-in account, so either can be used to
+  // sign in from now on
+  const linkProvider = async (provider: AuthProviderId) => {
+    requireSupabaseAuth('Connecting a provider')
+
+    const { error } = await supabase.auth.linkIdentity({
+      provider: providerById(provider).provider,
+      options: { redirectTo: redirectUrl('/auth/callback') },
+    })
+    if (error) throw error
+  }
+
+  // Runs on the callback page once the provider has sent the user back. The
+  // Supabase client has read the session from the URL by the time
+  // `getSession` resolves. There are three cases:
+  // - Supabase links the provider to an account with the same email on its
+  //   own when both sides have verified that email. The session is then that
+  //   account's, its profile exists, and nothing is left to do.
+  // - Otherwise, when an account with the email exists, Supabase has made a
+  //   second account for the provider. It is removed again, because an
+  //   identity belongs to one account only and connecting it to the existing
+  //   one would fail; the user signs in there and connects from it instead.
+  // - With no account for the email this is a new user, who gets a profile.
+  //   While registration is closed the account Supabase made is removed
+  //   instead, the same way as above.
+  const completeProviderSignIn = async (): Promise<ProviderSignIn> => {
+    const { data: { session }, error } = await supabase.auth.getSession()
+    if (error) throw error
+    if (!session) throw new Error('Signing in did not finish. Try again.')
+
+    const account = session.user
+    if (await profilesRepository.get(account.id)) return { status: 'signed-in' }
+
+    const email = account.email ?? ''
+    const existing = email ? await profilesRepository.findByEmail(email) : null
+    if (existing) {
+      const { error: discardError } = await supabase.rpc('discard_unlinked_account')
+      // The account is gone by now, so only this browser's session is left
+      await supabase.auth.signOut({ scope: 'local' })
+      if (discardError) throw discardError
+      return { status: 'link-required', email, provider: account.app_metadata.provider }
+    }
+
+    const { allow_registration } = await fetchSettings()
+    if (!allow_registration) {
+      const { error: discardError } = await supabase.rpc('discard_unlinked_account')
+      await supabase.auth.signOut({ scope: 'local' })
+      if (discardError) throw discardError
+      throw new Error('Registration is currently closed')
     }
+
+    await profilesRepository.insert({
+      id: account.id,
+      email,
+      full_name: identityName(account),
+      avatar_url: account.user_metadata?.avatar_url ?? null,
+    })
+    await fetchUserProfile(account)
+    return { status: 'signed-in' }
   }
 
   const signOut = async () => {
+    if (backend === 'local') {
+      localSignOut()
+      applyLocalUser(null)
+      return
+    }
+
     const { error } = await supabase.auth.signOut()
     if (error) throw error
   }
 
+  const updateProfile = async (updates: ProfileChanges) => {
+    if (!user) return
+
+    setProfile(await profilesRepository.update(user.id, { ...updates, updated_at: new Date().toISOString() }))
+  }
+
+  // Supabase sends a confirmation link to the new address (and, with secure
+  // email change, to the old one); the address changes once it is followed
+  const changeEmail = async (email: string) => {
+    if (!user) return
+
+    if (backend === 'local') {
+      const taken = await profilesRepository.findByEmail(email)
+      if (taken && taken.id !== user.id) throw new Error('User already registered')
+      await profilesRepository.update(user.id, { email: email.trim(), updated_at: new Date().toISOString() })
+      applyLocalUser(await localUser())
+      return
+    }
+
+    const { error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: redirectUrl('/profile') })
+    if (error) throw error
+  }
+
+  const deleteAccount = async (keepCommands: boolean) => {
+    if (!user) return
+
+    await deleteUserAccount(user.id, keepCommands)
+
+    if (backend === 'local') {
+      localSignOut()
+      applyLocalUser(null)
+      return
+    }
+
+    // The account is gone on the server, so only this browser's session is left
+    const { error } = await supabase.auth.signOut({ scope: 'local' })
+    if (error) throw error
+  }
+
+  const role = roleOf(profile)
+
   const value = {
     user,
     profile,
@@ -128,8 +346,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     loading,
     signIn,
     signUp,
+    signInWithMagicLink,
+    resendVerification,
+    requestPasswordReset,
+    updatePassword,
+    signInWithProvider,
+    linkProvider,
+    completeProviderSignIn,
     signOut,
-    isAdmin: profile?.is_admin ?? false,
+    updateProfile,
+    changeEmail,
+    deleteAccount,
+    role,
+    isAdmin: role === 'admin',
   }
 
   return (
@@ -0,0 +1,62 @@
+import React, { createContext, useContext, useEffect, useState } from 'react'
+import { Category } from '../lib/supabase'
+import { DEFAULT_CATEGORIES, fetchCategories } from '../lib/categories'
+import { readCached, writeCached } from '../lib/offlineStore'
+
+interface CategoriesContextType {
+  categories: Category[]
+  loading: boolean
+  refreshCategories: () => Promise<void>
+}
+
+const CategoriesContext = createContext<CategoriesContextType | undefined>(undefined)
+
+const FALLBACK_CATEGORIES: Category[] = DEFAULT_CATEGORIES.map(category => ({
+  ...category,
+  id: `default-${category.slug}`,
+  created_at: '',
+  updated_at: '',
+}))
+
+export function useCategories() {
+  const context = useContext(CategoriesContext)
+  if (context === undefined) {
+    throw new Error('useCategories must be used within a CategoriesProvider')
+  }
+  return context
+}
+
+export function CategoriesProvider({ children }: { children: React.ReactNode }) {
+  const [categories, setCategories] = useState<Category[]>(FALLBACK_CATEGORIES)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    refreshCategories()
+  }, [])
+
+  const refreshCategories = async () => {
+    try {
+      const stored = await fetchCategories()
+      setCategories(stored.length > 0 ? stored : FALLBACK_CATEGORIES)
+      writeCached('categories', stored).catch(() => undefined)
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+      const cached = await readCached<Category[]>('categories').catch(() => undefined)
+      if (cached && cached.length > 0) setCategories(cached)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const value = {
+    categories,
+    loading,
+    refreshCategories,
+  }
+
+  return (
+    <CategoriesContext.Provider value={value}>
+      {children}
+    </CategoriesContext.Provider>
+  )
+}
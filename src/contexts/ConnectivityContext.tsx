@@ -0,0 +1,114 @@
+import React, { createContext, useContext, useEffect, useState } from 'react'
+import { supabase, Command } from '../lib/supabase'
+import { isOnline, subscribeToConnectivity } from '../lib/connectivity'
+import { OfflineEdit, readQueue } from '../lib/offlineStore'
+import { queueOfflineEdit, syncOfflineEdits, resolveOfflineConflict } from '../lib/offlineEdits'
+import { refreshLibraryMirror, updateMirroredCommand } from '../lib/libraryMirror'
+import { retryPendingAuditEvents } from '../lib/audit'
+import { useAuth } from './AuthContext'
+import { useWorkspace, usePermission } from './WorkspaceContext'
+import { useSettings } from './SettingsContext'
+
+interface ConnectivityContextType {
+  online: boolean
+  // Offline edits not saved yet, including those waiting on a conflict
+  pendingEdits: OfflineEdit[]
+  syncing: boolean
+  saveOffline: (base: Command, updates: Partial<Command>) => Promise<Command>
+  resolveConflict: (edit: OfflineEdit, keep: 'mine' | 'theirs') => Promise<void>
+}
+
+const ConnectivityContext = createContext<ConnectivityContextType | undefined>(undefined)
+
+// While offline, how often to check whether Supabase is back
+const RETRY_INTERVAL_MS = 30000
+
+export function useConnectivity() {
+  const context = useContext(ConnectivityContext)
+  if (context === undefined) {
+    throw new Error('useConnectivity must be used within a ConnectivityProvider')
+  }
+  return context
+}
+
+export function ConnectivityProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const { workspace, loading: workspaceLoading } = useWorkspace()
+  const { settings } = useSettings()
+  const canModerate = usePermission('moderate')
+  const needsApproval = settings.require_command_approval && !canModerate
+  const [online, setOnline] = useState(isOnline())
+  const [pendingEdits, setPendingEdits] = useState<OfflineEdit[]>([])
+  const [syncing, setSyncing] = useState(false)
+
+  useEffect(() => subscribeToConnectivity(setOnline), [])
+
+  useEffect(() => {
+    readQueue().then(setPendingEdits).catch(error => console.error('Error reading offline edits:', error))
+  }, [])
+
+  // Any request that gets through marks the connection as back. Query
+  // builders only run once awaited or `then`-ed.
+  useEffect(() => {
+    if (online) return
+
+    const interval = setInterval(() => {
+      supabase.from('categories').select('id', { count: 'exact', head: true }).then(() => undefined)
+    }, RETRY_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [online])
+
+  useEffect(() => {
+    if (online && user) syncEdits(user.id)
+  }, [online, user?.id])
+
+  // Audit entries that failed while the connection was down go out now
+  useEffect(() => {
+    if (online && user) retryPendingAuditEvents(user.id).catch(error => console.error('Error retrying audit events:', error))
+  }, [online, user?.id])
+
+  useEffect(() => {
+    if (!online || workspaceLoading) return
+
+    refreshLibraryMirror(workspace).catch(error => console.error('Error mirroring library:', error))
+  }, [online, workspace?.id, workspaceLoading])
+
+  const syncEdits = async (userId: string) => {
+    setSyncing(true)
+    try {
+      setPendingEdits(await syncOfflineEdits(userId, needsApproval))
+    } catch (error) {
+      console.error('Error syncing offline edits:', error)
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  const saveOffline = async (base: Command, updates: Partial<Command>) => {
+    const edited = await queueOfflineEdit(base, updates)
+    await updateMirroredCommand(workspace, edited)
+    setPendingEdits(await readQueue())
+    return edited
+  }
+
+  const resolveConflict = async (edit: OfflineEdit, keep: 'mine' | 'theirs') => {
+    if (!user) return
+
+    await resolveOfflineConflict(edit, keep, user.id, needsApproval)
+    setPendingEdits(await readQueue())
+  }
+
+  const value = {
+    online,
+    pendingEdits,
+    syncing,
+    saveOffline,
+    resolveConflict,
+  }
+
+  return (
+    <ConnectivityContext.Provider value={value}>
+      {children}
+    </ConnectivityContext.Provider>
+  )
+}
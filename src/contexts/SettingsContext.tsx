@@ -0,0 +1,60 @@
+import React, { createContext, useContext, useEffect, useState } from 'react'
+import { AppSettings, SettingKey, DEFAULT_SETTINGS, fetchSettings, saveSetting } from '../lib/settings'
+import { useAuth } from './AuthContext'
+
+interface SettingsContextType {
+  settings: AppSettings
+  loading: boolean
+  updateSetting: <K extends SettingKey>(key: K, value: AppSettings[K]) => Promise<void>
+  refreshSettings: () => Promise<void>
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined)
+
+export function useSettings() {
+  const context = useContext(SettingsContext)
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider')
+  }
+  return context
+}
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    refreshSettings()
+  }, [])
+
+  const refreshSettings = async () => {
+    try {
+      setSettings(await fetchSettings())
+    } catch (error) {
+      console.error('Error fetching settings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateSetting = async <K extends SettingKey>(key: K, value: AppSettings[K]) => {
+    if (!user) throw new Error('You must be signed in to change settings')
+
+    await saveSetting(key, value, user.id)
+    setSettings(prev => ({ ...prev, [key]: value }))
+  }
+
+  const value = {
+    settings,
+    loading,
+    updateSetting,
+    refreshSettings,
+  }
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  )
+}
@@ -0,0 +1,103 @@
+import React, { createContext, useContext, useEffect, useState } from 'react'
+import { UserRole, Workspace } from '../lib/supabase'
+import { Memberships, fetchWorkspaces, fetchMemberships } from '../lib/workspaces'
+import { Permission, hasPermission, workspaceRole } from '../lib/permissions'
+import { readCached, writeCached } from '../lib/offlineStore'
+import { useAuth } from './AuthContext'
+
+interface WorkspaceContextType {
+  workspaces: Workspace[]
+  workspace: Workspace | null
+  role: UserRole | null
+  roleIn: (workspace: Workspace) => UserRole | null
+  loading: boolean
+  switchWorkspace: (workspaceId: string) => Promise<void>
+  refreshWorkspaces: () => Promise<void>
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined)
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext)
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider')
+  }
+  return context
+}
+
+// Permissions follow the role in the active workspace.
+export function usePermission(permission: Permission) {
+  const { role } = useWorkspace()
+  return hasPermission(role, permission)
+}
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const { user, profile, role: accountRole, loading: authLoading, updateProfile } = useAuth()
+  const [allWorkspaces, setAllWorkspaces] = useState<Workspace[]>([])
+  const [memberships, setMemberships] = useState<Memberships>({})
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!authLoading) refreshWorkspaces()
+  }, [user?.id, authLoading])
+
+  const refreshWorkspaces = async () => {
+    const cacheKey = `workspaces:${user?.id ?? 'visitor'}`
+
+    try {
+      const [list, mine] = await Promise.all([
+        fetchWorkspaces(),
+        user ? fetchMemberships(user.id) : Promise.resolve({}),
+      ])
+      setAllWorkspaces(list)
+      setMemberships(mine)
+      writeCached(cacheKey, { list, mine }).catch(() => undefined)
+    } catch (error) {
+      console.error('Error fetching workspaces:', error)
+      // Offline, fall back to the last list seen so the library mirror of the
+      // right workspace is shown
+      const cached = await readCached<{ list: Workspace[]; mine: Memberships }>(cacheKey).catch(() => undefined)
+      if (cached) {
+        setAllWorkspaces(cached.list)
+        setMemberships(cached.mine)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const roleIn = (workspace: Workspace) => workspaceRole(accountRole, workspace, memberships)
+
+  // Visitors only ever see the default workspace
+  const workspaces = allWorkspaces.filter(workspace => workspace.is_default || roleIn(workspace) !== null)
+  const preferredId = activeId ?? profile?.active_workspace_id
+  const workspace = workspaces.find(w => w.id === preferredId) ?? workspaces[0] ?? null
+
+  const switchWorkspace = async (workspaceId: string) => {
+    setActiveId(workspaceId)
+    if (!user) return
+
+    try {
+      await updateProfile({ active_workspace_id: workspaceId })
+    } catch (error) {
+      console.error('Error saving active workspace:', error)
+    }
+  }
+
+  const value = {
+    workspaces,
+    workspace,
+    role: workspaceRole(accountRole, workspace, memberships),
+    roleIn,
+    loading: authLoading || loading,
+    switchWorkspace,
+    refreshWorkspaces,
+  }
+
+  return (
+    <WorkspaceContext.Provider value={value}>
+      {children}
+    </WorkspaceContext.Provider>
+  )
+}
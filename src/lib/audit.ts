@@ -0,0 +1,203 @@
+import { supabase, AuditLogEntry, Database, Json } from './supabase'
+import { readCached, writeCached } from './offlineStore'
+
+export type AuditAction =
+  | 'user.grant_admin'
+  | 'user.revoke_admin'
+  | 'user.change_role'
+  | 'command.delete'
+  | 'command.activate'
+  | 'command.deactivate'
+  | 'command.approve'
+  | 'command.reject'
+  | 'command.request_changes'
+  | 'command.move'
+  | 'command.copy'
+  | 'database.reset'
+  | 'library.import'
+  | 'settings.update'
+  | 'tag.rename'
+  | 'tag.merge'
+  | 'tag.delete'
+  | 'category.create'
+  | 'category.update'
+  | 'category.merge'
+  | 'category.delete'
+  | 'workspace.create'
+  | 'workspace.add_member'
+  | 'workspace.change_member_role'
+  | 'workspace.remove_member'
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'user.grant_admin': 'Granted admin',
+  'user.revoke_admin': 'Revoked admin',
+  'user.change_role': 'Changed role',
+  'command.delete': 'Deleted command',
+  'command.activate': 'Activated command',
+  'command.deactivate': 'Deactivated command',
+  'command.approve': 'Approved command',
+  'command.reject': 'Rejected command',
+  'command.request_changes': 'Requested changes',
+  'command.move': 'Moved commands',
+  'command.copy': 'Copied commands',
+  'database.reset': 'Reset database',
+  'library.import': 'Imported commands',
+  'settings.update': 'Changed setting',
+  'tag.rename': 'Renamed tag',
+  'tag.merge': 'Merged tags',
+  'tag.delete': 'Deleted tag',
+  'category.create': 'Created category',
+  'category.update': 'Updated category',
+  'category.merge': 'Merged category',
+  'category.delete': 'Deleted category',
+  'workspace.create': 'Created workspace',
+  'workspace.add_member': 'Added workspace member',
+  'workspace.change_member_role': 'Changed member role',
+  'workspace.remove_member': 'Removed workspace member',
+}
+
+export interface AuditEvent {
+  actor: { id: string; email?: string }
+  action: AuditAction
+  targetType: 'user' | 'command' | 'database' | 'setting' | 'tag' | 'category' | 'workspace'
+  targetId?: string | null
+  before?: Json | null
+  after?: Json | null
+}
+
+export interface AuditLogFilters {
+  // Part of the actor's email, which entries keep after an account is deleted
+  actorEmail?: string
+  action?: AuditAction
+  from?: string
+  to?: string
+}
+
+type AuditInsert = Database['public']['Tables']['audit_logs']['Insert']
+
+// Entries whose insert failed, kept in IndexedDB and sent again later. The
+// action they describe has already happened by then, so a failed entry must
+// not turn it into an error for the user.
+const PENDING_KEY = 'audit:pending'
+
+const pendingListeners = new Set<(count: number) => void>()
+
+// Reads and writes of the pending list run one at a time
+let pendingChain: Promise<unknown> = Promise.resolve()
+
+function withPending<T>(action: (pending: AuditInsert[]) => Promise<{ pending: AuditInsert[]; result: T }>): Promise<T> {
+  const next = pendingChain.then(async () => {
+    const { pending, result } = await action((await readCached<AuditInsert[]>(PENDING_KEY)) ?? [])
+    await writeCached(PENDING_KEY, pending)
+    pendingListeners.forEach(listener => listener(pending.length))
+    return result
+  })
+  pendingChain = next.catch(() => undefined)
+  return next
+}
+
+async function insertEntry(entry: AuditInsert) {
+  const { error } = await supabase
+    .from('audit_logs')
+    .insert(entry)
+
+  if (error) throw error
+}
+
+// Errors the server gives an entry however often it is sent: refused by a
+// policy or constraint (Postgres classes 42 and 23), a bad value (22), or a
+// request PostgREST can't handle. Anything else, such as being offline, may
+// go away.
+function isPermanentError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code
+  return typeof code === 'string' && /^(22|23|42|PGRST)/.test(code)
+}
+
+export function subscribeToPendingAuditEvents(listener: (count: number) => void): () => void {
+  pendingListeners.add(listener)
+  readCached<AuditInsert[]>(PENDING_KEY)
+    .then(pending => listener(pending?.length ?? 0))
+    .catch(() => undefined)
+  return () => {
+    pendingListeners.delete(listener)
+  }
+}
+
+// Sends the entries of `actorId` that failed before, one at a time. Entries
+// of other accounts that used this browser wait until they sign in again,
+// since the server only takes entries in the signed-in user's name. Entries
+// the server refuses for good are dropped so they can't hold up the rest.
+// Resolves to how many entries are still left.
+export async function retryPendingAuditEvents(actorId: string): Promise<number> {
+  return withPending(async pending => {
+    const left: AuditInsert[] = []
+    let reachable = true
+
+    for (const entry of pending) {
+      if (!reachable || entry.actor_id !== actorId) {
+        left.push(entry)
+        continue
+      }
+
+      try {
+        await insertEntry(entry)
+      } catch (error) {
+        if (isPermanentError(error)) {
+          console.error('Dropping audit event the server refused:', entry, error)
+        } else {
+          console.error('Error recording pending audit event:', error)
+          reachable = false
+          left.push(entry)
+        }
+      }
+    }
+
+    return { pending: left, result: left.length }
+  })
+}
+
+// Never throws: an entry that can't be written is queued for
+// `retryPendingAuditEvents` and reported by `subscribeToPendingAuditEvents`.
+// Resolves to whether the entry was written straight away.
+export async function logAuditEvent({ actor, action, targetType, targetId = null, before = null, after = null }: AuditEvent): Promise<boolean> {
+  const entry: AuditInsert = {
+    actor_id: actor.id,
+    actor_email: actor.email ?? '',
+    action,
+    target_type: targetType,
+    target_id: targetId,
+    before,
+    after,
+    // The server sets `created_at`; this keeps when the action happened for
+    // entries that are only sent later
+    occurred_at: new Date().toISOString(),
+  }
+
+  try {
+    await insertEntry(entry)
+    retryPendingAuditEvents(actor.id).catch(() => undefined)
+    return true
+  } catch (error) {
+    console.error('Error recording audit event:', error)
+    await withPending(async pending => ({ pending: [...pending, entry], result: undefined }))
+      .catch(queueError => console.error('Error queueing audit event:', queueError))
+    return false
+  }
+}
+
+export async function fetchAuditLogs(filters: AuditLogFilters = {}, limit = 500): Promise<AuditLogEntry[]> {
+  let query = supabase
+    .from('audit_logs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (filters.actorEmail) query = query.ilike('actor_email', `%${filters.actorEmail.replace(/[\\%_]/g, '\\$&')}%`)
+  if (filters.action) query = query.eq('action', filters.action)
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString())
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
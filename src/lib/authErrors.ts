@@ -0,0 +1,64 @@
+import { isAuthError, isAuthRetryableFetchError } from '@supabase/supabase-js'
+
+// What to tell the user when signing in, signing up or a recovery link goes
+// wrong. Supabase's own messages are written for developers ("Email rate limit
+// exceeded"), so the known error codes get a sentence that says what to do.
+
+const MESSAGES: Record<string, string> = {
+  invalid_credentials: 'That email and password do not match. Check them, or reset your password.',
+  email_not_confirmed: 'Confirm your email address before signing in. We can send the link again.',
+  user_already_exists: 'There is already an account with this email. Sign in instead.',
+  email_exists: 'There is already an account with this email. Sign in instead.',
+  weak_password: 'Choose a stronger password: at least 6 characters, mixing letters and numbers.',
+  same_password: 'The new password must be different from the current one.',
+  identity_already_exists: 'That account is already connected to another user.',
+  manual_linking_disabled: 'Connecting accounts is turned off for this project. Ask an administrator.',
+  provider_disabled: 'This sign-in provider is not enabled. Ask an administrator.',
+  email_address_invalid: 'That does not look like a valid email address.',
+  otp_expired: 'This link has expired or was already used. Request a new one.',
+  flow_state_expired: 'This link has expired or was already used. Request a new one.',
+  bad_jwt: 'Your session has expired. Sign in again.',
+  session_not_found: 'Your session has expired. Sign in again.',
+  signup_disabled: 'Registration is currently closed. Ask an administrator for an account.',
+  otp_disabled: 'This email has no account yet. Sign up first.',
+  over_email_send_rate_limit: 'Too many emails were sent to this address. Wait a few minutes and try again.',
+  over_request_rate_limit: 'Too many attempts. Wait a few minutes and try again.',
+}
+
+// The local backend and older Supabase servers only send a message
+const MESSAGE_CODES: Record<string, string> = {
+  'Invalid login credentials': 'invalid_credentials',
+  'Email not confirmed': 'email_not_confirmed',
+  'User already registered': 'user_already_exists',
+  'Signups not allowed for otp': 'otp_disabled',
+  'Email link is invalid or has expired': 'otp_expired',
+  'Registration is currently closed': 'signup_disabled',
+}
+
+export function authErrorCode(error: unknown): string | undefined {
+  if (isAuthError(error) && error.code) return error.code
+  return error instanceof Error ? MESSAGE_CODES[error.message] : undefined
+}
+
+export function authErrorMessage(error: unknown): string {
+  if (isAuthRetryableFetchError(error)) {
+    return 'The server could not be reached. Check your connection and try again.'
+  }
+
+  const code = authErrorCode(error)
+  if (code && MESSAGES[code]) return MESSAGES[code]
+  return error instanceof Error && error.message ? error.message : 'An error occurred'
+}
+
+// Auth redirects that fail (an expired reset or confirmation link, say) come
+// back with the error in the URL instead of a session.
+export function authRedirectError(location: Pick<Location, 'hash' | 'search'>): string | null {
+  const params = new URLSearchParams(location.hash.replace(/^#/, ''))
+  new URLSearchParams(location.search).forEach((value, key) => params.set(key, value))
+
+  const code = params.get('error_code')
+  const description = params.get('error_description')
+  if (!code && !description) return null
+
+  return (code && MESSAGES[code]) || description || 'This link is no longer valid. Request a new one.'
+}
@@ -0,0 +1,58 @@
+import { Provider, User } from '@supabase/supabase-js'
+import { backend } from './backend'
+
+// Sign-in providers offered next to the password form. Each one also has to
+// be enabled in the Supabase project, so they are switched on here by listing
+// them in `VITE_AUTH_PROVIDERS`, e.g. `github,google,oidc`.
+//
+// `oidc` is the company's own identity provider. Supabase reaches generic
+// OpenID Connect servers through one of its named providers (Keycloak unless
+// `VITE_OIDC_PROVIDER` says otherwise), and `VITE_OIDC_LABEL` is the name on
+// the button.
+export type AuthProviderId = 'github' | 'google' | 'oidc'
+
+export interface AuthProvider {
+  id: AuthProviderId
+  label: string
+  provider: Provider
+}
+
+const PROVIDERS: Record<AuthProviderId, AuthProvider> = {
+  github: { id: 'github', label: 'GitHub', provider: 'github' },
+  google: { id: 'google', label: 'Google', provider: 'google' },
+  oidc: {
+    id: 'oidc',
+    label: import.meta.env.VITE_OIDC_LABEL || 'Company SSO',
+    provider: (import.meta.env.VITE_OIDC_PROVIDER || 'keycloak') as Provider,
+  },
+}
+
+function isProviderId(id: string): id is AuthProviderId {
+  return id in PROVIDERS
+}
+
+// The local backend has no OAuth, so it offers none
+export const authProviders: AuthProvider[] = backend === 'local'
+  ? []
+  : (import.meta.env.VITE_AUTH_PROVIDERS || '')
+    .split(',')
+    .map((id: string) => id.trim())
+    .filter(isProviderId)
+    .map((id: AuthProviderId) => PROVIDERS[id])
+
+export function providerById(id: AuthProviderId): AuthProvider {
+  return PROVIDERS[id]
+}
+
+// The provider a Supabase identity came from, e.g. `app_metadata.provider`
+export function providerBySupabaseName(name: string | undefined): AuthProvider | undefined {
+  return Object.values(PROVIDERS).find(provider => provider.provider === name)
+}
+
+// The name to start a new profile with. Providers disagree on where they put
+// it; GitHub accounts without a public name only have their login.
+export function identityName(user: User): string {
+  const metadata = user.user_metadata ?? {}
+  return metadata.full_name || metadata.name || metadata.user_name || metadata.preferred_username ||
+    (user.email ?? '').split('@')[0]
+}
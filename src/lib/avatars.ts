@@ -0,0 +1,60 @@
+import { supabase } from './supabase'
+import { backend } from './backend'
+
+// Profile pictures live in the public `avatars` storage bucket, one folder per
+// user. The local backend has no storage, so it keeps a small picture inline
+// in the profile as a data URL instead.
+
+const BUCKET = 'avatars'
+const MAX_BYTES = 2 * 1024 * 1024
+const MAX_LOCAL_BYTES = 256 * 1024
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+// Returns the URL to store in `user_profiles.avatar_url`.
+export async function uploadAvatar(userId: string, file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error('Choose an image file')
+
+  if (backend === 'local') {
+    if (file.size > MAX_LOCAL_BYTES) throw new Error('Choose an image under 256 KB')
+    return readAsDataUrl(file)
+  }
+
+  if (file.size > MAX_BYTES) throw new Error('Choose an image under 2 MB')
+
+  // A new name per upload, so browsers don't keep showing the old picture
+  const extension = file.name.split('.').pop() || 'png'
+  const path = `${userId}/${Date.now()}.${extension}`
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, file, { contentType: file.type })
+
+  if (error) throw error
+  return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl
+}
+
+// Removes the user's pictures from storage, except the one at `keepUrl`.
+// Called after a picture is replaced or removed, and before the account is
+// deleted. Nothing is stored for the local backend.
+export async function removeAvatars(userId: string, keepUrl: string | null = null) {
+  if (backend === 'local') return
+
+  const { data: files, error } = await supabase.storage.from(BUCKET).list(userId)
+  if (error) throw error
+
+  const paths = files
+    .map(file => `${userId}/${file.name}`)
+    .filter(path => supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl !== keepUrl)
+  if (paths.length === 0) return
+
+  const { error: removeError } = await supabase.storage.from(BUCKET).remove(paths)
+  if (removeError) throw removeError
+}
@@ -0,0 +1,6 @@
+// Where commands and profiles are stored. `VITE_BACKEND=local` keeps them in
+// this browser instead of Supabase, so the app runs without a Supabase
+// project, e.g. for development and tests.
+export type Backend = 'supabase' | 'local'
+
+export const backend: Backend = import.meta.env.VITE_BACKEND === 'local' ? 'local' : 'supabase'
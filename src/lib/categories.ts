@@ -0,0 +1,148 @@
+import { supabase, Category } from './supabase'
+import { commandsRepository } from './repositories'
+import { recordRevisions, ensureBaselineRevision } from './revisions'
+
+// Commands store the category slug, so renaming a slug or removing a category
+// has to move the commands that use it.
+
+export type CategoryInput = Pick<Category, 'slug' | 'name' | 'icon' | 'color' | 'description' | 'sort_order'>
+
+// Tailwind only ships classes it can see in the source, so colors are picked
+// from a fixed palette rather than stored as arbitrary class names.
+export const CATEGORY_COLORS: Record<string, string> = {
+  sky: 'bg-primary-600/20 text-primary-400',
+  green: 'bg-green-500/20 text-green-400',
+  yellow: 'bg-yellow-500/20 text-yellow-400',
+  orange: 'bg-orange-500/20 text-orange-400',
+  red: 'bg-red-500/20 text-red-400',
+  purple: 'bg-purple-500/20 text-purple-400',
+  pink: 'bg-pink-500/20 text-pink-400',
+  slate: 'bg-dark-600/50 text-dark-200',
+}
+
+export const CATEGORY_ICONS = [
+  'terminal', 'server', 'network', 'database', 'code', 'shield', 'activity', 'rocket', 'cloud', 'box', 'wrench', 'folder',
+] as const
+
+export type CategoryIconName = typeof CATEGORY_ICONS[number]
+
+// Used until an admin creates categories of their own.
+export const DEFAULT_CATEGORIES: CategoryInput[] = [
+  { slug: 'system', name: 'System', icon: 'server', color: 'sky', description: 'Processes, services and the operating system', sort_order: 0 },
+  { slug: 'network', name: 'Network', icon: 'network', color: 'green', description: 'Connectivity, DNS and traffic', sort_order: 1 },
+  { slug: 'database', name: 'Database', icon: 'database', color: 'yellow', description: 'Queries, backups and maintenance', sort_order: 2 },
+  { slug: 'development', name: 'Development', icon: 'code', color: 'purple', description: 'Building, testing and version control', sort_order: 3 },
+  { slug: 'security', name: 'Security', icon: 'shield', color: 'red', description: 'Keys, certificates and permissions', sort_order: 4 },
+  { slug: 'monitoring', name: 'Monitoring', icon: 'activity', color: 'orange', description: 'Logs, metrics and health checks', sort_order: 5 },
+  { slug: 'deployment', name: 'Deployment', icon: 'rocket', color: 'pink', description: 'Releases, containers and rollouts', sort_order: 6 },
+]
+
+export function slugify(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+export function categoryColorClass(color: string): string {
+  return CATEGORY_COLORS[color] ?? CATEGORY_COLORS.sky
+}
+
+export function findCategory<T extends Pick<Category, 'slug'>>(categories: T[], slug: string): T | undefined {
+  return categories.find(category => category.slug === slug)
+}
+
+export async function fetchCategories(): Promise<Category[]> {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function fetchCategoryUsage(): Promise<Record<string, number>> {
+  return commandsRepository.countByCategory()
+}
+
+export async function createCategory(input: CategoryInput): Promise<Category> {
+  const { data, error } = await supabase
+    .from('categories')
+    .insert({ ...input, slug: slugify(input.slug) })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function seedDefaultCategories(): Promise<Category[]> {
+  const { data, error } = await supabase
+    .from('categories')
+    .upsert(DEFAULT_CATEGORIES, { onConflict: 'slug', ignoreDuplicates: true })
+    .select()
+
+  if (error) throw error
+  return data || []
+}
+
+export async function updateCategory(category: Category, updates: Partial<CategoryInput>, authorId: string): Promise<Category> {
+  const slug = updates.slug !== undefined ? slugify(updates.slug) : category.slug
+
+  const { data, error } = await supabase
+    .from('categories')
+    .update({ ...updates, slug, updated_at: new Date().toISOString() })
+    .eq('id', category.id)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  if (slug !== category.slug) {
+    await reassignCommands(category.slug, slug, authorId)
+  }
+  return data
+}
+
+// Moves every command from one category slug to another, recording the move
+// in each command's history, and returns how many commands were moved.
+export async function reassignCommands(fromSlug: string, toSlug: string, authorId: string): Promise<number> {
+  const commands = await commandsRepository.list({ category: fromSlug })
+  for (const command of commands) await ensureBaselineRevision(command)
+
+  const moved = await commandsRepository.updateWhere({ category: fromSlug }, { category: toSlug, updated_at: new Date().toISOString() })
+  await recordRevisions(moved, ['category'], authorId)
+  return moved.length
+}
+
+// Deleting and merging are the same operation: the commands move to
+// `target` first so none are left pointing at a missing category.
+export async function deleteCategory(category: Category, target: Category, authorId: string): Promise<number> {
+  if (category.id === target.id) throw new Error('A category cannot be merged into itself')
+
+  const moved = await reassignCommands(category.slug, target.slug, authorId)
+
+  const { error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', category.id)
+
+  if (error) throw error
+  return moved
+}
+
+export async function reorderCategories(categories: Category[]) {
+  for (const [index, category] of categories.entries()) {
+    if (category.sort_order === index) continue
+
+    const { error } = await supabase
+      .from('categories')
+      .update({ sort_order: index })
+      .eq('id', category.id)
+
+    if (error) throw error
+  }
+}
@@ -0,0 +1,171 @@
+import { supabase, Collection, CollectionVisibility, Command } from './supabase'
+import { commandsRepository } from './repositories'
+
+// Command ids per collection, in the collection's own order.
+export type CollectionItems = Record<string, string[]>
+
+export async function fetchFavorites(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('favorites')
+    .select('command_id')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map(row => row.command_id)
+}
+
+export async function setFavorite(userId: string, commandId: string, starred: boolean) {
+  const { error } = starred
+    ? await supabase
+        .from('favorites')
+        .upsert({ user_id: userId, command_id: commandId }, { onConflict: 'user_id,command_id', ignoreDuplicates: true })
+    : await supabase
+        .from('favorites')
+        .delete()
+        .eq('user_id', userId)
+        .eq('command_id', commandId)
+
+  if (error) throw error
+}
+
+export async function fetchCollections(userId: string): Promise<Collection[]> {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('*')
+    .eq('owner_id', userId)
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function fetchCollectionItems(collectionIds: string[]): Promise<CollectionItems> {
+  const items: CollectionItems = Object.fromEntries(collectionIds.map(id => [id, []]))
+  if (collectionIds.length === 0) return items
+
+  const { data, error } = await supabase
+    .from('collection_items')
+    .select('collection_id, command_id, position')
+    .in('collection_id', collectionIds)
+    .order('position', { ascending: true })
+
+  if (error) throw error
+
+  for (const row of data || []) items[row.collection_id]?.push(row.command_id)
+  return items
+}
+
+export async function createCollection(userId: string, name: string): Promise<Collection> {
+  const { data, error } = await supabase
+    .from('collections')
+    .insert({ owner_id: userId, name: name.trim() })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function renameCollection(collectionId: string, name: string): Promise<Collection> {
+  const { data, error } = await supabase
+    .from('collections')
+    .update({ name: name.trim(), updated_at: new Date().toISOString() })
+    .eq('id', collectionId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Sharing hands out an unguessable token; making the collection private again
+// drops it, so old links stop working.
+export async function setCollectionVisibility(collectionId: string, visibility: CollectionVisibility): Promise<Collection> {
+  const { data, error } = await supabase
+    .from('collections')
+    .update({
+      visibility,
+      share_token: visibility === 'shared' ? crypto.randomUUID() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', collectionId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function deleteCollection(collectionId: string) {
+  const { error: itemsError } = await supabase
+    .from('collection_items')
+    .delete()
+    .eq('collection_id', collectionId)
+
+  if (itemsError) throw itemsError
+
+  const { error } = await supabase
+    .from('collections')
+    .delete()
+    .eq('id', collectionId)
+
+  if (error) throw error
+}
+
+export async function addToCollection(collectionId: string, commandId: string, position: number) {
+  const { error } = await supabase
+    .from('collection_items')
+    .upsert({ collection_id: collectionId, command_id: commandId, position }, { onConflict: 'collection_id,command_id' })
+
+  if (error) throw error
+}
+
+export async function removeFromCollection(collectionId: string, commandId: string) {
+  const { error } = await supabase
+    .from('collection_items')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('command_id', commandId)
+
+  if (error) throw error
+}
+
+export async function reorderCollection(collectionId: string, commandIds: string[]) {
+  const { error } = await supabase
+    .from('collection_items')
+    .upsert(
+      commandIds.map((command_id, position) => ({ collection_id: collectionId, command_id, position })),
+      { onConflict: 'collection_id,command_id' }
+    )
+
+  if (error) throw error
+}
+
+export function collectionShareUrl(collection: Collection): string | null {
+  return collection.share_token ? `${window.location.origin}/collections/${collection.share_token}` : null
+}
+
+// Shared collections are looked up by their token only, so nobody can list
+// them; the functions return nothing for a private or unknown token.
+export async function fetchSharedCollection(token: string): Promise<{ collection: Collection; commands: Command[] } | null> {
+  const { data: collections, error } = await supabase.rpc('shared_collection', { token })
+
+  if (error) throw error
+  const collection = collections?.[0]
+  if (!collection) return null
+
+  const { data: items, error: itemsError } = await supabase.rpc('shared_collection_items', { token })
+
+  if (itemsError) throw itemsError
+  const order = (items || []).map(item => item.command_id)
+  if (order.length === 0) return { collection, commands: [] }
+
+  const commands = await commandsRepository.list({ ids: order, isActive: true, status: 'approved' })
+
+  const byId = new Map(commands.map(command => [command.id, command]))
+  return {
+    collection,
+    commands: order.map(id => byId.get(id)).filter((command): command is Command => !!command),
+  }
+}
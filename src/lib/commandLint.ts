@@ -0,0 +1,215 @@
+// Rule-based checks for commands that destroy data, escalate privileges or
+// execute code fetched from the network. Patterns are stored as regex source
+// strings so admins can add rules from the settings page without a deploy.
+
+export type LintSeverity = 'low' | 'medium' | 'high'
+
+export type LintCategory = 'destructive' | 'privilege' | 'remote_execution'
+
+export interface LintRule {
+  id: string
+  label: string
+  description: string
+  category: LintCategory
+  severity: LintSeverity
+  pattern: string
+}
+
+export interface LintFinding {
+  rule: LintRule
+  match: string
+}
+
+// Admin overrides, stored in `app_settings` under `lint_rules`.
+export interface LintConfig {
+  disabled: string[]
+  severities: Record<string, LintSeverity>
+  custom: LintRule[]
+}
+
+export const DEFAULT_LINT_CONFIG: LintConfig = {
+  disabled: [],
+  severities: {},
+  custom: [],
+}
+
+export const LINT_SEVERITIES: LintSeverity[] = ['high', 'medium', 'low']
+
+export const LINT_SEVERITY_LABELS: Record<LintSeverity, string> = {
+  high: 'Dangerous',
+  medium: 'Risky',
+  low: 'Caution',
+}
+
+export const LINT_SEVERITY_STYLES: Record<LintSeverity, string> = {
+  high: 'bg-red-500/20 text-red-400',
+  medium: 'bg-orange-500/20 text-orange-400',
+  low: 'bg-yellow-500/20 text-yellow-400',
+}
+
+export const LINT_CATEGORY_LABELS: Record<LintCategory, string> = {
+  destructive: 'Destructive',
+  privilege: 'Privilege escalation',
+  remote_execution: 'Remote execution',
+}
+
+export const BUILT_IN_LINT_RULES: LintRule[] = [
+  {
+    id: 'rm-root',
+    label: 'Recursive delete of / or ~',
+    description: 'Recursively removes the filesystem root or the home directory.',
+    category: 'destructive',
+    severity: 'high',
+    pattern: String.raw`\brm\s+(?:-\S+\s+)*-\S*[rR]\S*\s+(?:-\S+\s+)*(?:\/\*?|~\/?|\$HOME\/?)(?:\s|;|$)`,
+  },
+  {
+    id: 'rm-recursive-force',
+    label: 'Forced recursive delete',
+    description: 'rm -rf deletes without asking and cannot be undone.',
+    category: 'destructive',
+    severity: 'medium',
+    pattern: String.raw`\brm\s+(?:-\S+\s+)*-(?:\S*r\S*f|\S*f\S*r)\S*`,
+  },
+  {
+    id: 'disk-format',
+    label: 'Formats or overwrites a disk',
+    description: 'mkfs, dd or a redirect onto a block device wipes its contents.',
+    category: 'destructive',
+    severity: 'high',
+    pattern: String.raw`\bmkfs(?:\.\w+)?\b|\bdd\b[^|;]*\bof=\/dev\/(?:sd|hd|vd|xvd|nvme|mmcblk|disk)|>\s*\/dev\/(?:sd|hd|vd|xvd|nvme|mmcblk|disk)`,
+  },
+  {
+    id: 'fork-bomb',
+    label: 'Fork bomb',
+    description: 'Spawns processes until the machine stops responding.',
+    category: 'destructive',
+    severity: 'high',
+    pattern: String.raw`:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:`,
+  },
+  {
+    id: 'sql-drop',
+    label: 'Drops or truncates data',
+    description: 'DROP and TRUNCATE statements remove tables or databases outright.',
+    category: 'destructive',
+    severity: 'high',
+    pattern: String.raw`\b(?:drop\s+(?:database|schema|table)|truncate\s+table)\b`,
+  },
+  {
+    id: 'git-force',
+    label: 'Rewrites git history',
+    description: 'Force pushes and hard resets can discard other people\'s work.',
+    category: 'destructive',
+    severity: 'medium',
+    pattern: String.raw`\bgit\s+push\b[^;|&]*(?:\s-f\b|--force\b)|\bgit\s+reset\s+--hard\b|\bgit\s+clean\s+-\S*f`,
+  },
+  {
+    id: 'cluster-delete',
+    label: 'Deletes cluster or container resources',
+    description: 'kubectl delete and docker prune remove resources without a confirmation.',
+    category: 'destructive',
+    severity: 'medium',
+    pattern: String.raw`\bkubectl\s+delete\b|\bdocker\s+(?:system|volume|image)\s+prune\b`,
+  },
+  {
+    id: 'power',
+    label: 'Shuts down or reboots',
+    description: 'Takes the machine offline.',
+    category: 'destructive',
+    severity: 'medium',
+    pattern: String.raw`(?:^|[;&|]\s*|\bsudo\s+)(?:shutdown|reboot|halt|poweroff)\b`,
+  },
+  {
+    id: 'world-writable',
+    label: 'Makes files world-writable',
+    description: 'chmod 777 lets any user modify the files.',
+    category: 'privilege',
+    severity: 'medium',
+    pattern: String.raw`\bchmod\s+(?:-\S+\s+)*0?777\b`,
+  },
+  {
+    id: 'setuid',
+    label: 'Sets setuid or setgid',
+    description: 'Programs with setuid run with their owner\'s privileges.',
+    category: 'privilege',
+    severity: 'medium',
+    pattern: String.raw`\bchmod\s+(?:-\S+\s+)*(?:[ugoa]*\+[rwx]*s|[2467][0-7]{3})\b`,
+  },
+  {
+    id: 'root-shell',
+    label: 'Opens a root shell',
+    description: 'sudo su, sudo -i and su - switch to an interactive root session.',
+    category: 'privilege',
+    severity: 'medium',
+    pattern: String.raw`\bsudo\s+(?:su\b|-i\b|-s\b|bash\b|sh\b)|(?:^|[;&|]\s*)su\s+(?:-|root)(?:\s|$)`,
+  },
+  {
+    id: 'sudo',
+    label: 'Runs as root',
+    description: 'The command uses sudo or doas.',
+    category: 'privilege',
+    severity: 'low',
+    pattern: String.raw`(?:^|[;&|(]\s*|\s)(?:sudo|doas)\s`,
+  },
+  {
+    id: 'pipe-to-shell',
+    label: 'Pipes a download into a shell',
+    description: 'Runs whatever the server returns, with no chance to inspect it.',
+    category: 'remote_execution',
+    severity: 'high',
+    pattern: String.raw`\b(?:curl|wget|fetch)\b[^|;]*\|\s*(?:sudo\s+(?:-\S+\s+)*)?(?:ba|z|k|da|fi)?sh\b|\b(?:ba|z)?sh\s+<\(\s*(?:curl|wget)\b|\beval\s+"?\$\(\s*(?:curl|wget)\b`,
+  },
+  {
+    id: 'pipe-to-interpreter',
+    label: 'Pipes a download into an interpreter',
+    description: 'Executes downloaded code with Python, Perl, Ruby or Node.',
+    category: 'remote_execution',
+    severity: 'high',
+    pattern: String.raw`\b(?:curl|wget)\b[^|;]*\|\s*(?:sudo\s+)?(?:python[0-9.]*|perl|ruby|node|php)\b`,
+  },
+]
+
+export function isValidPattern(pattern: string): boolean {
+  if (!pattern.trim()) return false
+  try {
+    new RegExp(pattern, 'i')
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Applies admin overrides to the built-in rules and appends custom ones.
+// Stored config may predate a field, so every part of it is optional here.
+export function resolveLintRules(config: Partial<LintConfig> = DEFAULT_LINT_CONFIG): LintRule[] {
+  const disabled = config.disabled ?? []
+  const severities = config.severities ?? {}
+
+  return [...BUILT_IN_LINT_RULES, ...(config.custom ?? [])]
+    .filter(rule => !disabled.includes(rule.id) && isValidPattern(rule.pattern))
+    .map(rule => severities[rule.id] ? { ...rule, severity: severities[rule.id] } : rule)
+}
+
+export function lintCommand(command: string, rules: LintRule[]): LintFinding[] {
+  const findings: LintFinding[] = []
+
+  for (const rule of rules) {
+    const match = new RegExp(rule.pattern, 'im').exec(command)
+    if (match) findings.push({ rule, match: match[0].trim() })
+  }
+
+  return findings.sort((a, b) => LINT_SEVERITIES.indexOf(a.rule.severity) - LINT_SEVERITIES.indexOf(b.rule.severity))
+}
+
+export function highestSeverity(findings: LintFinding[]): LintSeverity | null {
+  return findings[0]?.rule.severity ?? null
+}
+
+// Asks before a high-severity command reaches the clipboard.
+export function confirmDangerousCopy(command: string, rules: LintRule[]): boolean {
+  const dangerous = lintCommand(command, rules).filter(finding => finding.rule.severity === 'high')
+  if (dangerous.length === 0) return true
+
+  return confirm(
+    `This command was flagged as dangerous:\n\n${dangerous.map(f => `• ${f.rule.label}`).join('\n')}\n\nCopy it anyway?`
+  )
+}
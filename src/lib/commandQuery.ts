@@ -0,0 +1,111 @@
+import { Command, Workspace } from './supabase'
+import { ParsedQuery, isEmptyQuery, searchCommands } from './search'
+import { TagMode, matchesTags } from './tags'
+import { belongsToWorkspace } from './workspaces'
+
+// The shape of a library query, shared by every backend. Supabase filters,
+// ranks, sorts, counts and pages in the database through the search_commands
+// function; backends that hold the rows in memory use `searchCommandList`
+// below. Both read the search syntax from `search.ts` and tolerate typos:
+// the database by trigram similarity, `searchCommandList` by edit distance,
+// so the two rankings are close rather than identical.
+
+// 'relevance' ranks by how well rows match the search
+export type CommandOrder = 'relevance' | 'newest' | 'updated' | 'name' | 'copies'
+
+// Limits a query to a user's favorites or to a collection. The database joins
+// the favorites and collection tables; `ids` holds the members as the page
+// has them, for backends that filter in memory.
+export interface CommandList {
+  kind: 'favorites' | 'collection'
+  // The user for favorites, the collection otherwise
+  id: string
+  ids: string[]
+}
+
+export interface CommandFilters {
+  workspace: Pick<Workspace, 'id' | 'is_default'> | null
+  // The library only lists approved, active commands; admin views see all
+  libraryOnly: boolean
+  search?: ParsedQuery
+  category?: string
+  tags?: string[]
+  tagMode?: TagMode
+  list?: CommandList | null
+  userId?: string
+  order: CommandOrder
+}
+
+// Keyset cursor: the sort value (the rank for 'relevance') and id of the last
+// row of the previous page. Unlike offsets it stays correct when rows are
+// added or removed while scrolling, including that last row itself.
+export interface CommandCursor {
+  value: string | number
+  id: string
+}
+
+export interface CommandPage {
+  commands: Command[]
+  nextCursor: CommandCursor | null
+}
+
+export const ORDER_COLUMNS: Record<Exclude<CommandOrder, 'relevance'>, { column: 'created_at' | 'updated_at' | 'name' | 'copy_count'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  updated: { column: 'updated_at', ascending: false },
+  name: { column: 'name', ascending: true },
+  copies: { column: 'copy_count', ascending: false },
+}
+
+export interface CommandListContext {
+  commandTags: Record<string, string[]>
+  authorNames?: Record<string, string>
+}
+
+function compare(a: string | number, b: string | number): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+// Runs a library query over rows held in memory, paged the way the database
+// pages: from the first row that sorts after the cursor.
+export function searchCommandList(
+  rows: Command[],
+  filters: CommandFilters,
+  context: CommandListContext,
+  cursor: CommandCursor | null,
+  limit: number
+): CommandPage & { total: number } {
+  const { category, list, tags = [], tagMode = 'and', search } = filters
+  let matched = rows.filter(command =>
+    belongsToWorkspace(command, filters.workspace) &&
+    (!filters.libraryOnly || (command.is_active && command.status === 'approved')) &&
+    (!category || category === 'all' || command.category === category) &&
+    (!list || list.ids.includes(command.id)) &&
+    matchesTags(context.commandTags[command.id] ?? [], tags, tagMode)
+  )
+
+  const scores = new Map<string, number>()
+  if (search && !isEmptyQuery(search)) {
+    const results = searchCommands(matched, search, { userId: filters.userId, tags: context.commandTags, authorNames: context.authorNames })
+    for (const result of results) scores.set(result.command.id, result.score)
+    matched = matched.filter(command => scores.has(command.id))
+  }
+
+  // Ties go by id, in the same direction as the sort value, like the database
+  const sortValue = (command: Command) =>
+    filters.order === 'relevance' ? scores.get(command.id) ?? 0 : command[ORDER_COLUMNS[filters.order].column]
+  const direction = filters.order === 'relevance' || !ORDER_COLUMNS[filters.order].ascending ? -1 : 1
+  matched.sort((a, b) => (compare(sortValue(a), sortValue(b)) || compare(a.id, b.id)) * direction)
+
+  const after = (command: Command) =>
+    !cursor || (compare(sortValue(command), cursor.value) || compare(command.id, cursor.id)) * direction > 0
+  const found = matched.findIndex(after)
+  const start = found === -1 ? matched.length : found
+  const commands = matched.slice(start, start + limit)
+  const last = commands[commands.length - 1]
+
+  return {
+    commands,
+    nextCursor: start + limit < matched.length && last ? { value: sortValue(last), id: last.id } : null,
+    total: matched.length,
+  }
+}
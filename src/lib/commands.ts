@@ -0,0 +1,95 @@
+import { Command } from './supabase'
+import { REVISION_FIELDS, changedFields, recordRevision, ensureBaselineRevision, proposeRevision } from './revisions'
+import { CommandFilters, CommandCursor, CommandPage } from './commandQuery'
+import { commandsRepository } from './repositories'
+
+export function commandUrl(commandId: string): string {
+  return `${window.location.origin}/commands/${commandId}`
+}
+
+// For exports and imports, which need every matching row. Pages are fetched
+// one after another to keep each request small.
+export async function fetchAllCommands(filters: CommandFilters, batchSize = 500): Promise<Command[]> {
+  const commands: Command[] = []
+  let cursor: CommandCursor | null = null
+
+  do {
+    const page: CommandPage = await commandsRepository.search(filters, cursor, batchSize)
+    commands.push(...page.commands)
+    cursor = page.nextCursor
+  } while (cursor)
+
+  return commands
+}
+
+export const EDITABLE_FIELDS = ['name', 'description', 'command', 'category', 'is_active', 'variants'] as const
+
+// The fields a user actually changed in a form opened on `base`. Saving only
+// those means edits someone else made in the meantime to other fields survive.
+export function localEdits(base: Command, edited: Partial<Command>): Partial<Command> {
+  const edits: Partial<Command> = {}
+  for (const field of EDITABLE_FIELDS) {
+    if (edited[field] !== undefined && JSON.stringify(edited[field]) !== JSON.stringify(base[field])) {
+      Object.assign(edits, { [field]: edited[field] })
+    }
+  }
+  return edits
+}
+
+export interface UpdateOptions {
+  // The revision the edit restores, if it is a restore
+  restoredFrom?: string | null
+  // Set when approval is required and the editor is not a moderator
+  needsApproval?: boolean
+}
+
+// Where approval is required, what an approved command says only changes
+// through review. Such an edit is proposed rather than saved.
+export function isProposedEdit(previous: Command | undefined, updates: Partial<Command>, needsApproval: boolean): boolean {
+  return needsApproval && previous?.status === 'approved' && changedFields(previous, updates).length > 0
+}
+
+// Saves an edit and records a revision for the fields that changed. `previous`
+// is the command as the caller last saw it. An edit that needs review is
+// recorded as a pending revision instead, and the approved version stays
+// published until a moderator applies it; the command comes back with only
+// the other changes, such as `is_active`, saved.
+export async function updateCommand(
+  previous: Command | undefined,
+  commandId: string,
+  updates: Partial<Command>,
+  authorId: string,
+  { restoredFrom = null, needsApproval = false }: UpdateOptions = {}
+): Promise<Command> {
+  const fields = previous ? changedFields(previous, updates) : []
+
+  if (previous && isProposedEdit(previous, updates, needsApproval)) {
+    await proposeRevision(previous, updates, fields, authorId)
+
+    const rest = Object.fromEntries(
+      Object.entries(updates).filter(([field]) => !(REVISION_FIELDS as readonly string[]).includes(field))
+    )
+    if (Object.keys(rest).length === 0) return previous
+    return commandsRepository.update(commandId, { ...rest, updated_at: new Date().toISOString() })
+  }
+
+  // Editing a submission that was sent back puts it in the review queue again
+  if (previous && previous.status !== 'approved' && previous.status !== 'pending') {
+    updates = { ...updates, status: 'pending' }
+  }
+
+  if (previous && fields.length > 0) {
+    await ensureBaselineRevision(previous)
+  }
+
+  const data = await commandsRepository.update(commandId, { ...updates, updated_at: new Date().toISOString() })
+  if (fields.length > 0) {
+    await recordRevision(data, fields, authorId, restoredFrom)
+  }
+  return data
+}
+
+// Commands are never removed outright, so their history and links survive.
+export async function deactivateCommand(commandId: string) {
+  await commandsRepository.update(commandId, { is_active: false })
+}
@@ -0,0 +1,73 @@
+import { backend } from './backend'
+
+// Whether Supabase can be reached. The browser's online flag misses the
+// common case of a VPN or firewall that lets nothing through, so every
+// request the Supabase client makes reports back here as well.
+
+type Listener = (online: boolean) => void
+
+// Reads that hang are aborted, so a dead connection ends in an error the
+// pages can fall back from instead of a spinner that never stops. Writes,
+// uploads and sign-ins may rightly take longer and are left to finish.
+const REQUEST_TIMEOUT_MS = 15000
+
+// Library search goes through functions that only read, but they are called
+// with POST, since their arguments don't fit in a URL
+const READ_FUNCTIONS = ['/rpc/search_commands', '/rpc/count_commands']
+
+let reachable = true
+const listeners = new Set<Listener>()
+
+// The local backend never needs the network
+export function isOnline(): boolean {
+  return backend === 'local' || (navigator.onLine && reachable)
+}
+
+export function subscribeToConnectivity(listener: Listener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function notify() {
+  const online = isOnline()
+  listeners.forEach(listener => listener(online))
+}
+
+function setReachable(value: boolean) {
+  if (reachable === value) return
+  reachable = value
+  notify()
+}
+
+window.addEventListener('online', notify)
+window.addEventListener('offline', notify)
+
+function isRead(input: RequestInfo | URL, init?: RequestInit): boolean {
+  const request = input instanceof Request ? input : null
+  const method = (init?.method ?? request?.method ?? 'GET').toUpperCase()
+  const { pathname } = new URL(request?.url ?? String(input))
+
+  if (!pathname.includes('/rest/v1/')) return false
+  return method === 'GET' || method === 'HEAD' || (method === 'POST' && READ_FUNCTIONS.some(path => pathname.endsWith(path)))
+}
+
+// Passed to the Supabase client as its `fetch`.
+export const connectivityFetch: typeof fetch = async (input, init) => {
+  const controller = new AbortController()
+  const timeout = isRead(input, init) ? setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS) : undefined
+  init?.signal?.addEventListener('abort', () => controller.abort())
+
+  try {
+    const response = await fetch(input, { ...init, signal: controller.signal })
+    setReachable(true)
+    return response
+  } catch (error) {
+    // Requests the caller cancelled say nothing about the connection
+    if (!init?.signal?.aborted) setReachable(false)
+    throw error
+  } finally {
+    clearTimeout(timeout)
+  }
+}
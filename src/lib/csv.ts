@@ -0,0 +1,73 @@
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/
+
+export interface CsvOptions {
+  // Prefixes cells that would run as a formula with a quote, for files meant
+  // to be opened in a spreadsheet. Off for files that are read back, such as
+  // library exports, where the prefix would end up in the data.
+  neutralizeFormulas?: boolean
+}
+
+function escapeCsvValue(value: unknown, { neutralizeFormulas = false }: CsvOptions): string {
+  if (value === null || value === undefined) return ''
+  let text = typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  if (neutralizeFormulas && FORMULA_START.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(headers: string[], rows: unknown[][], options: CsvOptions = {}): string {
+  return [headers, ...rows]
+    .map(row => row.map(value => escapeCsvValue(value, options)).join(','))
+    .join('\r\n')
+}
+
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.length > 1 || r[0] !== '')
+}
+
+export function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { Command } from './supabase'
+import { serializeLibrary, parseLibrary, normalizeRecord, LIBRARY_SCHEMA_VERSION } from './libraryFormat'
+
+const command = {
+  id: 'c1',
+  name: 'List files',
+  description: 'Everything, hidden files too',
+  command: 'ls -la',
+  category: 'system',
+  variants: { powershell: 'Get-ChildItem -Force' },
+  is_active: true,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z',
+} as Command
+
+describe('library round trip', () => {
+  for (const format of ['json', 'yaml', 'csv'] as const) {
+    it(`keeps variants in ${format}`, () => {
+      const [row] = parseLibrary(serializeLibrary([command], format), format)
+      const { record, errors } = normalizeRecord(row)
+
+      expect(errors).toEqual([])
+      expect(record?.variants).toEqual({ powershell: 'Get-ChildItem -Force' })
+    })
+  }
+
+  it('writes the current schema version', () => {
+    expect(JSON.parse(serializeLibrary([command], 'json')).version).toBe(LIBRARY_SCHEMA_VERSION)
+  })
+})
+
+describe('normalizeRecord', () => {
+  const row = { name: 'List files', command: 'ls -la', category: 'system' }
+
+  it('leaves variants out of version 1 rows', () => {
+    expect(normalizeRecord(row).record?.variants).toBeUndefined()
+  })
+
+  it('drops blank variants and ones that repeat the command', () => {
+    const { record } = normalizeRecord({ ...row, variants: { zsh: 'ls -la', fish: ' ', powershell: 'dir' } })
+    expect(record?.variants).toEqual({ powershell: 'dir' })
+  })
+
+  it('rejects unknown shells and unreadable variants', () => {
+    expect(normalizeRecord({ ...row, variants: { cmd: 'dir' } }).errors).toHaveLength(1)
+    expect(normalizeRecord({ ...row, variants: '{not json' }).errors).toHaveLength(1)
+  })
+})
@@ -0,0 +1,185 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { Command, CommandVariants } from './supabase'
+import { toCsv, parseCsv } from './csv'
+import { SHELLS, DEFAULT_SHELL, isShell, cleanVariants } from './shells'
+
+// The exchange format mirrors the editable columns of the `commands` Row type.
+// Bump the version when a field is added or renamed and keep `normalizeRecord`
+// able to read the older shapes.
+//   1  name, description, command, category, is_active
+//   2  adds per-shell `variants`; CSV keeps them as a JSON object
+export const LIBRARY_SCHEMA = 'ariola.commands'
+export const LIBRARY_SCHEMA_VERSION = 2
+
+export type LibraryFormat = 'json' | 'yaml' | 'csv'
+
+export const LIBRARY_FORMATS: { id: LibraryFormat; name: string; extension: string; mimeType: string }[] = [
+  { id: 'json', name: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'yaml', name: 'YAML', extension: 'yaml', mimeType: 'application/yaml' },
+  { id: 'csv', name: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+]
+
+export type LibraryRecord = Pick<Command, 'name' | 'description' | 'command' | 'category' | 'is_active'> & {
+  // Missing in version 1 files, which leaves existing variants alone
+  variants?: CommandVariants
+  id?: string
+  created_at?: string
+  updated_at?: string
+}
+
+export interface LibraryDocument {
+  schema: typeof LIBRARY_SCHEMA
+  version: number
+  exported_at: string
+  commands: LibraryRecord[]
+}
+
+const CSV_COLUMNS = ['id', 'name', 'description', 'command', 'category', 'variants', 'is_active', 'created_at', 'updated_at'] as const
+
+export function toLibraryRecord(command: Command): LibraryRecord {
+  return {
+    id: command.id,
+    name: command.name,
+    description: command.description,
+    command: command.command,
+    category: command.category,
+    variants: command.variants ?? {},
+    is_active: command.is_active,
+    created_at: command.created_at,
+    updated_at: command.updated_at,
+  }
+}
+
+export function serializeLibrary(commands: Command[], format: LibraryFormat): string {
+  const records = commands.map(toLibraryRecord)
+
+  if (format === 'csv') {
+    return toCsv(
+      ['schema_version', ...CSV_COLUMNS],
+      records.map(record => [
+        LIBRARY_SCHEMA_VERSION,
+        ...CSV_COLUMNS.map(column => column === 'variants' ? variantsToCsv(record.variants) : record[column]),
+      ])
+    )
+  }
+
+  const document: LibraryDocument = {
+    schema: LIBRARY_SCHEMA,
+    version: LIBRARY_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    commands: records,
+  }
+
+  return format === 'json' ? JSON.stringify(document, null, 2) : stringifyYaml(document)
+}
+
+export function detectFormat(filename: string): LibraryFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase()
+  if (extension === 'yml') return 'yaml'
+  return LIBRARY_FORMATS.find(format => format.extension === extension)?.id ?? null
+}
+
+// Returns the raw rows of a document; each row still has to go through
+// `normalizeRecord` before it can be imported.
+export function parseLibrary(content: string, format: LibraryFormat): unknown[] {
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(content)
+    if (!header) return []
+
+    return rows.map(row => {
+      const raw = Object.fromEntries(header.map((column, index) => [column.trim(), row[index] ?? '']))
+      if (raw.schema_version && Number(raw.schema_version) > LIBRARY_SCHEMA_VERSION) {
+        throw new Error(`Unsupported schema version ${raw.schema_version}`)
+      }
+      return raw
+    })
+  }
+
+  const parsed = format === 'json' ? JSON.parse(content) : parseYaml(content)
+
+  if (Array.isArray(parsed)) return parsed
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.commands)) {
+    throw new Error('Expected a list of commands or a document with a "commands" list')
+  }
+  if (typeof parsed.version === 'number' && parsed.version > LIBRARY_SCHEMA_VERSION) {
+    throw new Error(`Unsupported schema version ${parsed.version}`)
+  }
+  return parsed.commands
+}
+
+export function normalizeRecord(raw: unknown): { record?: LibraryRecord; errors: string[] } {
+  if (!raw || typeof raw !== 'object') {
+    return { errors: ['Row is not an object'] }
+  }
+
+  const row = raw as Record<string, unknown>
+  const errors: string[] = []
+  const text = (field: string, required = true) => {
+    const value = row[field]
+    if (value === undefined || value === null || value === '') {
+      if (required) errors.push(`Missing "${field}"`)
+      return undefined
+    }
+    if (typeof value !== 'string') {
+      errors.push(`"${field}" must be text`)
+      return undefined
+    }
+    return value
+  }
+
+  const record = {
+    id: text('id', false),
+    name: text('name')?.trim(),
+    description: text('description', false) ?? '',
+    command: text('command'),
+    category: text('category')?.trim().toLowerCase(),
+    variants: parseVariants(row.variants),
+    is_active: parseBoolean(row.is_active),
+  }
+
+  if (record.variants === null) errors.push(`"variants" must map ${SHELLS.filter(shell => shell !== DEFAULT_SHELL).join(', ')} to text`)
+  if (record.is_active === null) errors.push('"is_active" must be true or false')
+  if (errors.length > 0) return { errors }
+
+  return {
+    record: {
+      ...record,
+      variants: record.variants && cleanVariants(record.variants, record.command!),
+    } as LibraryRecord,
+    errors,
+  }
+}
+
+function variantsToCsv(variants: CommandVariants | undefined): string {
+  return variants && Object.keys(variants).length > 0 ? JSON.stringify(variants) : ''
+}
+
+// Undefined when the row has no variants column, null when it can't be read.
+// CSV cells hold the JSON text of the object.
+function parseVariants(value: unknown): CommandVariants | undefined | null {
+  if (value === undefined || value === null) return undefined
+  if (value === '') return {}
+
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const entries = Object.entries(value as Record<string, unknown>)
+  const valid = entries.every(([shell, text]) => shell !== DEFAULT_SHELL && isShell(shell) && typeof text === 'string')
+  return valid ? Object.fromEntries(entries) as CommandVariants : null
+}
+
+function parseBoolean(value: unknown): boolean | null {
+  if (value === undefined || value === null || value === '') return true
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'string') {
+    if (/^(true|yes|1)$/i.test(value.trim())) return true
+    if (/^(false|no|0)$/i.test(value.trim())) return false
+  }
+  return null
+}
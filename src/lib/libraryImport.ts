@@ -0,0 +1,152 @@
+import { Command } from './supabase'
+import { ImportedCommand, ImportedUpdate, commandsRepository } from './repositories'
+import { LibraryRecord, normalizeRecord } from './libraryFormat'
+import { changedFields } from './revisions'
+
+export type ImportStatus = 'new' | 'updated' | 'unchanged' | 'conflicting' | 'invalid'
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'rename'
+
+export interface ImportPlanItem {
+  index: number
+  status: ImportStatus
+  record?: LibraryRecord
+  existing?: Command
+  errors: string[]
+}
+
+export interface ImportResult {
+  created: Command[]
+  updated: Command[]
+  skipped: number
+}
+
+// Rows are matched to existing commands by id first. A row without a matching
+// id whose name is already taken is a conflict, resolved by the chosen strategy.
+// `existing` is the library of the workspace being imported into.
+export function planImport(rows: unknown[], existing: Command[]): ImportPlanItem[] {
+  const byId = new Map(existing.map(command => [command.id, command]))
+  const byName = new Map(existing.map(command => [command.name.toLowerCase(), command]))
+  const seenIds = new Set<string>()
+  const seenNames = new Set<string>()
+
+  return rows.map((row, index) => {
+    const { record, errors } = normalizeRecord(row)
+    if (!record) return { index, status: 'invalid', errors }
+
+    const name = record.name.toLowerCase()
+    if (record.id && seenIds.has(record.id)) {
+      return { index, status: 'invalid', record, errors: ['Duplicate id in import file'] }
+    }
+    if (seenNames.has(name)) {
+      return { index, status: 'invalid', record, errors: ['Duplicate name in import file'] }
+    }
+    if (record.id) seenIds.add(record.id)
+    seenNames.add(name)
+
+    const match = record.id ? byId.get(record.id) : undefined
+    if (match) {
+      const unchanged = changedFields(match, record).length === 0 && match.is_active === record.is_active
+      return { index, status: unchanged ? 'unchanged' : 'updated', record, existing: match, errors: [] }
+    }
+
+    const conflict = byName.get(name)
+    if (conflict) {
+      return { index, status: 'conflicting', record, existing: conflict, errors: [] }
+    }
+
+    return { index, status: 'new', record, errors: [] }
+  })
+}
+
+// `planImport`, with ids dropped from rows that match no command in the
+// workspace but belong to one elsewhere. Those rows are imported as new
+// commands instead of clashing with a command the user may not even see.
+export async function planLibraryImport(rows: unknown[], existing: Command[]): Promise<ImportPlanItem[]> {
+  const plan = planImport(rows, existing)
+  const unmatched = plan.flatMap(item =>
+    item.record?.id && item.existing?.id !== item.record.id ? [item.record.id] : []
+  )
+  const taken = new Set(await commandsRepository.takenIds(unmatched))
+
+  return plan.map(item => {
+    const { record } = item
+    if (!record?.id || item.existing?.id === record.id || !taken.has(record.id)) return item
+    return { ...item, record: { ...record, id: undefined } }
+  })
+}
+
+export function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = `${name} (imported)`
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (imported ${n})`
+  }
+  taken.add(candidate.toLowerCase())
+  return candidate
+}
+
+// Works out every write first, then makes them in one go, so an import that
+// fails leaves the library as it was.
+export async function applyImport(
+  plan: ImportPlanItem[],
+  strategy: ConflictStrategy,
+  userId: string,
+  existing: Command[],
+  workspaceId: string | null = null
+): Promise<ImportResult> {
+  const creates: ImportedCommand[] = []
+  const updates: ImportedUpdate[] = []
+  let skipped = 0
+  const takenNames = new Set([
+    ...existing.map(command => command.name.toLowerCase()),
+    ...plan.flatMap(item => item.record ? [item.record.name.toLowerCase()] : []),
+  ])
+
+  for (const item of plan) {
+    const { record, existing: target } = item
+    if (!record) continue
+
+    if (item.status === 'new') {
+      creates.push(imported(record))
+    } else if (item.status === 'updated' && target) {
+      updates.push(importedUpdate(target, record))
+    } else if (item.status === 'conflicting' && target && strategy === 'overwrite') {
+      updates.push(importedUpdate(target, record))
+    } else if (item.status === 'conflicting' && strategy === 'rename') {
+      creates.push(imported({ ...record, id: undefined, name: uniqueName(record.name, takenNames) }))
+    } else {
+      skipped++
+    }
+  }
+
+  if (creates.length === 0 && updates.length === 0) return { created: [], updated: [], skipped }
+
+  const { created, updated } = await commandsRepository.importCommands(workspaceId, creates, updates, userId)
+  return { created, updated, skipped }
+}
+
+function imported(record: LibraryRecord): ImportedCommand {
+  return {
+    ...(record.id && { id: record.id }),
+    name: record.name,
+    description: record.description,
+    command: record.command,
+    category: record.category,
+    variants: record.variants ?? {},
+    is_active: record.is_active,
+  }
+}
+
+// Variants are left alone when the file has none (version 1 files)
+function importedUpdate(target: Command, record: LibraryRecord): ImportedUpdate {
+  return {
+    id: target.id,
+    name: record.name,
+    description: record.description,
+    command: record.command,
+    category: record.category,
+    ...(record.variants && { variants: record.variants }),
+    is_active: record.is_active,
+    changed_fields: changedFields(target, record),
+  }
+}
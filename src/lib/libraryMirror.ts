@@ -0,0 +1,72 @@
+import { Command, Workspace } from './supabase'
+import { CommandFilters, CommandCursor, CommandPage, searchCommandList } from './commandQuery'
+import { fetchAllCommands } from './commands'
+import { fetchTags, fetchCommandTags } from './tags'
+import { readCached, writeCached } from './offlineStore'
+
+// A copy of each workspace's library, refreshed while online, that the
+// Commands page reads from when Supabase can't be reached. Like the library
+// it only holds approved, active commands, together with their tags.
+
+interface LibraryMirror {
+  commands: Command[]
+  commandTags: Record<string, string[]>
+  syncedAt: string
+}
+
+export interface MirroredPage extends CommandPage {
+  total: number
+  commandTags: Record<string, string[]>
+  syncedAt: string
+}
+
+type WorkspaceRef = Pick<Workspace, 'id' | 'is_default'> | null
+
+// Refreshing downloads the whole library, so it happens at most this often
+const MAX_AGE_MS = 10 * 60 * 1000
+
+function mirrorKey(workspace: WorkspaceRef): string {
+  return `library:${workspace?.id ?? 'all'}`
+}
+
+export async function refreshLibraryMirror(workspace: WorkspaceRef, force = false) {
+  const existing = await readCached<LibraryMirror>(mirrorKey(workspace))
+  if (!force && existing && Date.now() - Date.parse(existing.syncedAt) < MAX_AGE_MS) return
+
+  const [commands, tags] = await Promise.all([
+    fetchAllCommands({ workspace, libraryOnly: true, order: 'newest' }),
+    fetchTags(),
+  ])
+  const allTags = await fetchCommandTags(tags)
+  const commandTags = Object.fromEntries(commands.map(cmd => [cmd.id, allTags[cmd.id] ?? []]))
+
+  await writeCached(mirrorKey(workspace), { commands, commandTags, syncedAt: new Date().toISOString() })
+}
+
+// Keeps the copy in line with an edit made offline.
+export async function updateMirroredCommand(workspace: WorkspaceRef, command: Command) {
+  const mirror = await readCached<LibraryMirror>(mirrorKey(workspace))
+  if (!mirror) return
+
+  await writeCached(mirrorKey(workspace), {
+    ...mirror,
+    commands: mirror.commands.map(cmd => cmd.id === command.id ? command : cmd),
+  })
+}
+
+// The offline counterpart of `search` and `countSearch` on the commands
+// repository. Returns null when the workspace was never mirrored.
+export async function queryLibraryMirror(
+  filters: CommandFilters,
+  cursor: CommandCursor | null,
+  limit: number
+): Promise<MirroredPage | null> {
+  const mirror = await readCached<LibraryMirror>(mirrorKey(filters.workspace))
+  if (!mirror) return null
+
+  return {
+    ...searchCommandList(mirror.commands, filters, mirror, cursor, limit),
+    commandTags: mirror.commandTags,
+    syncedAt: mirror.syncedAt,
+  }
+}
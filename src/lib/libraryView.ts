@@ -0,0 +1,77 @@
+import { TagMode } from './tags'
+
+// Everything that shapes the Commands page lives in the query string, so a
+// view survives a reload, can be shared and works with back and forward:
+//   ?q=docker&category=network&tags=ssh,tunnel&mode=or&view=favorites&sort=copies&page=2
+
+// 'relevance' ranks search results by how well they match. Without a search
+// it is newest first, except in a collection, which keeps its own order.
+export type SortKey = 'relevance' | 'newest' | 'updated' | 'name' | 'copies'
+
+export const SORT_KEYS: SortKey[] = ['relevance', 'newest', 'updated', 'name', 'copies']
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  relevance: 'Best match',
+  newest: 'Newest',
+  updated: 'Recently updated',
+  name: 'Alphabetical',
+  copies: 'Most copied',
+}
+
+export const PAGE_SIZE = 24
+
+export interface LibraryQuery {
+  search: string
+  category: string
+  tags: string[]
+  tagMode: TagMode
+  // 'all', 'favorites' or a collection id
+  view: string
+  sort: SortKey
+  // Pages loaded by scrolling, so a reload shows as much as before
+  page: number
+}
+
+export const DEFAULT_LIBRARY_QUERY: LibraryQuery = {
+  search: '',
+  category: 'all',
+  tags: [],
+  tagMode: 'and',
+  view: 'all',
+  sort: 'relevance',
+  page: 1,
+}
+
+function isSortKey(value: unknown): value is SortKey {
+  return SORT_KEYS.includes(value as SortKey)
+}
+
+export function readLibraryQuery(params: URLSearchParams): LibraryQuery {
+  const page = Number(params.get('page'))
+  const sort = params.get('sort')
+
+  return {
+    search: params.get('q') ?? DEFAULT_LIBRARY_QUERY.search,
+    category: params.get('category') || DEFAULT_LIBRARY_QUERY.category,
+    tags: (params.get('tags') ?? '').split(',').filter(Boolean),
+    tagMode: params.get('mode') === 'or' ? 'or' : 'and',
+    view: params.get('view') || DEFAULT_LIBRARY_QUERY.view,
+    sort: isSortKey(sort) ? sort : DEFAULT_LIBRARY_QUERY.sort,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  }
+}
+
+// Defaults are left out to keep shared links short.
+export function writeLibraryQuery(query: LibraryQuery): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (query.search) params.set('q', query.search)
+  if (query.category !== DEFAULT_LIBRARY_QUERY.category) params.set('category', query.category)
+  if (query.tags.length > 0) params.set('tags', query.tags.join(','))
+  if (query.tags.length > 1 && query.tagMode !== DEFAULT_LIBRARY_QUERY.tagMode) params.set('mode', query.tagMode)
+  if (query.view !== DEFAULT_LIBRARY_QUERY.view) params.set('view', query.view)
+  if (query.sort !== DEFAULT_LIBRARY_QUERY.sort) params.set('sort', query.sort)
+  if (query.page > 1) params.set('page', String(query.page))
+
+  return params
+}
@@ -0,0 +1,55 @@
+import { User } from '@supabase/supabase-js'
+import { UserProfile } from './supabase'
+import { profilesRepository } from './repositories'
+import { DEFAULT_ROLE } from './permissions'
+
+// Sign-in for the local backend. Accounts are the profiles in the local
+// store and passwords are not checked, so it is only fit for development and
+// tests. The first account created is an admin, so every page can be reached.
+
+const SESSION_KEY = 'ariola:session'
+
+function toUser(profile: Pick<UserProfile, 'id' | 'email' | 'created_at'>): User {
+  return {
+    id: profile.id,
+    email: profile.email,
+    aud: 'authenticated',
+    app_metadata: { provider: 'local' },
+    user_metadata: {},
+    created_at: profile.created_at,
+  }
+}
+
+export async function localUser(): Promise<User | null> {
+  const userId = localStorage.getItem(SESSION_KEY)
+  const profile = userId ? await profilesRepository.get(userId) : null
+  return profile ? toUser(profile) : null
+}
+
+export async function localSignIn(email: string): Promise<User> {
+  const profile = await profilesRepository.findByEmail(email)
+  if (!profile) throw new Error('Invalid login credentials')
+
+  localStorage.setItem(SESSION_KEY, profile.id)
+  return toUser(profile)
+}
+
+export async function localSignUp(email: string, fullName: string): Promise<User> {
+  if (await profilesRepository.findByEmail(email)) throw new Error('User already registered')
+
+  const first = (await profilesRepository.count()) === 0
+  const profile = await profilesRepository.insert({
+    id: crypto.randomUUID(),
+    email: email.trim(),
+    full_name: fullName,
+    role: first ? 'admin' : DEFAULT_ROLE,
+    is_admin: first,
+  })
+
+  localStorage.setItem(SESSION_KEY, profile.id)
+  return toUser(profile)
+}
+
+export function localSignOut() {
+  localStorage.removeItem(SESSION_KEY)
+}
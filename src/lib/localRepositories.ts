@@ -0,0 +1,246 @@
+import { Command, UserProfile } from './supabase'
+import { searchCommandList } from './commandQuery'
+import { belongsToWorkspace } from './workspaces'
+import { roleOf, DEFAULT_ROLE } from './permissions'
+import { CommandInsert, CommandMatch, CommandsRepository, ImportedCommand, ProfileCursor, ProfilesRepository } from './repositories'
+
+// Commands and profiles kept in the browser, for `VITE_BACKEND=local`. Rows
+// are stored whole per table; that is fine for the few hundred rows a local
+// library holds and keeps the implementation next to trivial.
+
+export interface LocalStore {
+  read<Row>(table: string): Row[]
+  write<Row>(table: string, rows: Row[]): void
+}
+
+export const localStorageStore: LocalStore = {
+  read<Row>(table: string): Row[] {
+    return JSON.parse(localStorage.getItem(`ariola:${table}`) ?? '[]')
+  },
+  write<Row>(table: string, rows: Row[]) {
+    localStorage.setItem(`ariola:${table}`, JSON.stringify(rows))
+  },
+}
+
+function matches(command: Command, match: CommandMatch): boolean {
+  return (!match.workspace || belongsToWorkspace(command, match.workspace)) &&
+    (!match.ids || match.ids.includes(command.id)) &&
+    (!match.status || command.status === match.status) &&
+    (!match.createdBy || command.created_by === match.createdBy) &&
+    (!match.category || command.category === match.category) &&
+    (match.isActive === undefined || command.is_active === match.isActive)
+}
+
+function notFound(table: string, id: string): Error {
+  return new Error(`No row in ${table} with id ${id}`)
+}
+
+function newCommand(insert: CommandInsert): Command {
+  const now = new Date().toISOString()
+  return {
+    is_active: true,
+    status: 'approved',
+    reviewed_by: null,
+    reviewed_at: null,
+    review_note: null,
+    variants: {},
+    workspace_id: null,
+    copy_count: 0,
+    created_at: now,
+    updated_at: now,
+    ...insert,
+    id: insert.id ?? crypto.randomUUID(),
+  }
+}
+
+function importedFields({ name, description, command, category, is_active, variants }: ImportedCommand) {
+  return { name, description, command, category, is_active, ...(variants && { variants }) }
+}
+
+export function createLocalRepositories(store: LocalStore): { commands: CommandsRepository; profiles: ProfilesRepository } {
+  const readCommands = () => store.read<Command>('commands')
+  const readProfiles = () => store.read<UserProfile>('user_profiles')
+
+  const authorNames = () => Object.fromEntries(
+    readProfiles().map(profile => [profile.id, profile.full_name || profile.email])
+  )
+
+  // Tags are not stored locally, so tag filters match nothing
+  const context = () => ({ commandTags: {}, authorNames: authorNames() })
+
+  const commands: CommandsRepository = {
+    async get(id) {
+      return readCommands().find(command => command.id === id) ?? null
+    },
+
+    async list(match, sort) {
+      const rows = readCommands().filter(command => matches(command, match))
+      if (!sort) return rows
+
+      const direction = sort.ascending ? 1 : -1
+      return rows.sort((a, b) => a[sort.column].localeCompare(b[sort.column]) * direction)
+    },
+
+    async count(match) {
+      return readCommands().filter(command => matches(command, match)).length
+    },
+
+    async countByCategory() {
+      const usage: Record<string, number> = {}
+      for (const command of readCommands()) usage[command.category] = (usage[command.category] ?? 0) + 1
+      return usage
+    },
+
+    async search(filters, cursor, limit) {
+      const { commands, nextCursor } = searchCommandList(readCommands(), filters, context(), cursor, limit)
+      return { commands, nextCursor }
+    },
+
+    async countSearch(filters) {
+      return searchCommandList(readCommands(), filters, context(), null, 0).total
+    },
+
+    async insert(insert) {
+      const command = newCommand(insert)
+      store.write('commands', [command, ...readCommands()])
+      return command
+    },
+
+    async update(id, updates) {
+      const [updated] = await commands.updateWhere({ ids: [id] }, updates)
+      if (!updated) throw notFound('commands', id)
+      return updated
+    },
+
+    async updateWhere(match, updates) {
+      const updated: Command[] = []
+      store.write('commands', readCommands().map(command => {
+        if (!matches(command, match)) return command
+        const next = { ...command, ...updates }
+        updated.push(next)
+        return next
+      }))
+      return updated
+    },
+
+    async remove(ids) {
+      store.write('commands', readCommands().filter(command => !ids.includes(command.id)))
+    },
+
+    async removeWhere(match) {
+      store.write('commands', readCommands().filter(command => !matches(command, match)))
+    },
+
+    async takenIds(ids) {
+      return readCommands().filter(command => ids.includes(command.id)).map(command => command.id)
+    },
+
+    // Revisions aren't kept locally. Everything is checked before the single
+    // write, so a failed import changes nothing.
+    async importCommands(workspaceId, creates, updates, authorId) {
+      const rows = readCommands()
+      const existingIds = new Set(rows.map(command => command.id))
+      const clash = creates.find(create => create.id && existingIds.has(create.id))
+      if (clash) throw new Error(`A command with id ${clash.id} already exists`)
+      const missing = updates.find(update => !existingIds.has(update.id))
+      if (missing) throw notFound('commands', missing.id)
+
+      const created = creates.map(create => newCommand({
+        ...importedFields(create),
+        ...(create.id && { id: create.id }),
+        status: 'approved',
+        workspace_id: workspaceId,
+        created_by: authorId,
+      }))
+      const changes = new Map(updates.map(update => [update.id, importedFields(update)]))
+      const updatedAt = new Date().toISOString()
+      const next = rows.map(command => {
+        const change = changes.get(command.id)
+        return change ? { ...command, ...change, updated_at: updatedAt } : command
+      })
+
+      store.write('commands', [...created, ...next])
+      const byId = new Map(next.map(command => [command.id, command]))
+      return { created, updated: updates.map(update => byId.get(update.id)!) }
+    },
+
+    async recordCopy(id) {
+      store.write('commands', readCommands().map(command =>
+        command.id === id ? { ...command, copy_count: command.copy_count + 1 } : command
+      ))
+    },
+  }
+
+  const profiles: ProfilesRepository = {
+    async get(id) {
+      return readProfiles().find(profile => profile.id === id) ?? null
+    },
+
+    async findByEmail(email) {
+      const wanted = email.trim().toLowerCase()
+      return readProfiles().find(profile => profile.email.toLowerCase() === wanted) ?? null
+    },
+
+    async list(cursor, limit) {
+      const key = (profile: ProfileCursor) => `${profile.created_at} ${profile.id}`
+      const rows = readProfiles()
+        .sort((a, b) => key(b).localeCompare(key(a)))
+        .filter(profile => !cursor || key(profile) < key(cursor))
+      const profiles = rows.slice(0, limit)
+      const last = profiles[profiles.length - 1]
+      return { profiles, nextCursor: rows.length > limit && last ? { created_at: last.created_at, id: last.id } : null }
+    },
+
+    async listByIds(ids) {
+      return readProfiles().filter(profile => ids.includes(profile.id))
+    },
+
+    async search(text) {
+      const wanted = text.toLowerCase()
+      return readProfiles().filter(profile =>
+        profile.full_name.toLowerCase().includes(wanted) || profile.email.toLowerCase().includes(wanted)
+      )
+    },
+
+    async count(options = {}) {
+      const rows = readProfiles()
+      return options.admins ? rows.filter(profile => roleOf(profile) === 'admin').length : rows.length
+    },
+
+    async insert(insert) {
+      const now = new Date().toISOString()
+      const profile: UserProfile = {
+        role: DEFAULT_ROLE,
+        is_admin: false,
+        avatar_url: null,
+        preferred_shell: null,
+        default_category: null,
+        active_workspace_id: null,
+        created_at: now,
+        updated_at: now,
+        ...insert,
+      }
+      store.write('user_profiles', [...readProfiles().filter(row => row.id !== profile.id), profile])
+      return profile
+    },
+
+    async update(id, updates) {
+      const current = readProfiles().find(profile => profile.id === id)
+      if (!current) throw notFound('user_profiles', id)
+
+      const updated = { ...current, ...updates }
+      store.write('user_profiles', readProfiles().map(profile => profile.id === id ? updated : profile))
+      return updated
+    },
+
+    async updateAllExcept(id, updates) {
+      store.write('user_profiles', readProfiles().map(profile => profile.id === id ? profile : { ...profile, ...updates }))
+    },
+
+    async remove(id) {
+      store.write('user_profiles', readProfiles().filter(profile => profile.id !== id))
+    },
+  }
+
+  return { commands, profiles }
+}
@@ -0,0 +1,112 @@
+import { supabase, Command, CommandRevision, CommandStatus, Workspace } from './supabase'
+import { commandsRepository } from './repositories'
+import { ensureBaselineRevision } from './revisions'
+
+export type ReviewDecision = Exclude<CommandStatus, 'pending'>
+
+export type EditDecision = 'approved' | 'rejected'
+
+// An edit of an approved command waiting for review, with the command as it
+// is published now.
+export interface PendingEdit {
+  revision: CommandRevision
+  command: Command
+}
+
+export const COMMAND_STATUS_LABELS: Record<CommandStatus, string> = {
+  pending: 'Pending review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  changes_requested: 'Changes requested',
+}
+
+export const COMMAND_STATUS_STYLES: Record<CommandStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400',
+  approved: 'bg-green-500/20 text-green-400',
+  rejected: 'bg-red-500/20 text-red-400',
+  changes_requested: 'bg-orange-500/20 text-orange-400',
+}
+
+export async function fetchReviewQueue(workspace: Workspace | null): Promise<Command[]> {
+  return commandsRepository.list({ workspace, status: 'pending' }, { column: 'created_at', ascending: true })
+}
+
+// Every command the user added, whatever its status, so the outcome of each
+// review stays visible to its author. Most recently changed first.
+export async function fetchSubmissions(userId: string, workspace: Workspace | null): Promise<Command[]> {
+  return commandsRepository.list(
+    { workspace, createdBy: userId },
+    { column: 'updated_at', ascending: false }
+  )
+}
+
+export async function reviewCommand(
+  commandId: string,
+  decision: ReviewDecision,
+  reviewerId: string,
+  note: string | null = null
+): Promise<Command> {
+  return commandsRepository.update(commandId, {
+    status: decision,
+    reviewed_by: reviewerId,
+    reviewed_at: new Date().toISOString(),
+    review_note: note,
+  })
+}
+
+// Oldest first, like the queue of new commands.
+export async function fetchPendingEdits(workspace: Workspace | null): Promise<PendingEdit[]> {
+  const { data, error } = await supabase
+    .from('command_revisions')
+    .select('*')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  if (!data || data.length === 0) return []
+
+  const commands = await commandsRepository.list({ workspace, ids: [...new Set(data.map(revision => revision.command_id))] })
+  const byId = new Map(commands.map(command => [command.id, command]))
+  return data
+    .filter(revision => byId.has(revision.command_id))
+    .map(revision => ({ revision, command: byId.get(revision.command_id)! }))
+}
+
+// Approving publishes the proposed version and makes the revision part of
+// the command's history from now on; rejecting keeps the published one.
+export async function reviewEdit(
+  { revision, command }: PendingEdit,
+  decision: EditDecision,
+  reviewerId: string,
+  note: string | null = null
+): Promise<Command> {
+  const now = new Date().toISOString()
+  let result = command
+
+  if (decision === 'approved') {
+    await ensureBaselineRevision(command)
+    result = await commandsRepository.update(command.id, {
+      name: revision.name,
+      description: revision.description,
+      command: revision.command,
+      category: revision.category,
+      variants: revision.variants,
+      updated_at: now,
+    })
+  }
+
+  const { error } = await supabase
+    .from('command_revisions')
+    .update({
+      status: decision === 'approved' ? 'applied' : 'rejected',
+      reviewed_by: reviewerId,
+      reviewed_at: now,
+      review_note: note,
+      // History is ordered by when each version took effect
+      ...(decision === 'approved' && { created_at: now }),
+    })
+    .eq('id', revision.id)
+
+  if (error) throw error
+  return result
+}
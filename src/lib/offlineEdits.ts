@@ -0,0 +1,67 @@
+import { Command } from './supabase'
+import { EDITABLE_FIELDS, updateCommand } from './commands'
+import { commandsRepository } from './repositories'
+import { OfflineEdit, readQueue, readQueued, writeQueued, removeQueued } from './offlineStore'
+
+// Edits made without a connection are queued and saved once it returns. An
+// edit only goes through on its own if nobody else changed the same fields
+// in the meantime; otherwise it waits for the user to pick a side.
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Queues `updates` to `base` and returns the command as it looks locally.
+export async function queueOfflineEdit(base: Command, updates: Partial<Command>): Promise<Command> {
+  const queued = await readQueued(base.id)
+
+  await writeQueued({
+    commandId: base.id,
+    base: queued?.base ?? base,
+    updates: { ...queued?.updates, ...updates },
+    queuedAt: queued?.queuedAt ?? new Date().toISOString(),
+  })
+
+  return { ...base, ...updates }
+}
+
+// Fields both this edit and someone else changed, to different values.
+function conflictingFields(edit: OfflineEdit, current: Command): string[] {
+  return EDITABLE_FIELDS.filter(field =>
+    edit.updates[field] !== undefined &&
+    !same(current[field], edit.base[field]) &&
+    !same(current[field], edit.updates[field])
+  )
+}
+
+// Saves every queued edit that doesn't conflict and marks the rest. Returns
+// the edits still queued. Stops at the first failed request, since that
+// usually means the connection dropped again.
+export async function syncOfflineEdits(userId: string, needsApproval: boolean): Promise<OfflineEdit[]> {
+  for (const edit of await readQueue()) {
+    if (edit.conflict) continue
+
+    const current = await commandsRepository.get(edit.commandId)
+    const fields = current ? conflictingFields(edit, current) : []
+
+    if (current && fields.length === 0) {
+      await updateCommand(current, edit.commandId, edit.updates, userId, { needsApproval })
+      await removeQueued(edit.commandId)
+    } else {
+      await writeQueued({ ...edit, conflict: { current, fields } })
+    }
+  }
+
+  return readQueue()
+}
+
+// 'mine' saves the offline edit over the newer version; 'theirs' drops it.
+// An edit to a command that was deleted in the meantime is dropped either way.
+export async function resolveOfflineConflict(edit: OfflineEdit, keep: 'mine' | 'theirs', userId: string, needsApproval: boolean) {
+  if (keep === 'mine') {
+    const current = await commandsRepository.get(edit.commandId)
+    if (current) await updateCommand(current, edit.commandId, edit.updates, userId, { needsApproval })
+  }
+
+  await removeQueued(edit.commandId)
+}
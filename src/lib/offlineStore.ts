@@ -0,0 +1,72 @@
+import { Command } from './supabase'
+
+// IndexedDB keeps what the app needs without a connection: a copy of the
+// library and anything else worth showing offline, under `cache`, and edits
+// waiting to be saved, under `queue`.
+
+const DB_NAME = 'ariola'
+const DB_VERSION = 1
+
+export interface OfflineEdit {
+  commandId: string
+  // The command as it was when first edited offline; later offline edits to
+  // the same command are merged into `updates`
+  base: Command
+  updates: Partial<Command>
+  queuedAt: string
+  // Set when someone else changed the same fields in the meantime. `current`
+  // is null if the command was deleted.
+  conflict?: {
+    current: Command | null
+    fields: string[]
+  }
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('cache')
+      request.result.createObjectStore('queue', { keyPath: 'commandId' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  return database
+}
+
+async function run<T>(store: 'cache' | 'queue', mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function readCached<T>(key: string): Promise<T | undefined> {
+  return run<T | undefined>('cache', 'readonly', store => store.get(key))
+}
+
+export async function writeCached(key: string, value: unknown) {
+  await run('cache', 'readwrite', store => store.put(value, key))
+}
+
+export async function readQueue(): Promise<OfflineEdit[]> {
+  const edits = await run<OfflineEdit[]>('queue', 'readonly', store => store.getAll())
+  return edits.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+}
+
+export async function readQueued(commandId: string): Promise<OfflineEdit | undefined> {
+  return run<OfflineEdit | undefined>('queue', 'readonly', store => store.get(commandId))
+}
+
+export async function writeQueued(edit: OfflineEdit) {
+  await run('queue', 'readwrite', store => store.put(edit))
+}
+
+export async function removeQueued(commandId: string) {
+  await run('queue', 'readwrite', store => store.delete(commandId))
+}
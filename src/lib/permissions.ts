@@ -0,0 +1,81 @@
+import { UserRole, Workspace } from './supabase'
+
+// What a role may do, beyond what every signed-in user may do with their own
+// commands. Checks in the UI go through `usePermission`; the database
+// policies enforce the same mapping (`role_has_permission` in
+// supabase/migrations/20261018000000_app_schema.sql).
+export type Permission = 'create' | 'edit_any' | 'delete' | 'moderate' | 'manage_users'
+
+export const ROLES: UserRole[] = ['viewer', 'contributor', 'moderator', 'admin']
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: [],
+  contributor: ['create'],
+  moderator: ['create', 'edit_any', 'delete', 'moderate'],
+  admin: ['create', 'edit_any', 'delete', 'moderate', 'manage_users'],
+}
+
+// New accounts can add commands straight away, as they could before roles
+export const DEFAULT_ROLE: UserRole = 'contributor'
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  contributor: 'Contributor',
+  moderator: 'Moderator',
+  admin: 'Admin',
+}
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: 'Can browse and copy commands',
+  contributor: 'Can add commands and edit their own',
+  moderator: 'Can edit, delete and review any command',
+  admin: 'Full access, including users and settings',
+}
+
+export const ROLE_STYLES: Record<UserRole, string> = {
+  viewer: 'bg-dark-600 text-dark-300',
+  contributor: 'bg-blue-500/20 text-blue-400',
+  moderator: 'bg-purple-500/20 text-purple-400',
+  admin: 'bg-red-500/20 text-red-400',
+}
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  create: 'Add commands',
+  edit_any: 'Edit any command',
+  delete: 'Delete any command',
+  moderate: 'Review submissions',
+  manage_users: 'Manage users',
+}
+
+export function isRole(value: unknown): value is UserRole {
+  return ROLES.includes(value as UserRole)
+}
+
+type RoleSource = { role?: UserRole | null; is_admin: boolean }
+
+// Profiles created before roles existed only carry `is_admin`.
+export function roleOf(profile: RoleSource): UserRole
+export function roleOf(profile: RoleSource | null): UserRole | null
+export function roleOf(profile: RoleSource | null): UserRole | null {
+  if (!profile) return null
+  if (isRole(profile.role)) return profile.role
+  return profile.is_admin ? 'admin' : DEFAULT_ROLE
+}
+
+export function hasPermission(role: UserRole | null, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Global admins run every workspace. Everyone else needs a membership, except
+// in the default workspace, where their account role applies unless a
+// membership says otherwise. Without any workspaces the account role is all
+// there is.
+export function workspaceRole(
+  accountRole: UserRole | null,
+  workspace: Pick<Workspace, 'id' | 'is_default'> | null,
+  memberships: Record<string, UserRole>
+): UserRole | null {
+  if (!accountRole) return null
+  if (accountRole === 'admin' || !workspace) return accountRole
+  return memberships[workspace.id] ?? (workspace.is_default ? accountRole : null)
+}
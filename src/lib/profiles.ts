@@ -0,0 +1,42 @@
+import { supabase, Command } from './supabase'
+import { backend } from './backend'
+import { commandsRepository, profilesRepository } from './repositories'
+import { removeAvatars } from './avatars'
+
+// What to call each user: the full name, or the email address for accounts
+// without one. Keyed by user id; authors of deleted accounts (null) are left out.
+export async function fetchDisplayNames(userIds: (string | null)[]): Promise<Record<string, string>> {
+  const ids = userIds.filter((id): id is string => !!id)
+  const profiles = await profilesRepository.listByIds([...new Set(ids)])
+  return Object.fromEntries(profiles.map(profile => [profile.id, profile.full_name || profile.email]))
+}
+
+// Everything the user has added, in every workspace and whatever its review
+// status, newest first.
+export async function fetchContributions(userId: string): Promise<Command[]> {
+  return commandsRepository.list({ createdBy: userId }, { column: 'created_at', ascending: false })
+}
+
+// With `keepCommands` the user's approved commands stay in the library, shown
+// without an author (`created_by` becomes null); their other commands are
+// deleted with the account either way. Supabase does this in the
+// `delete_account` function, since only the database may remove the sign-in
+// account itself. Pictures go first, while the user may still remove them;
+// the profile stops pointing at them in case the deletion is refused.
+export async function deleteAccount(userId: string, keepCommands: boolean) {
+  if (backend === 'local') {
+    const commands = await fetchContributions(userId)
+    await commandsRepository.remove(
+      commands.filter(command => !keepCommands || command.status !== 'approved').map(command => command.id)
+    )
+    await commandsRepository.updateWhere({ createdBy: userId }, { created_by: null })
+    await profilesRepository.remove(userId)
+    return
+  }
+
+  await profilesRepository.update(userId, { avatar_url: null })
+  await removeAvatars(userId)
+  const { error } = await supabase.rpc('delete_account', { keep_commands: keepCommands })
+
+  if (error) throw error
+}
@@ -0,0 +1,39 @@
+import { supabase, Database } from './supabase'
+import { backend } from './backend'
+
+type Tables = Database['public']['Tables']
+
+export type TableChange<Row> =
+  | { type: 'INSERT'; row: Row }
+  | { type: 'UPDATE'; row: Row }
+  // Only the primary key is sent for deletes unless the table has
+  // REPLICA IDENTITY FULL
+  | { type: 'DELETE'; id: string }
+
+let channelCount = 0
+
+// Calls `onChange` for every insert, update and delete on `table` that the
+// signed-in user is allowed to read. Returns a function that unsubscribes.
+export function subscribeToTable<T extends keyof Tables>(
+  table: T,
+  onChange: (change: TableChange<Tables[T]['Row']>) => void
+): () => void {
+  // Only Supabase sends change events
+  if (backend === 'local') return () => undefined
+
+  const channel = supabase
+    .channel(`${table}-changes-${++channelCount}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+      if (payload.eventType === 'DELETE') {
+        const id = (payload.old as { id?: string }).id
+        if (id) onChange({ type: 'DELETE', id })
+      } else {
+        onChange({ type: payload.eventType, row: payload.new as Tables[T]['Row'] })
+      }
+    })
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
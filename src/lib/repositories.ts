@@ -0,0 +1,107 @@
+import { Command, CommandStatus, CommandVariants, Database, UserProfile, Workspace } from './supabase'
+import { CommandFilters, CommandCursor, CommandPage } from './commandQuery'
+import { backend } from './backend'
+import { supabaseCommands, supabaseProfiles } from './supabaseRepositories'
+import { createLocalRepositories, localStorageStore } from './localRepositories'
+
+// All reads and writes of `commands` and `user_profiles` go through these
+// repositories, so the backend behind them can be swapped. Rows are typed by
+// `Database`, whichever backend is in use.
+
+type Tables = Database['public']['Tables']
+
+export type CommandInsert = Tables['commands']['Insert']
+export type CommandUpdate = Tables['commands']['Update']
+export type ProfileInsert = Tables['user_profiles']['Insert']
+export type ProfileUpdate = Tables['user_profiles']['Update']
+
+// The commands a bulk read or write applies to. Every field given narrows
+// the match further.
+export interface CommandMatch {
+  ids?: string[]
+  workspace?: Pick<Workspace, 'id' | 'is_default'> | null
+  status?: CommandStatus
+  createdBy?: string
+  category?: string
+  isActive?: boolean
+}
+
+// A command as a library import writes it. Ids are kept when the file has them.
+export type ImportedCommand = Pick<Command, 'name' | 'description' | 'command' | 'category' | 'is_active'> & {
+  id?: string
+  variants?: CommandVariants
+}
+
+// An import row that overwrites the command with its id, listing the fields
+// that change, which get a revision
+export type ImportedUpdate = ImportedCommand & { id: string; changed_fields: string[] }
+
+// Keyset cursor for the profile list: the last profile of the previous page
+export type ProfileCursor = Pick<UserProfile, 'created_at' | 'id'>
+
+export interface ProfilePage {
+  profiles: UserProfile[]
+  nextCursor: ProfileCursor | null
+}
+
+export interface CommandSort {
+  column: 'created_at' | 'updated_at' | 'name'
+  ascending: boolean
+}
+
+export interface CommandsRepository {
+  // Null when no command has the id
+  get(id: string): Promise<Command | null>
+  list(match: CommandMatch, sort?: CommandSort): Promise<Command[]>
+  count(match: CommandMatch): Promise<number>
+  // Commands per category slug, in every workspace
+  countByCategory(): Promise<Record<string, number>>
+  // The library listing, with its search syntax, tag filters and paging
+  search(filters: CommandFilters, cursor: CommandCursor | null, limit: number): Promise<CommandPage>
+  countSearch(filters: CommandFilters): Promise<number>
+  insert(command: CommandInsert): Promise<Command>
+  update(id: string, updates: CommandUpdate): Promise<Command>
+  // Returns the updated rows
+  updateWhere(match: CommandMatch, updates: CommandUpdate): Promise<Command[]>
+  remove(ids: string[]): Promise<void>
+  // Revisions, tags, favorites and collection entries of the commands go with
+  // them; runbook steps stay and lose the link to the command
+  removeWhere(match: CommandMatch): Promise<void>
+  // Bumps `copy_count` without racing other copies
+  recordCopy(id: string): Promise<void>
+  // Of `ids`, those a command already has in any workspace, including
+  // workspaces the user can't see
+  takenIds(ids: string[]): Promise<string[]>
+  // Writes a library import all at once or not at all. New commands are
+  // approved and authored by `authorId`.
+  importCommands(
+    workspaceId: string | null,
+    creates: ImportedCommand[],
+    updates: ImportedUpdate[],
+    authorId: string
+  ): Promise<{ created: Command[]; updated: Command[] }>
+}
+
+export interface ProfilesRepository {
+  // Null when no profile has the id
+  get(id: string): Promise<UserProfile | null>
+  // Matches the email address case-insensitively
+  findByEmail(email: string): Promise<UserProfile | null>
+  // Newest first, `limit` at a time from after `cursor`
+  list(cursor: ProfileCursor | null, limit: number): Promise<ProfilePage>
+  listByIds(ids: string[]): Promise<UserProfile[]>
+  // Profiles whose name or email contains `text`
+  search(text: string): Promise<UserProfile[]>
+  // Admins are counted by `roleOf`'s rule, including profiles from before
+  // roles that only carry `is_admin`
+  count(options?: { admins?: boolean }): Promise<number>
+  insert(profile: ProfileInsert): Promise<UserProfile>
+  update(id: string, updates: ProfileUpdate): Promise<UserProfile>
+  updateAllExcept(id: string, updates: ProfileUpdate): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+const local = backend === 'local' ? createLocalRepositories(localStorageStore) : null
+
+export const commandsRepository: CommandsRepository = local?.commands ?? supabaseCommands
+export const profilesRepository: ProfilesRepository = local?.profiles ?? supabaseProfiles
@@ -0,0 +1,108 @@
+import { supabase, Command, CommandRevision } from './supabase'
+import { sameVariants } from './shells'
+
+export const REVISION_FIELDS = ['name', 'description', 'command', 'category', 'variants'] as const
+
+export type RevisionField = typeof REVISION_FIELDS[number]
+
+export function changedFields(before: Pick<Command, RevisionField>, after: Partial<Pick<Command, RevisionField>>): RevisionField[] {
+  return REVISION_FIELDS.filter(field => {
+    if (after[field] === undefined) return false
+    return field === 'variants' ? !sameVariants(before.variants, after.variants) : after[field] !== before[field]
+  })
+}
+
+export async function fetchRevisions(commandId: string): Promise<CommandRevision[]> {
+  const { data, error } = await supabase
+    .from('command_revisions')
+    .select('*')
+    .eq('command_id', commandId)
+    .eq('status', 'applied')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function recordRevision(
+  command: Command,
+  fields: RevisionField[],
+  authorId: string,
+  restoredFrom: string | null = null
+) {
+  const { error } = await supabase
+    .from('command_revisions')
+    .insert(revisionRow(command, fields, authorId, restoredFrom))
+
+  if (error) throw error
+}
+
+// One revision per command, written in a single insert for bulk changes such
+// as moving a category's commands.
+export async function recordRevisions(commands: Command[], fields: RevisionField[], authorId: string) {
+  if (commands.length === 0) return
+
+  const { error } = await supabase
+    .from('command_revisions')
+    .insert(commands.map(command => revisionRow(command, fields, authorId)))
+
+  if (error) throw error
+}
+
+// Records an edit of an approved command for review instead of saving it:
+// the revision holds the command as it would be with `updates` applied.
+export async function proposeRevision(
+  command: Command,
+  updates: Partial<Pick<Command, RevisionField>>,
+  fields: RevisionField[],
+  authorId: string
+) {
+  const { error } = await supabase
+    .from('command_revisions')
+    .insert({ ...revisionRow({ ...command, ...updates }, fields, authorId), status: 'pending' })
+
+  if (error) throw error
+}
+
+function revisionRow(command: Command, fields: RevisionField[], authorId: string, restoredFrom: string | null = null) {
+  return {
+    command_id: command.id,
+    name: command.name,
+    description: command.description,
+    command: command.command,
+    category: command.category,
+    variants: command.variants ?? {},
+    changed_fields: fields,
+    restored_from: restoredFrom,
+    created_by: authorId,
+  }
+}
+
+// Commands created before revisions existed have no history yet, so the state
+// being overwritten is saved as their first revision.
+export async function ensureBaselineRevision(command: Command) {
+  const { count, error } = await supabase
+    .from('command_revisions')
+    .select('id', { count: 'exact', head: true })
+    .eq('command_id', command.id)
+    .eq('status', 'applied')
+
+  if (error) throw error
+  if (count) return
+
+  const { error: insertError } = await supabase
+    .from('command_revisions')
+    .insert({
+      command_id: command.id,
+      name: command.name,
+      description: command.description,
+      command: command.command,
+      category: command.category,
+      variants: command.variants ?? {},
+      changed_fields: [...REVISION_FIELDS],
+      created_by: command.created_by,
+      created_at: command.updated_at,
+    })
+
+  if (insertError) throw insertError
+}
@@ -0,0 +1,239 @@
+import { supabase, Command, Runbook, RunbookStep, RunbookRun, RunbookRunStatus, RunbookStepCompletion, Workspace } from './supabase'
+import { inWorkspace } from './workspaces'
+import { commandsRepository } from './repositories'
+
+export type RunbookInput = Pick<Runbook, 'title' | 'description'>
+
+// A step as edited in the form; `id` is missing until the step is saved.
+export type RunbookStepDraft = Pick<RunbookStep, 'title' | 'notes' | 'command_id' | 'inline_command'> & { id?: string }
+
+export const RUN_STATUS_LABELS: Record<RunbookRunStatus, string> = {
+  in_progress: 'In progress',
+  completed: 'Completed',
+  abandoned: 'Abandoned',
+}
+
+export const RUN_STATUS_STYLES: Record<RunbookRunStatus, string> = {
+  in_progress: 'bg-yellow-500/20 text-yellow-400',
+  completed: 'bg-green-500/20 text-green-400',
+  abandoned: 'bg-dark-600/50 text-dark-300',
+}
+
+// Library steps follow later edits of the command; a step whose command was
+// deactivated shows nothing rather than a stale copy.
+export function stepCommandText(step: Pick<RunbookStep, 'command_id' | 'inline_command'>, commands: Record<string, Command>): string {
+  if (step.command_id) return commands[step.command_id]?.command ?? ''
+  return step.inline_command ?? ''
+}
+
+// The approved, active commands a step can point at.
+export async function fetchLibraryCommands(workspace: Workspace | null): Promise<Command[]> {
+  return commandsRepository.list(
+    { workspace, isActive: true, status: 'approved' },
+    { column: 'name', ascending: true }
+  )
+}
+
+export async function fetchRunbooks(workspace: Workspace | null): Promise<Runbook[]> {
+  const { data, error } = await inWorkspace(supabase.from('runbooks').select('*'), workspace)
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function fetchRunbook(id: string): Promise<{ runbook: Runbook; steps: RunbookStep[] } | null> {
+  const { data: runbook, error } = await supabase
+    .from('runbooks')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!runbook) return null
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('runbook_steps')
+    .select('*')
+    .eq('runbook_id', id)
+    .order('position', { ascending: true })
+
+  if (stepsError) throw stepsError
+  return { runbook, steps: steps || [] }
+}
+
+export async function fetchStepCounts(): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('runbook_steps')
+    .select('runbook_id')
+
+  if (error) throw error
+
+  const counts: Record<string, number> = {}
+  for (const row of data || []) counts[row.runbook_id] = (counts[row.runbook_id] ?? 0) + 1
+  return counts
+}
+
+// Creates the runbook when `runbookId` is null. Steps are replaced wholesale:
+// removed steps are deleted together with their completion records.
+export async function saveRunbook(
+  runbookId: string | null,
+  input: RunbookInput,
+  steps: RunbookStepDraft[],
+  userId: string,
+  workspaceId: string | null = null
+): Promise<Runbook> {
+  const now = new Date().toISOString()
+  const { data: runbook, error } = runbookId
+    ? await supabase
+        .from('runbooks')
+        .update({ ...input, updated_at: now })
+        .eq('id', runbookId)
+        .select()
+        .single()
+    : await supabase
+        .from('runbooks')
+        .insert({ ...input, workspace_id: workspaceId, created_by: userId })
+        .select()
+        .single()
+
+  if (error) throw error
+
+  const { data: existing, error: existingError } = await supabase
+    .from('runbook_steps')
+    .select('id')
+    .eq('runbook_id', runbook.id)
+
+  if (existingError) throw existingError
+
+  const keptIds = steps.map(step => step.id).filter(Boolean)
+  const removedIds = (existing || []).map(step => step.id).filter(id => !keptIds.includes(id))
+
+  if (removedIds.length > 0) {
+    const { error: completionsError } = await supabase
+      .from('runbook_step_completions')
+      .delete()
+      .in('step_id', removedIds)
+
+    if (completionsError) throw completionsError
+
+    const { error: deleteError } = await supabase
+      .from('runbook_steps')
+      .delete()
+      .in('id', removedIds)
+
+    if (deleteError) throw deleteError
+  }
+
+  const rows = steps.map(({ id, ...step }, position) => ({
+    ...(id ? { id } : {}),
+    ...step,
+    command_id: step.command_id || null,
+    inline_command: step.command_id ? null : step.inline_command ?? '',
+    runbook_id: runbook.id,
+    position,
+  }))
+
+  const updates = rows.filter(row => 'id' in row)
+  const inserts = rows.filter(row => !('id' in row))
+
+  if (updates.length > 0) {
+    const { error: updateError } = await supabase.from('runbook_steps').upsert(updates)
+    if (updateError) throw updateError
+  }
+
+  if (inserts.length > 0) {
+    const { error: insertError } = await supabase.from('runbook_steps').insert(inserts)
+    if (insertError) throw insertError
+  }
+
+  return runbook
+}
+
+export async function deleteRunbook(runbookId: string) {
+  const { data: runs, error: runsError } = await supabase
+    .from('runbook_runs')
+    .select('id')
+    .eq('runbook_id', runbookId)
+
+  if (runsError) throw runsError
+
+  const runIds = (runs || []).map(run => run.id)
+  if (runIds.length > 0) {
+    const { error } = await supabase.from('runbook_step_completions').delete().in('run_id', runIds)
+    if (error) throw error
+  }
+
+  for (const table of ['runbook_runs', 'runbook_steps'] as const) {
+    const { error } = await supabase.from(table).delete().eq('runbook_id', runbookId)
+    if (error) throw error
+  }
+
+  const { error } = await supabase.from('runbooks').delete().eq('id', runbookId)
+  if (error) throw error
+}
+
+export async function fetchRuns(runbookId: string): Promise<RunbookRun[]> {
+  const { data, error } = await supabase
+    .from('runbook_runs')
+    .select('*')
+    .eq('runbook_id', runbookId)
+    .order('started_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function startRun(runbookId: string, userId: string): Promise<RunbookRun> {
+  const { data, error } = await supabase
+    .from('runbook_runs')
+    .insert({ runbook_id: runbookId, started_by: userId, status: 'in_progress' })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function finishRun(runId: string, status: Exclude<RunbookRunStatus, 'in_progress'>): Promise<RunbookRun> {
+  const { data, error } = await supabase
+    .from('runbook_runs')
+    .update({ status, finished_at: new Date().toISOString() })
+    .eq('id', runId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function fetchCompletions(runId: string): Promise<RunbookStepCompletion[]> {
+  const { data, error } = await supabase
+    .from('runbook_step_completions')
+    .select('*')
+    .eq('run_id', runId)
+
+  if (error) throw error
+  return data || []
+}
+
+export async function completeStep(runId: string, stepId: string, userId: string): Promise<RunbookStepCompletion> {
+  const { data, error } = await supabase
+    .from('runbook_step_completions')
+    .upsert({ run_id: runId, step_id: stepId, completed_by: userId, completed_at: new Date().toISOString() })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function uncompleteStep(runId: string, stepId: string) {
+  const { error } = await supabase
+    .from('runbook_step_completions')
+    .delete()
+    .eq('run_id', runId)
+    .eq('step_id', stepId)
+
+  if (error) throw error
+}
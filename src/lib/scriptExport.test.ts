@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { ScriptCommand, generateBashScript, generateMakefile, toVariableName, toTargetName } from './scriptExport'
+
+const generatedAt = new Date('2024-01-01T00:00:00Z')
+
+function command(overrides: Partial<ScriptCommand>): ScriptCommand {
+  return { name: 'Command', description: '', command: '', category: 'system', ...overrides }
+}
+
+describe('toVariableName', () => {
+  it('prefixes and upper-cases placeholder names', () => {
+    expect(toVariableName('host')).toBe('ARIOLA_HOST')
+    expect(toVariableName('containerName')).toBe('ARIOLA_CONTAINER_NAME')
+    expect(toVariableName('log_file2')).toBe('ARIOLA_LOG_FILE2')
+  })
+
+  it('keeps placeholders clear of the shell environment', () => {
+    for (const name of ['path', 'user', 'home', 'shell', 'PATH']) {
+      expect(['PATH', 'USER', 'HOME', 'SHELL']).not.toContain(toVariableName(name))
+    }
+  })
+})
+
+describe('toTargetName', () => {
+  it('turns command names into make targets', () => {
+    expect(toTargetName('Restart Nginx (prod)')).toBe('restart-nginx-prod')
+    expect(toTargetName('!!!')).toBe('command')
+  })
+})
+
+describe('generateBashScript', () => {
+  it('declares each placeholder once and quotes references', () => {
+    const script = generateBashScript([
+      command({ name: 'Copy', command: 'scp {{file}} {{user=root|Remote user}}@{{host}}:{{path=/tmp}}' }),
+      command({ name: 'Connect', command: 'ssh {{user}}@{{host}}' }),
+    ], { generatedAt })
+
+    expect(script).toContain(': "${ARIOLA_FILE:?ARIOLA_FILE is required}"')
+    expect(script).toContain('# Remote user\nARIOLA_USER="${ARIOLA_USER:-root}"')
+    expect(script).toContain('ARIOLA_PATH="${ARIOLA_PATH:-/tmp}"')
+    expect(script.match(/ARIOLA_HOST:\?/g)).toHaveLength(1)
+    expect(script).toContain('scp "${ARIOLA_FILE}" "${ARIOLA_USER}"@"${ARIOLA_HOST}":"${ARIOLA_PATH}"')
+    expect(script).not.toMatch(/^PATH=/m)
+  })
+
+  it('references placeholders inside quotes so they still expand', () => {
+    const script = generateBashScript([
+      command({ command: `echo '{{msg}}' "Host: {{host}}" 'a'{{tail}}` }),
+    ], { generatedAt })
+
+    expect(script).toContain(`echo ''"\${ARIOLA_MSG}"'' "Host: \${ARIOLA_HOST}" 'a'"\${ARIOLA_TAIL}"`)
+  })
+
+  it('escapes defaults for double quotes', () => {
+    const script = generateBashScript([command({ command: 'echo {{greeting=say "hi" $USER}}' })], { generatedAt })
+    expect(script).toContain('ARIOLA_GREETING="${ARIOLA_GREETING:-say \\"hi\\" \\$USER}"')
+  })
+
+  it('groups commands by category', () => {
+    const script = generateBashScript([
+      command({ name: 'Top', command: 'top', category: 'system' }),
+      command({ name: 'Ping', command: 'ping localhost', category: 'network' }),
+    ], { title: 'Ops', generatedAt })
+
+    expect(script.startsWith('#!/usr/bin/env bash\n# Ops\n# Generated by Ariola on 2024-01-01T00:00:00.000Z\n')).toBe(true)
+    expect(script.indexOf('# network')).toBeLessThan(script.indexOf('# system'))
+  })
+})
+
+describe('generateMakefile', () => {
+  it('declares overridable variables and requires the ones without defaults', () => {
+    const makefile = generateMakefile([
+      command({ name: 'Deploy', command: 'rsync -a {{path=./dist}} {{host}}:$HOME/app' }),
+    ], { generatedAt })
+
+    expect(makefile).toContain('export ARIOLA_PATH ?= ./dist')
+    expect(makefile).toContain('export ARIOLA_HOST ?=')
+    expect(makefile).toContain('deploy:\n\t$(call require,ARIOLA_HOST)\n\trsync -a "$${ARIOLA_PATH}" "$${ARIOLA_HOST}":$$HOME/app')
+    expect(makefile).not.toMatch(/^PATH \?=/m)
+  })
+
+  it('quotes references in recipes the way the bash script does', () => {
+    const makefile = generateMakefile([
+      command({ name: 'Grep', command: `grep '{{pattern}}' "{{file=a b.log}}"` }),
+    ], { generatedAt })
+
+    expect(makefile).toContain(`\tgrep ''"$\${ARIOLA_PATTERN}"'' "$\${ARIOLA_FILE}"`)
+  })
+
+  it('escapes defaults for make', () => {
+    const makefile = generateMakefile([command({ command: 'echo {{color=#fff}} {{home=$HOME}}' })], { generatedAt })
+    expect(makefile).toContain('export ARIOLA_COLOR ?= \\#fff')
+    expect(makefile).toContain('export ARIOLA_HOME ?= $$HOME')
+  })
+
+  it('gives duplicate names distinct targets', () => {
+    const makefile = generateMakefile([
+      command({ name: 'Help', command: 'man man' }),
+      command({ name: 'Help', command: 'info info' }),
+    ], { generatedAt })
+
+    expect(makefile).toContain('.PHONY: help help-2 help-3')
+  })
+})
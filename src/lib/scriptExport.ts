@@ -0,0 +1,202 @@
+import { Command } from './supabase'
+import { parseTemplate, replacePlaceholders, QuoteContext } from './templates'
+
+export type ScriptFormat = 'bash' | 'makefile'
+
+export type ScriptCommand = Pick<Command, 'name' | 'description' | 'command' | 'category'>
+
+export interface ScriptOptions {
+  title?: string
+  generatedAt?: Date
+}
+
+interface ScriptVariable {
+  name: string
+  defaultValue?: string
+  description?: string
+}
+
+export const SCRIPT_FORMATS: { id: ScriptFormat; name: string; filename: string }[] = [
+  { id: 'bash', name: 'Bash script', filename: 'commands.sh' },
+  { id: 'makefile', name: 'Makefile', filename: 'Makefile' },
+]
+
+export function generateScript(format: ScriptFormat, commands: ScriptCommand[], options: ScriptOptions = {}): string {
+  return format === 'bash' ? generateBashScript(commands, options) : generateMakefile(commands, options)
+}
+
+export function generateBashScript(commands: ScriptCommand[], options: ScriptOptions = {}): string {
+  const variables = collectVariables(commands)
+  const lines = [
+    '#!/usr/bin/env bash',
+    ...header(options),
+    'set -euo pipefail',
+  ]
+
+  if (variables.length > 0) {
+    lines.push('', '# Parameters (override through the environment)')
+    for (const variable of variables) {
+      if (variable.description) lines.push(`# ${variable.description}`)
+      lines.push(
+        variable.defaultValue === undefined
+          ? `: "\${${variable.name}:?${variable.name} is required}"`
+          : `${variable.name}="\${${variable.name}:-${escapeDoubleQuoted(variable.defaultValue)}}"`
+      )
+    }
+  }
+
+  for (const [category, group] of groupByCategory(commands)) {
+    lines.push('', '#'.repeat(60), `# ${category}`, '#'.repeat(60))
+
+    for (const command of group) {
+      lines.push('', ...comment(command.name), ...comment(command.description))
+      lines.push(substitute(command.command))
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+export function generateMakefile(commands: ScriptCommand[], options: ScriptOptions = {}): string {
+  const variables = collectVariables(commands)
+  const targets = uniqueTargets(commands)
+  const lines = [
+    ...header(options),
+    'SHELL := /bin/bash',
+    '.SHELLFLAGS := -euo pipefail -c',
+    '.ONESHELL:',
+    '.DEFAULT_GOAL := help',
+    '',
+    'require = $(if $($(1)),,$(error $(1) is required))',
+  ]
+
+  if (variables.length > 0) {
+    lines.push('')
+    for (const variable of variables) {
+      if (variable.description) lines.push(`# ${variable.description}`)
+      lines.push(`export ${variable.name} ?= ${escapeMake(variable.defaultValue ?? '')}`.trimEnd())
+    }
+  }
+
+  lines.push('', `.PHONY: help ${targets.join(' ')}`, '', 'help:')
+  lines.push('\t@echo "Available targets:"')
+  commands.forEach((command, index) => {
+    lines.push(`\t@echo "  ${targets[index]}${command.name ? ` - ${command.name.replace(/["$`\\]/g, '')}` : ''}"`)
+  })
+
+  for (const [category, group] of groupByCategory(commands)) {
+    lines.push('', `## ${category}`)
+
+    for (const command of group) {
+      const target = targets[commands.indexOf(command)]
+      const required = parseTemplate(command.command).placeholders
+        .filter(p => p.defaultValue === undefined)
+        .map(p => toVariableName(p.name))
+
+      lines.push('', ...comment(command.name), ...comment(command.description), `${target}:`)
+      for (const name of required) lines.push(`\t$(call require,${name})`)
+
+      // The variables are exported, so the recipe reads them from the
+      // environment the same way the bash script does
+      const recipe = substitute(command.command).replace(/\$/g, '$$$$')
+      for (const line of recipe.split('\n')) lines.push(`\t${line}`)
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+// Variables carry a prefix so placeholders such as {{path}} or {{user}} don't
+// pick up (or clobber) PATH, USER and the rest of the caller's environment.
+const VARIABLE_PREFIX = 'ARIOLA_'
+
+export function toVariableName(placeholder: string): string {
+  return VARIABLE_PREFIX + placeholder
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9_]/g, '_')
+    .toUpperCase()
+}
+
+export function toTargetName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'command'
+}
+
+function header({ title, generatedAt = new Date() }: ScriptOptions): string[] {
+  return [
+    ...(title ? [`# ${title}`] : []),
+    `# Generated by Ariola on ${generatedAt.toISOString()}`,
+    '',
+  ]
+}
+
+function comment(text: string): string[] {
+  return text.trim() ? text.trim().split('\n').map(line => `# ${line}`.trimEnd()) : []
+}
+
+function groupByCategory(commands: ScriptCommand[]): [string, ScriptCommand[]][] {
+  const groups = new Map<string, ScriptCommand[]>()
+  for (const command of commands) {
+    const category = command.category || 'uncategorized'
+    groups.set(category, [...(groups.get(category) ?? []), command])
+  }
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b))
+}
+
+function uniqueTargets(commands: ScriptCommand[]): string[] {
+  const used = new Set(['help'])
+  return commands.map(command => {
+    const base = toTargetName(command.name)
+    let target = base
+    for (let n = 2; used.has(target); n++) target = `${base}-${n}`
+    used.add(target)
+    return target
+  })
+}
+
+// Placeholders shared by several commands become a single variable; the first
+// default or description found wins.
+function collectVariables(commands: ScriptCommand[]): ScriptVariable[] {
+  const variables = new Map<string, ScriptVariable>()
+  for (const command of commands) {
+    for (const placeholder of parseTemplate(command.command).placeholders) {
+      const name = toVariableName(placeholder.name)
+      const existing = variables.get(name)
+      variables.set(name, {
+        name,
+        defaultValue: existing?.defaultValue ?? placeholder.defaultValue,
+        description: existing?.description ?? placeholder.description,
+      })
+    }
+  }
+  return [...variables.values()]
+}
+
+// Replaces placeholders with references to their variables that expand to
+// exactly the value: quoted as a word of their own, bare inside double quotes,
+// and by stepping out of single quotes, where nothing expands.
+function substitute(template: string): string {
+  return replacePlaceholders(template, (name, context) => reference(toVariableName(name), context))
+}
+
+function reference(variable: string, context: QuoteContext): string {
+  switch (context) {
+    case 'single':
+      return `'"\${${variable}}"'`
+    case 'double':
+      return `\${${variable}}`
+    default:
+      return `"\${${variable}}"`
+  }
+}
+
+// Make expands `$` and starts a comment at `#` in variable assignments
+function escapeMake(value: string): string {
+  return value.replace(/\$/g, '$$$$').replace(/#/g, '\\#')
+}
+
+function escapeDoubleQuoted(value: string): string {
+  return value.replace(/["\\$`]/g, '\\$&')
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import { Command } from './supabase'
+import { parseQuery, isEmptyQuery, searchCommands, editDistance, mergeRanges } from './search'
+
+function command(overrides: Partial<Command>): Command {
+  return {
+    id: overrides.name ?? 'id',
+    name: '',
+    description: '',
+    command: '',
+    category: 'system',
+    created_by: 'user-1',
+    ...overrides,
+  } as Command
+}
+
+describe('parseQuery', () => {
+  it('splits bare words into terms', () => {
+    expect(parseQuery('Docker  logs')).toEqual({ terms: ['docker', 'logs'], phrases: [], excluded: [], filters: [] })
+  })
+
+  it('keeps quoted phrases together', () => {
+    const query = parseQuery('"tail -f" logs')
+    expect(query.phrases).toEqual(['tail -f'])
+    expect(query.terms).toEqual(['logs'])
+  })
+
+  it('accepts an unterminated quote as a phrase to the end', () => {
+    expect(parseQuery('"exact phrase').phrases).toEqual(['exact phrase'])
+  })
+
+  it('excludes words and phrases prefixed with a minus', () => {
+    const query = parseQuery('logs -docker -"kube ctl"')
+    expect(query.terms).toEqual(['logs'])
+    expect(query.excluded).toEqual(['docker', 'kube ctl'])
+  })
+
+  it('reads known field prefixes as filters', () => {
+    expect(parseQuery('category:Network author:me tag:#docker').filters).toEqual([
+      { key: 'category', value: 'network', negated: false },
+      { key: 'author', value: 'me', negated: false },
+      { key: 'tag', value: '#docker', negated: false },
+    ])
+  })
+
+  it('negates filters prefixed with a minus', () => {
+    expect(parseQuery('-category:network').filters).toEqual([{ key: 'category', value: 'network', negated: true }])
+  })
+
+  it('accepts quoted filter values', () => {
+    expect(parseQuery('author:"Ada Lovelace"').filters).toEqual([{ key: 'author', value: 'ada lovelace', negated: false }])
+  })
+
+  it('searches for unknown prefixes as text', () => {
+    const query = parseQuery('http://example.com')
+    expect(query.filters).toEqual([])
+    expect(query.terms).toEqual(['http://example.com'])
+  })
+
+  it('is empty when there is nothing to search for', () => {
+    expect(isEmptyQuery(parseQuery('   '))).toBe(true)
+    expect(isEmptyQuery(parseQuery('-docker'))).toBe(false)
+  })
+})
+
+describe('searchCommands', () => {
+  const search = (commands: Command[], input: string, context = {}) =>
+    searchCommands(commands, parseQuery(input), context).map(result => result.command.name)
+
+  it('ranks name matches above description and command matches', () => {
+    const commands = [
+      command({ name: 'List files', command: 'ls docker' }),
+      command({ name: 'Show containers', description: 'What docker is running' }),
+      command({ name: 'Docker logs', command: 'docker logs -f' }),
+    ]
+    expect(search(commands, 'docker')).toEqual(['Docker logs', 'Show containers', 'List files'])
+  })
+
+  it('ranks an exact name first', () => {
+    const commands = [
+      command({ name: 'Disk usage by folder' }),
+      command({ name: 'Disk usage' }),
+    ]
+    expect(search(commands, 'disk usage')).toEqual(['Disk usage', 'Disk usage by folder'])
+  })
+
+  it('ranks word starts above matches inside words and typos last', () => {
+    const commands = [
+      command({ name: 'Restart nginx' }),
+      command({ name: 'Prestart hook' }),
+      command({ name: 'Retsart service' }),
+    ]
+    expect(search(commands, 'restart')).toEqual(['Restart nginx', 'Prestart hook', 'Retsart service'])
+  })
+
+  it('tolerates typos only in longer words', () => {
+    const commands = [command({ name: 'Kubernetes pods' }), command({ name: 'Get ip' })]
+    expect(search(commands, 'kubernetse')).toEqual(['Kubernetes pods'])
+    expect(search(commands, 'ipp')).toEqual([])
+  })
+
+  it('requires every term and phrase', () => {
+    const commands = [command({ name: 'Docker logs' }), command({ name: 'Docker ps' })]
+    expect(search(commands, 'docker logs')).toEqual(['Docker logs'])
+    expect(search(commands, '"docker ps"')).toEqual(['Docker ps'])
+  })
+
+  it('leaves out excluded text', () => {
+    const commands = [command({ name: 'Docker logs' }), command({ name: 'Journal logs' })]
+    expect(search(commands, 'logs -docker')).toEqual(['Journal logs'])
+  })
+
+  it('applies category, author and tag filters', () => {
+    const commands = [
+      command({ id: 'a', name: 'Ping', category: 'network', created_by: 'user-1' }),
+      command({ id: 'b', name: 'Top', category: 'system', created_by: 'user-2' }),
+    ]
+    const context = { userId: 'user-2', authorNames: { 'user-1': 'Ada Lovelace' }, tags: { a: ['icmp'] } }
+
+    expect(search(commands, 'category:network', context)).toEqual(['Ping'])
+    expect(search(commands, '-category:network', context)).toEqual(['Top'])
+    expect(search(commands, 'author:me', context)).toEqual(['Top'])
+    expect(search(commands, 'author:ada', context)).toEqual(['Ping'])
+    expect(search(commands, 'tag:#icmp', context)).toEqual(['Ping'])
+  })
+
+  it('reports where each field matched', () => {
+    const [result] = searchCommands([command({ name: 'Docker logs', command: 'docker logs -f' })], parseQuery('logs'))
+    expect(result.matches.name).toEqual([[7, 11]])
+    expect(result.matches.command).toEqual([[7, 11]])
+  })
+})
+
+describe('editDistance', () => {
+  it('counts adjacent transpositions as one edit', () => {
+    expect(editDistance('restart', 'retsart')).toBe(1)
+    expect(editDistance('docker', 'docker')).toBe(0)
+    expect(editDistance('kitten', 'sitting')).toBe(3)
+  })
+})
+
+describe('mergeRanges', () => {
+  it('merges overlapping and touching ranges in order', () => {
+    expect(mergeRanges([[5, 8], [0, 2], [1, 3], [8, 10]])).toEqual([[0, 3], [5, 10]])
+  })
+})
@@ -0,0 +1,247 @@
+import { Command } from './supabase'
+
+// Query syntax:
+//   docker logs          every word must match (typos are tolerated)
+//   "exact phrase"       must appear verbatim
+//   -docker  -"a b"      must not appear
+//   category:network     field filter; `-category:network` negates it
+//   author:me            commands created by the signed-in user
+//   tag:docker           commands carrying the tag
+
+export interface QueryFilter {
+  key: string
+  value: string
+  negated: boolean
+}
+
+export interface ParsedQuery {
+  terms: string[]
+  phrases: string[]
+  excluded: string[]
+  filters: QueryFilter[]
+}
+
+export type MatchRange = [start: number, end: number]
+
+export type SearchField = 'name' | 'description' | 'command' | 'category'
+
+export interface SearchResult<T extends Command = Command> {
+  command: T
+  score: number
+  matches: Record<SearchField, MatchRange[]>
+}
+
+export interface SearchContext {
+  userId?: string
+  authorNames?: Record<string, string>
+  tags?: Record<string, string[]>
+}
+
+export const FILTER_KEYS = ['category', 'author', 'tag'] as const
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 4,
+  category: 2,
+  description: 1.5,
+  command: 1,
+}
+
+const TOKEN_PATTERN = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S+))/g
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu
+
+export function parseQuery(input: string): ParsedQuery {
+  const query: ParsedQuery = { terms: [], phrases: [], excluded: [], filters: [] }
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, key, quoted, bare] = match
+    const negated = minus === '-'
+    const value = (quoted ?? bare ?? '').trim().toLowerCase()
+    const filterKey = key?.toLowerCase()
+
+    if (filterKey && (FILTER_KEYS as readonly string[]).includes(filterKey)) {
+      if (value) query.filters.push({ key: filterKey, value, negated })
+      continue
+    }
+
+    // An unknown `key:` prefix is just part of the text being searched for
+    const text = key ? raw.slice(minus.length).toLowerCase().replace(/"/g, '') : value
+    if (!text) continue
+
+    if (negated) {
+      query.excluded.push(text)
+    } else if (quoted !== undefined && !key) {
+      query.phrases.push(text)
+    } else {
+      query.terms.push(text)
+    }
+  }
+
+  return query
+}
+
+export function isEmptyQuery(query: ParsedQuery): boolean {
+  return query.terms.length === 0 && query.phrases.length === 0 && query.excluded.length === 0 && query.filters.length === 0
+}
+
+export function searchCommands<T extends Command>(
+  commands: T[],
+  query: ParsedQuery,
+  context: SearchContext = {}
+): SearchResult<T>[] {
+  const results: SearchResult<T>[] = []
+
+  for (const command of commands) {
+    const result = scoreCommand(command, query, context)
+    if (result) results.push(result)
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep the incoming order
+  return results.sort((a, b) => b.score - a.score)
+}
+
+function scoreCommand<T extends Command>(command: T, query: ParsedQuery, context: SearchContext): SearchResult<T> | null {
+  if (!query.filters.every(filter => matchesFilter(command, filter, context) !== filter.negated)) {
+    return null
+  }
+
+  const fields: Record<SearchField, string> = {
+    name: command.name,
+    description: command.description,
+    command: command.command,
+    category: command.category,
+  }
+  const lowered = Object.fromEntries(
+    Object.entries(fields).map(([field, text]) => [field, text.toLowerCase()])
+  ) as Record<SearchField, string>
+  const matches: Record<SearchField, MatchRange[]> = { name: [], description: [], command: [], category: [] }
+  const allFields = Object.keys(fields) as SearchField[]
+
+  if (query.excluded.some(text => allFields.some(field => lowered[field].includes(text)))) {
+    return null
+  }
+
+  let score = 0
+
+  for (const phrase of query.phrases) {
+    let best = 0
+    for (const field of allFields) {
+      const ranges = findAll(lowered[field], phrase)
+      if (ranges.length === 0) continue
+      matches[field].push(...ranges)
+      best = Math.max(best, FIELD_WEIGHTS[field] * 1.5)
+    }
+    if (best === 0) return null
+    score += best
+  }
+
+  for (const term of query.terms) {
+    let best = 0
+    for (const field of allFields) {
+      const { ranges, quality } = matchTerm(fields[field], lowered[field], term)
+      if (ranges.length === 0) continue
+      matches[field].push(...ranges)
+      best = Math.max(best, FIELD_WEIGHTS[field] * quality)
+    }
+    if (best === 0) return null
+    score += best
+  }
+
+  const needle = [...query.phrases, ...query.terms].join(' ')
+  if (needle && lowered.name === needle) score += FIELD_WEIGHTS.name * 2
+
+  return { command, score, matches }
+}
+
+function matchesFilter(command: Command, filter: QueryFilter, context: SearchContext): boolean {
+  switch (filter.key) {
+    case 'category':
+      return command.category.toLowerCase() === filter.value
+    case 'author': {
+      if (filter.value === 'me') return !!context.userId && command.created_by === context.userId
+      if (!command.created_by) return false
+      const name = context.authorNames?.[command.created_by]?.toLowerCase() ?? ''
+      return command.created_by.startsWith(filter.value) || (!!name && name.includes(filter.value))
+    }
+    case 'tag':
+      return context.tags?.[command.id]?.includes(filter.value.replace(/^#/, '')) ?? false
+    default:
+      return true
+  }
+}
+
+// Exact substrings rank highest, then matches at the start of a word, then
+// words within the typo budget for the term's length.
+function matchTerm(text: string, lowered: string, term: string): { ranges: MatchRange[]; quality: number } {
+  const exact = findAll(lowered, term)
+  if (exact.length > 0) {
+    const atWordStart = exact.some(([start]) => start === 0 || !/[\p{L}\p{N}_]/u.test(lowered[start - 1]))
+    return { ranges: exact, quality: atWordStart ? 1 : 0.8 }
+  }
+
+  const budget = typoBudget(term)
+  if (budget === 0) return { ranges: [], quality: 0 }
+
+  const ranges: MatchRange[] = []
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    const candidate = word[0].toLowerCase()
+    const prefix = candidate.slice(0, term.length + 1)
+    if (
+      editDistance(term, candidate) <= budget ||
+      (candidate.length > term.length && editDistance(term, prefix) <= budget)
+    ) {
+      ranges.push([word.index!, word.index! + word[0].length])
+    }
+  }
+
+  return { ranges, quality: ranges.length > 0 ? 0.5 : 0 }
+}
+
+function typoBudget(term: string): number {
+  if (term.length <= 3) return 0
+  if (term.length <= 6) return 1
+  return 2
+}
+
+function findAll(haystack: string, needle: string): MatchRange[] {
+  const ranges: MatchRange[] = []
+  if (!needle) return ranges
+
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    ranges.push([index, index + needle.length])
+  }
+  return ranges
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions.
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)])
+  for (let j = 0; j < cols; j++) d[0][j] = j
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  return d[a.length][b.length]
+}
+
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: MatchRange[] = []
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+  return merged
+}
@@ -0,0 +1,60 @@
+import { supabase, Json } from './supabase'
+import { LintConfig, DEFAULT_LINT_CONFIG } from './commandLint'
+
+// Adding a setting means adding its key here and a default below; boolean
+// settings also get a definition so they show up as a toggle. Rows missing
+// from `app_settings` fall back to the default.
+export interface AppSettings {
+  allow_registration: boolean
+  require_command_approval: boolean
+  lint_rules: LintConfig
+}
+
+export type SettingKey = keyof AppSettings
+
+export type ToggleSettingKey = { [K in SettingKey]: AppSettings[K] extends boolean ? K : never }[SettingKey]
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  allow_registration: true,
+  require_command_approval: false,
+  lint_rules: DEFAULT_LINT_CONFIG,
+}
+
+export const SETTING_DEFINITIONS: Record<ToggleSettingKey, { label: string; description: string }> = {
+  allow_registration: {
+    label: 'Allow User Registration',
+    description: 'Enable new users to register accounts',
+  },
+  require_command_approval: {
+    label: 'Command Approval Required',
+    description: 'New commands require admin approval',
+  },
+}
+
+export async function fetchSettings(): Promise<AppSettings> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('key, value')
+
+  if (error) throw error
+
+  const stored = Object.fromEntries(
+    (data || [])
+      .filter(row => row.key in DEFAULT_SETTINGS)
+      .map(row => [row.key, row.value])
+  )
+  return { ...DEFAULT_SETTINGS, ...stored }
+}
+
+export async function saveSetting<K extends SettingKey>(key: K, value: AppSettings[K], userId: string) {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({
+      key,
+      value: value as Json,
+      updated_at: new Date().toISOString(),
+      updated_by: userId,
+    })
+
+  if (error) throw error
+}
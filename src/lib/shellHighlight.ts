@@ -0,0 +1,163 @@
+import { Shell } from './supabase'
+
+// A small, forgiving tokenizer for syntax highlighting. It never rejects
+// input: anything it does not recognise comes back as plain text, so an
+// unterminated quote or a typo only affects colouring.
+
+export type ShellTokenType =
+  | 'text'
+  | 'command'
+  | 'keyword'
+  | 'flag'
+  | 'string'
+  | 'variable'
+  | 'operator'
+  | 'comment'
+  | 'placeholder'
+
+export interface ShellToken {
+  type: ShellTokenType
+  text: string
+}
+
+interface ShellSyntax {
+  keywords: Set<string>
+  caseInsensitive: boolean
+  escape: string
+  variable: RegExp
+}
+
+const POSIX_KEYWORDS = [
+  'if', 'then', 'else', 'elif', 'fi', 'for', 'in', 'while', 'until', 'do', 'done',
+  'case', 'esac', 'function', 'select', 'time', '!', '[[', ']]',
+]
+
+const POSIX_VARIABLE = /^\$(?:\{[^}]*\}|[A-Za-z_][A-Za-z0-9_]*|[0-9?#@*$!-])/
+
+const SYNTAX: Record<Shell, ShellSyntax> = {
+  bash: { keywords: new Set(POSIX_KEYWORDS), caseInsensitive: false, escape: '\\', variable: POSIX_VARIABLE },
+  zsh: { keywords: new Set([...POSIX_KEYWORDS, 'foreach', 'end', 'repeat']), caseInsensitive: false, escape: '\\', variable: POSIX_VARIABLE },
+  fish: {
+    keywords: new Set(['if', 'else', 'end', 'for', 'in', 'while', 'function', 'switch', 'case', 'begin', 'and', 'or', 'not', 'return', 'break', 'continue']),
+    caseInsensitive: false,
+    escape: '\\',
+    variable: /^\$[A-Za-z_][A-Za-z0-9_]*/,
+  },
+  powershell: {
+    keywords: new Set([
+      'if', 'elseif', 'else', 'foreach', 'for', 'in', 'while', 'do', 'until', 'switch', 'function', 'filter',
+      'param', 'begin', 'process', 'end', 'return', 'break', 'continue', 'try', 'catch', 'finally', 'throw', 'trap',
+    ]),
+    caseInsensitive: true,
+    escape: '`',
+    variable: /^\$(?:\{[^}]*\}|(?:[A-Za-z_][A-Za-z0-9_]*:)?[A-Za-z_][A-Za-z0-9_]*|[?$^_])/,
+  },
+}
+
+// Keywords that are followed by a loop variable or subject and then `in`
+const IN_KEYWORDS = new Set(['for', 'foreach', 'case', 'select'])
+
+// Keywords after which the next word is an argument rather than a command
+const ARGUMENT_KEYWORDS = new Set(['for', 'foreach', 'in', 'case', 'switch', 'function', 'filter', 'select', 'param'])
+
+// Commands that run the word after them as another command
+const PREFIX_COMMANDS = new Set(['sudo', 'doas', 'env', 'nohup', 'exec', 'xargs', 'watch', 'command', 'builtin', 'nice', 'time'])
+
+// Separators that start a new command, as opposed to redirections
+const COMMAND_SEPARATORS = new Set(['|', '||', '&&', ';', ';;', '&', '(', '{', '$(', '`'])
+
+const OPERATOR = /^(?:\$\(|&&|\|\||;;|\d*>>?(?:&\d+)?|&>|<<?|[|;&(){}`])/
+const PLACEHOLDER = /^\{\{[^{}]*\}\}/
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)(=)/
+const WORD = /^(?:\\.|[^\s'"$|;&<>(){}`\\])+/
+
+export function tokenizeShell(source: string, shell: Shell): ShellToken[] {
+  const syntax = SYNTAX[shell]
+  const tokens: ShellToken[] = []
+  let expectCommand = true
+  let awaitingIn = false
+  let i = 0
+
+  const push = (type: ShellTokenType, text: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last && last.type === type && type === 'text') {
+      last.text += text
+    } else {
+      tokens.push({ type, text })
+    }
+    i += text.length
+  }
+
+  while (i < source.length) {
+    const rest = source.slice(i)
+    const char = source[i]
+    const atWordStart = i === 0 || /[\s;&|(]/.test(source[i - 1])
+    let match: RegExpExecArray | null
+
+    if ((match = /^\s+/.exec(rest))) {
+      if (match[0].includes('\n') && !source.slice(0, i).trimEnd().endsWith(syntax.escape)) expectCommand = true
+      push('text', match[0])
+    } else if (rest.startsWith('\\{{')) {
+      push('text', '\\{{')
+    } else if ((match = PLACEHOLDER.exec(rest))) {
+      push('placeholder', match[0])
+      expectCommand = false
+    } else if (shell === 'powershell' && rest.startsWith('<#')) {
+      const end = rest.indexOf('#>')
+      push('comment', end === -1 ? rest : rest.slice(0, end + 2))
+    } else if (char === '#' && atWordStart) {
+      const end = rest.indexOf('\n')
+      push('comment', end === -1 ? rest : rest.slice(0, end))
+    } else if (char === '\'' || char === '"') {
+      push('string', readQuoted(rest, char === '"' ? syntax.escape : null))
+      expectCommand = false
+    } else if (char === '$' && !rest.startsWith('$(') && (match = syntax.variable.exec(rest))) {
+      push('variable', match[0])
+      expectCommand = false
+    } else if (expectCommand && shell !== 'powershell' && (match = ASSIGNMENT.exec(rest))) {
+      // FOO=bar cmd: the value is read as an ordinary argument, then the
+      // command is still to come
+      push('variable', match[1])
+      push('operator', match[2])
+      const value = /^(?:'[^']*'|"(?:\\.|[^"\\])*"|[^\s;&|])*/.exec(source.slice(i))![0]
+      if (value) push(/^['"]/.test(value) ? 'string' : 'text', value)
+    } else if (shell === 'powershell' && char === '`') {
+      push('text', rest.slice(0, 2))
+    } else if ((match = OPERATOR.exec(rest))) {
+      push('operator', match[0])
+      if (COMMAND_SEPARATORS.has(match[0])) expectCommand = true
+    } else if ((match = WORD.exec(rest))) {
+      const word = match[0]
+      const key = syntax.caseInsensitive ? word.toLowerCase() : word
+
+      if (syntax.keywords.has(key) && (expectCommand || (awaitingIn && key === 'in'))) {
+        push('keyword', word)
+        expectCommand = !ARGUMENT_KEYWORDS.has(key)
+        awaitingIn = IN_KEYWORDS.has(key)
+      } else if (expectCommand) {
+        push('command', word)
+        expectCommand = PREFIX_COMMANDS.has(word)
+      } else {
+        push(word.length > 1 && word.startsWith('-') ? 'flag' : 'text', word)
+      }
+    } else {
+      push('text', char)
+    }
+  }
+
+  return tokens
+}
+
+// Reads a quoted string up to its closing quote, or to the end of the input
+// if it is never closed. Single quotes take no escapes.
+function readQuoted(rest: string, escape: string | null): string {
+  const quote = rest[0]
+  for (let j = 1; j < rest.length; j++) {
+    if (escape && rest[j] === escape) {
+      j++
+    } else if (rest[j] === quote) {
+      return rest.slice(0, j + 1)
+    }
+  }
+  return rest
+}
@@ -0,0 +1,54 @@
+import { Command, CommandVariants, Shell } from './supabase'
+
+export const SHELLS: Shell[] = ['bash', 'zsh', 'fish', 'powershell']
+
+// The base `command` text is bash; every other shell falls back to it
+export const DEFAULT_SHELL: Shell = 'bash'
+
+export const SHELL_LABELS: Record<Shell, string> = {
+  bash: 'Bash',
+  zsh: 'Zsh',
+  fish: 'Fish',
+  powershell: 'PowerShell',
+}
+
+export const SHELL_PLATFORMS: Record<Shell, string> = {
+  bash: 'Linux',
+  zsh: 'macOS',
+  fish: 'Linux / macOS',
+  powershell: 'Windows',
+}
+
+export function isShell(value: unknown): value is Shell {
+  return SHELLS.includes(value as Shell)
+}
+
+// A first guess for visitors without a saved preference.
+export function detectShell(): Shell {
+  const platform = typeof navigator === 'undefined' ? '' : navigator.userAgent
+  if (/Windows/i.test(platform)) return 'powershell'
+  if (/Mac OS X|Macintosh/i.test(platform)) return 'zsh'
+  return DEFAULT_SHELL
+}
+
+// The text to show and copy for `shell`, and the shell it is written for,
+// which is bash whenever the command has no variant of its own.
+export function commandForShell(command: Pick<Command, 'command' | 'variants'>, shell: Shell): { text: string; shell: Shell } {
+  const variant = command.variants?.[shell]
+  return variant ? { text: variant, shell } : { text: command.command, shell: DEFAULT_SHELL }
+}
+
+// Compares variants shell by shell, since stored key order isn't kept.
+export function sameVariants(a: CommandVariants | undefined, b: CommandVariants | undefined): boolean {
+  return SHELLS.every(shell => (a?.[shell] ?? '') === (b?.[shell] ?? ''))
+}
+
+// Drops blank variants and any that only repeat the base command.
+export function cleanVariants(variants: CommandVariants, base: string): CommandVariants {
+  return Object.fromEntries(
+    SHELLS
+      .filter(shell => shell !== DEFAULT_SHELL)
+      .map(shell => [shell, variants[shell]?.trim() ?? ''])
+      .filter(([, text]) => text && text !== base.trim())
+  )
+}
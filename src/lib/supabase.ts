@@ -1,13 +1,95 @@
 import { createClient } from '@supabase/supabase-js'
+import { connectivityFetch } from './connectivity'
+import { backend } from './backend'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
+if (backend === 'supabase' && (!supabaseUrl || !supabaseAnonKey)) {
   throw new Error('Missing Supabase environment variables')
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// With the local backend there may be no Supabase project at all. Tables
+// that have no local repository read as empty and writes to them are
+// dropped, so the features built on them stay out of the way. Answers are
+// shaped like PostgREST's: `.single()` on a read fails as it would on an
+// empty table, writes that ask for their rows back get the rows they sent,
+// and functions return nothing.
+const discardingFetch: typeof fetch = async (input, init) => {
+  const headers = new Headers(init?.headers)
+  const method = (init?.method ?? 'GET').toUpperCase()
+  const url = new URL(input instanceof Request ? input.url : String(input))
+  const isFunction = url.pathname.includes('/rpc/')
+  const wantsObject = headers.get('Accept')?.startsWith('application/vnd.pgrst.object+json') ?? false
+
+  let rows: unknown[] = []
+  const returnsRows = headers.get('Prefer')?.includes('return=representation') ?? false
+  if (!isFunction && method !== 'GET' && method !== 'HEAD' && returnsRows && typeof init?.body === 'string') {
+    const sent = JSON.parse(init.body)
+    rows = Array.isArray(sent) ? sent : [sent]
+  }
+
+  if (wantsObject && !isFunction && rows.length !== 1) {
+    return jsonResponse(406, {
+      code: 'PGRST116',
+      details: `The result contains ${rows.length} rows`,
+      hint: null,
+      message: 'JSON object requested, multiple (or no) rows returned',
+    })
+  }
+
+  return jsonResponse(200, isFunction ? null : wantsObject ? rows[0] : rows, rows.length)
+}
+
+function jsonResponse(status: number, body: unknown, count = 0): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Content-Range': count > 0 ? `0-${count - 1}/${count}` : '*/0' },
+  })
+}
+
+export const supabase = createClient<Database>(supabaseUrl || 'http://localhost', supabaseAnonKey || 'local', {
+  global: { fetch: backend === 'local' ? discardingFetch : connectivityFetch },
+})
+
+export type CommandStatus = 'pending' | 'approved' | 'rejected' | 'changes_requested'
+
+// 'applied' revisions are the command's history. Where approval is required,
+// edits to approved commands wait as 'pending' revisions until reviewed.
+export type RevisionStatus = 'applied' | 'pending' | 'rejected'
+
+export type CollectionVisibility = 'private' | 'shared'
+
+export type RunbookRunStatus = 'in_progress' | 'completed' | 'abandoned'
+
+export type UserRole = 'viewer' | 'contributor' | 'moderator' | 'admin'
+
+export type Shell = 'bash' | 'zsh' | 'fish' | 'powershell'
+
+// Per-shell rewrites of `commands.command`, which is written for bash
+export type CommandVariants = Partial<Record<Shell, string>>
+
+// The library query as the search_commands and count_commands functions take
+// it. Text is lower-cased, as `parseQuery` leaves it.
+export type CommandSearchArgs = {
+  // Null searches every workspace
+  workspace?: string | null
+  // Also match commands from before workspaces, which belong to the default one
+  include_unassigned?: boolean
+  library_only?: boolean
+  category_slug?: string | null
+  tag_names?: string[] | null
+  tag_mode?: 'and' | 'or'
+  favorites_of?: string | null
+  collection?: string | null
+  terms?: string[]
+  phrases?: string[]
+  excluded?: string[]
+  // category:, author: and tag: filters; `author:me` is the signed-in user
+  field_filters?: { key: string; value: string; negated: boolean }[]
+}
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
 
 export type Database = {
   public: {
@@ -21,8 +103,18 @@ export type Database = {
           category: string
           created_at: string
           updated_at: string
-          created_by: string
+          // null once the author has deleted their account
+          created_by: string | null
           is_active: boolean
+          status: CommandStatus
+          reviewed_by: string | null
+          reviewed_at: string | null
+          review_note: string | null
+          variants: CommandVariants
+          // null for commands from before workspaces, which belong to the default one
+          workspace_id: string | null
+          // Bumped by the increment_copy_count function, never written directly
+          copy_count: number
         }
         Insert: {
           id?: string
@@ -34,6 +126,13 @@ export type Database = {
           updated_at?: string
           created_by: string
           is_active?: boolean
+          status?: CommandStatus
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_note?: string | null
+          variants?: CommandVariants
+          workspace_id?: string | null
+          copy_count?: number
         }
         Update: {
           id?: string
@@ -43,16 +142,454 @@ export type Database = {
           category?: string
           created_at?: string
           updated_at?: string
-          created_by?: string
+          created_by?: string | null
           is_active?: boolean
+          status?: CommandStatus
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_note?: string | null
+          variants?: CommandVariants
+          workspace_id?: string | null
+          copy_count?: number
+        }
+        Relationships: []
+      }
+      command_revisions: {
+        Row: {
+          id: string
+          command_id: string
+          name: string
+          description: string
+          command: string
+          category: string
+          variants: CommandVariants
+          changed_fields: string[]
+          restored_from: string | null
+          // null once the author has deleted their account
+          created_by: string | null
+          created_at: string
+          status: RevisionStatus
+          reviewed_by: string | null
+          reviewed_at: string | null
+          review_note: string | null
+        }
+        Insert: {
+          id?: string
+          command_id: string
+          name: string
+          description: string
+          command: string
+          category: string
+          variants?: CommandVariants
+          changed_fields: string[]
+          restored_from?: string | null
+          created_by: string | null
+          created_at?: string
+          status?: RevisionStatus
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_note?: string | null
+        }
+        Update: {
+          id?: string
+          command_id?: string
+          name?: string
+          description?: string
+          command?: string
+          category?: string
+          variants?: CommandVariants
+          changed_fields?: string[]
+          restored_from?: string | null
+          created_by?: string | null
+          created_at?: string
+          status?: RevisionStatus
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_note?: string | null
+        }
+        Relationships: []
+      }
+      audit_logs: {
+        Row: {
+          id: string
+          actor_id: string
+          actor_email: string
+          action: string
+          target_type: string
+          target_id: string | null
+          before: Json | null
+          after: Json | null
+          // Server time of the insert
+          created_at: string
+          // When the action happened by the browser's clock, which only matters
+          // for entries that were queued offline and sent later
+          occurred_at: string | null
+        }
+        Insert: {
+          id?: string
+          actor_id: string
+          actor_email: string
+          action: string
+          target_type: string
+          target_id?: string | null
+          before?: Json | null
+          after?: Json | null
+          created_at?: string
+          occurred_at?: string | null
+        }
+        Update: {
+          id?: string
+          actor_id?: string
+          actor_email?: string
+          action?: string
+          target_type?: string
+          target_id?: string | null
+          before?: Json | null
+          after?: Json | null
+          created_at?: string
+          occurred_at?: string | null
+        }
+        Relationships: []
+      }
+      app_settings: {
+        Row: {
+          key: string
+          value: Json
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          key: string
+          value: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          key?: string
+          value?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          id: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      command_tags: {
+        Row: {
+          command_id: string
+          tag_id: string
+          created_at: string
+        }
+        Insert: {
+          command_id: string
+          tag_id: string
+          created_at?: string
+        }
+        Update: {
+          command_id?: string
+          tag_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          id: string
+          slug: string
+          name: string
+          icon: string
+          color: string
+          description: string
+          sort_order: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          slug: string
+          name: string
+          icon?: string
+          color?: string
+          description?: string
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          slug?: string
+          name?: string
+          icon?: string
+          color?: string
+          description?: string
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      favorites: {
+        Row: {
+          user_id: string
+          command_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          command_id: string
+          created_at?: string
         }
+        Update: {
+          user_id?: string
+          command_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      collections: {
+        Row: {
+          id: string
+          owner_id: string
+          name: string
+          description: string
+          visibility: CollectionVisibility
+          share_token: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          owner_id: string
+          name: string
+          description?: string
+          visibility?: CollectionVisibility
+          share_token?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          owner_id?: string
+          name?: string
+          description?: string
+          visibility?: CollectionVisibility
+          share_token?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      collection_items: {
+        Row: {
+          collection_id: string
+          command_id: string
+          position: number
+          added_at: string
+        }
+        Insert: {
+          collection_id: string
+          command_id: string
+          position?: number
+          added_at?: string
+        }
+        Update: {
+          collection_id?: string
+          command_id?: string
+          position?: number
+          added_at?: string
+        }
+        Relationships: []
+      }
+      workspaces: {
+        Row: {
+          id: string
+          name: string
+          description: string
+          is_default: boolean
+          // null once the creator has deleted their account
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string
+          is_default?: boolean
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string
+          is_default?: boolean
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      workspace_members: {
+        Row: {
+          workspace_id: string
+          user_id: string
+          role: UserRole
+          created_at: string
+        }
+        Insert: {
+          workspace_id: string
+          user_id: string
+          role?: UserRole
+          created_at?: string
+        }
+        Update: {
+          workspace_id?: string
+          user_id?: string
+          role?: UserRole
+          created_at?: string
+        }
+        Relationships: []
+      }
+      runbooks: {
+        Row: {
+          id: string
+          title: string
+          description: string
+          workspace_id: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          description?: string
+          workspace_id?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          description?: string
+          workspace_id?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      runbook_steps: {
+        Row: {
+          id: string
+          runbook_id: string
+          position: number
+          title: string
+          notes: string
+          command_id: string | null
+          inline_command: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          runbook_id: string
+          position?: number
+          title: string
+          notes?: string
+          command_id?: string | null
+          inline_command?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          runbook_id?: string
+          position?: number
+          title?: string
+          notes?: string
+          command_id?: string | null
+          inline_command?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      runbook_runs: {
+        Row: {
+          id: string
+          runbook_id: string
+          status: RunbookRunStatus
+          started_by: string
+          started_at: string
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          runbook_id: string
+          status?: RunbookRunStatus
+          started_by: string
+          started_at?: string
+          finished_at?: string | null
+        }
+        Update: {
+          id?: string
+          runbook_id?: string
+          status?: RunbookRunStatus
+          started_by?: string
+          started_at?: string
+          finished_at?: string | null
+        }
+        Relationships: []
+      }
+      runbook_step_completions: {
+        Row: {
+          run_id: string
+          step_id: string
+          completed_by: string
+          completed_at: string
+        }
+        Insert: {
+          run_id: string
+          step_id: string
+          completed_by: string
+          completed_at?: string
+        }
+        Update: {
+          run_id?: string
+          step_id?: string
+          completed_by?: string
+          completed_at?: string
+        }
+        Relationships: []
       }
       user_profiles: {
         Row: {
           id: string
           email: string
           full_name: string
+          avatar_url: string | null
+          role: UserRole
           is_admin: boolean
+          preferred_shell: Shell | null
+          default_category: string | null
+          active_workspace_id: string | null
           created_at: string
           updated_at: string
         }
@@ -60,7 +597,12 @@ export type Database = {
           id: string
           email: string
           full_name: string
+          avatar_url?: string | null
+          role?: UserRole
           is_admin?: boolean
+          preferred_shell?: Shell | null
+          default_category?: string | null
+          active_workspace_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -68,11 +610,98 @@ export type Database = {
           id?: string
           email?: string
           full_name?: string
+          avatar_url?: string | null
+          role?: UserRole
           is_admin?: boolean
+          preferred_shell?: Shell | null
+          default_category?: string | null
+          active_workspace_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+    }
+    Views: {}
+    Functions: {
+      increment_copy_count: {
+        Args: { command_id: string }
+        Returns: void
+      }
+      // A shared collection and its items by the token in its link; nothing
+      // for private collections
+      shared_collection: {
+        Args: { token: string }
+        Returns: Database['public']['Tables']['collections']['Row'][]
+      }
+      shared_collection_items: {
+        Args: { token: string }
+        Returns: Database['public']['Tables']['collection_items']['Row'][]
+      }
+      // Deletes the caller's account. With `keep_commands` their approved
+      // commands stay in the library; everything else they made goes too.
+      delete_account: {
+        Args: { keep_commands: boolean }
+        Returns: void
+      }
+      // Removes the caller's sign-in account while it has no profile, i.e.
+      // the one a provider sign-in made next to an existing account
+      discard_unlinked_account: {
+        Args: Record<PropertyKey, never>
+        Returns: void
+      }
+      // The number of commands per category
+      category_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: { category: string; commands: number }[]
+      }
+      // Of `ids`, those a command has in any workspace
+      taken_command_ids: {
+        Args: { ids: string[] }
+        Returns: string[]
+      }
+      // Writes a library import in one transaction; the created commands
+      // come first in the result, then the updated ones
+      import_commands: {
+        Args: { workspace: string | null; creates: Json; updates: Json }
+        Returns: Database['public']['Tables']['commands']['Row'][]
+      }
+      // Matching commands with their rank, sorted and paged by a keyset
+      // cursor: the last row's sort value and id
+      search_commands: {
+        Args: CommandSearchArgs & {
+          sort_order?: 'relevance' | 'newest' | 'updated' | 'name' | 'copies'
+          after_value?: string | null
+          after_id?: string | null
+          page_size?: number | null
+        }
+        Returns: Database['public']['CompositeTypes']['command_search_result'][]
+      }
+      count_commands: {
+        Args: CommandSearchArgs
+        Returns: number
+      }
+    }
+    Enums: {}
+    CompositeTypes: {
+      command_search_result: {
+        command: Database['public']['Tables']['commands']['Row']
+        rank: number
       }
     }
   }
-}
\ No newline at end of file
+}
+
+export type Command = Database['public']['Tables']['commands']['Row']
+export type CommandRevision = Database['public']['Tables']['command_revisions']['Row']
+export type AuditLogEntry = Database['public']['Tables']['audit_logs']['Row']
+export type Tag = Database['public']['Tables']['tags']['Row']
+export type Category = Database['public']['Tables']['categories']['Row']
+export type Collection = Database['public']['Tables']['collections']['Row']
+export type Workspace = Database['public']['Tables']['workspaces']['Row']
+export type UserProfile = Database['public']['Tables']['user_profiles']['Row']
+export type WorkspaceMember = Database['public']['Tables']['workspace_members']['Row']
+export type Runbook = Database['public']['Tables']['runbooks']['Row']
+export type RunbookStep = Database['public']['Tables']['runbook_steps']['Row']
+export type RunbookRun = Database['public']['Tables']['runbook_runs']['Row']
+export type RunbookStepCompletion = Database['public']['Tables']['runbook_step_completions']['Row']
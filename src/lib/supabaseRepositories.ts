@@ -0,0 +1,319 @@
+import { supabase, CommandSearchArgs } from './supabase'
+import { CommandFilters, ORDER_COLUMNS } from './commandQuery'
+import { inWorkspace } from './workspaces'
+import { CommandMatch, CommandsRepository, ProfilesRepository } from './repositories'
+
+// Deleting needs a filter; no row has this id
+const NO_ID = '00000000-0000-0000-0000-000000000000'
+
+// Values inside `or(...)` filters are double-quoted so commas, dots and
+// parentheses in them are taken literally.
+function quote(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, char => `\\${char}`)
+}
+
+function likePattern(text: string): string {
+  return `%${escapeLike(text)}%`
+}
+
+interface Filterable<Q> {
+  eq(column: string, value: string | boolean): Q
+  neq(column: string, value: string): Q
+  in(column: string, values: string[]): Q
+  or(filters: string): Q
+}
+
+// Works on selects, updates and deletes alike.
+function matching<Q extends Filterable<Q>>(query: Q, match: CommandMatch): Q {
+  let filtered = inWorkspace(query, match.workspace ?? null)
+  if (match.ids) filtered = filtered.in('id', match.ids)
+  if (match.status) filtered = filtered.eq('status', match.status)
+  if (match.createdBy) filtered = filtered.eq('created_by', match.createdBy)
+  if (match.category) filtered = filtered.eq('category', match.category)
+  if (match.isActive !== undefined) filtered = filtered.eq('is_active', match.isActive)
+  return filtered
+}
+
+// The library query as arguments to the search_commands and count_commands
+// functions. Tags, favorites, collections and authors are joined there rather
+// than passed as id lists, which would not fit in a URL on a large library.
+function searchArgs(filters: CommandFilters): CommandSearchArgs {
+  const { search, list } = filters
+  return {
+    workspace: filters.workspace?.id ?? null,
+    include_unassigned: filters.workspace?.is_default ?? false,
+    library_only: filters.libraryOnly,
+    category_slug: filters.category && filters.category !== 'all' ? filters.category : null,
+    tag_names: filters.tags && filters.tags.length > 0 ? filters.tags : null,
+    tag_mode: filters.tagMode ?? 'and',
+    favorites_of: list?.kind === 'favorites' ? list.id : null,
+    collection: list?.kind === 'collection' ? list.id : null,
+    terms: search?.terms ?? [],
+    phrases: search?.phrases ?? [],
+    excluded: search?.excluded ?? [],
+    field_filters: search?.filters ?? [],
+  }
+}
+
+// Filtering, sorting, counting and paging all happen in the database, so the
+// library can grow without every visitor downloading it.
+export const supabaseCommands: CommandsRepository = {
+  async get(id) {
+    const { data, error } = await supabase
+      .from('commands')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  },
+
+  async list(match, sort) {
+    let query = matching(supabase.from('commands').select('*'), match)
+    if (sort) query = query.order(sort.column, { ascending: sort.ascending })
+
+    const { data, error } = await query
+
+    if (error) throw error
+    return data || []
+  },
+
+  async count(match) {
+    const { count, error } = await matching(supabase.from('commands').select('*', { count: 'exact', head: true }), match)
+
+    if (error) throw error
+    return count ?? 0
+  },
+
+  async countByCategory() {
+    const { data, error } = await supabase.rpc('category_usage')
+
+    if (error) throw error
+    return Object.fromEntries((data || []).map(row => [row.category, row.commands]))
+  },
+
+  async search(filters, cursor, limit) {
+    // One extra row tells whether there is another page
+    const { data, error } = await supabase.rpc('search_commands', {
+      ...searchArgs(filters),
+      sort_order: filters.order,
+      after_value: cursor ? String(cursor.value) : null,
+      after_id: cursor?.id ?? null,
+      page_size: limit + 1,
+    })
+
+    if (error) throw error
+
+    const rows = data || []
+    const page = rows.slice(0, limit)
+    const last = page[page.length - 1]
+    return {
+      commands: page.map(row => row.command),
+      nextCursor: rows.length > limit && last
+        ? { value: filters.order === 'relevance' ? last.rank : last.command[ORDER_COLUMNS[filters.order].column], id: last.command.id }
+        : null,
+    }
+  },
+
+  async countSearch(filters) {
+    const { data, error } = await supabase.rpc('count_commands', searchArgs(filters))
+
+    if (error) throw error
+    return data ?? 0
+  },
+
+  async insert(command) {
+    const { data, error } = await supabase
+      .from('commands')
+      .insert(command)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async update(id, updates) {
+    const { data, error } = await supabase
+      .from('commands')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async updateWhere(match, updates) {
+    const { data, error } = await matching(supabase.from('commands').update(updates), match).select()
+
+    if (error) throw error
+    return data || []
+  },
+
+  async remove(ids) {
+    const { error } = await supabase
+      .from('commands')
+      .delete()
+      .in('id', ids)
+
+    if (error) throw error
+  },
+
+  async removeWhere(match) {
+    // PostgREST refuses deletes without a filter, which an empty match is
+    const { error } = await matching(supabase.from('commands').delete().neq('id', NO_ID), match)
+
+    if (error) throw error
+  },
+
+  async takenIds(ids) {
+    if (ids.length === 0) return []
+    const { data, error } = await supabase.rpc('taken_command_ids', { ids })
+
+    if (error) throw error
+    return data || []
+  },
+
+  // Revisions are recorded by `import_commands`, and the author is the caller
+  async importCommands(workspaceId, creates, updates) {
+    const { data, error } = await supabase.rpc('import_commands', { workspace: workspaceId, creates, updates })
+
+    if (error) throw error
+    const rows = data || []
+    return { created: rows.slice(0, creates.length), updated: rows.slice(creates.length) }
+  },
+
+  async recordCopy(id) {
+    const { error } = await supabase.rpc('increment_copy_count', { command_id: id })
+
+    if (error) throw error
+  },
+}
+
+export const supabaseProfiles: ProfilesRepository = {
+  async get(id) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  },
+
+  async findByEmail(email) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .ilike('email', escapeLike(email.trim()))
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  },
+
+  async list(cursor, limit) {
+    let query = supabase
+      .from('user_profiles')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1)
+
+    if (cursor) {
+      const createdAt = quote(cursor.created_at)
+      query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${quote(cursor.id)})`)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+    // One extra row tells whether there is another page
+    const rows = data || []
+    const profiles = rows.slice(0, limit)
+    const last = profiles[profiles.length - 1]
+    return { profiles, nextCursor: rows.length > limit && last ? { created_at: last.created_at, id: last.id } : null }
+  },
+
+  async listByIds(ids) {
+    if (ids.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .in('id', ids)
+
+    if (error) throw error
+    return data || []
+  },
+
+  async search(text) {
+    const pattern = quote(likePattern(text))
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .or(`full_name.ilike.${pattern},email.ilike.${pattern}`)
+
+    if (error) throw error
+    return data || []
+  },
+
+  async count(options = {}) {
+    let query = supabase.from('user_profiles').select('*', { count: 'exact', head: true })
+    if (options.admins) query = query.or('role.eq.admin,and(role.is.null,is_admin.is.true)')
+
+    const { count, error } = await query
+
+    if (error) throw error
+    return count ?? 0
+  },
+
+  async insert(profile) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .insert(profile)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async update(id, updates) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async updateAllExcept(id, updates) {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update(updates)
+      .neq('id', id)
+
+    if (error) throw error
+  },
+
+  async remove(id) {
+    const { error } = await supabase
+      .from('user_profiles')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+}
@@ -0,0 +1,182 @@
+import { supabase, Tag } from './supabase'
+
+export type TagMode = 'and' | 'or'
+
+export function normalizeTagName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9\-_.+#]/g, '')
+}
+
+export function matchesTags(commandTags: string[], selected: string[], mode: TagMode): boolean {
+  if (selected.length === 0) return true
+  return mode === 'and'
+    ? selected.every(tag => commandTags.includes(tag))
+    : selected.some(tag => commandTags.includes(tag))
+}
+
+export async function fetchTags(): Promise<Tag[]> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+// Returns tag names keyed by command id, for the given commands or all of them.
+export async function fetchCommandTags(tags: Tag[], commandIds?: string[]): Promise<Record<string, string[]>> {
+  let query = supabase
+    .from('command_tags')
+    .select('command_id, tag_id')
+  if (commandIds) query = query.in('command_id', commandIds)
+
+  const { data, error } = await query
+
+  if (error) throw error
+
+  const names = new Map(tags.map(tag => [tag.id, tag.name]))
+  const byCommand: Record<string, string[]> = {}
+  for (const link of data || []) {
+    const name = names.get(link.tag_id)
+    if (name) (byCommand[link.command_id] ??= []).push(name)
+  }
+  for (const list of Object.values(byCommand)) list.sort()
+  return byCommand
+}
+
+export async function fetchTagsOfCommand(commandId: string, tags: Tag[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('command_tags')
+    .select('tag_id')
+    .eq('command_id', commandId)
+
+  if (error) throw error
+
+  const names = new Map(tags.map(tag => [tag.id, tag.name]))
+  return (data || [])
+    .map(link => names.get(link.tag_id))
+    .filter((name): name is string => !!name)
+    .sort()
+}
+
+export async function fetchTagUsage(): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('command_tags')
+    .select('tag_id')
+
+  if (error) throw error
+
+  const usage: Record<string, number> = {}
+  for (const link of data || []) usage[link.tag_id] = (usage[link.tag_id] ?? 0) + 1
+  return usage
+}
+
+// Replaces the tags of a command, creating tags that don't exist yet. Returns
+// the full tag list so callers can refresh their autocomplete data.
+export async function setCommandTags(commandId: string, names: string[]): Promise<Tag[]> {
+  const wanted = [...new Set(names.map(normalizeTagName).filter(Boolean))]
+
+  if (wanted.length > 0) {
+    const { error } = await supabase
+      .from('tags')
+      .upsert(wanted.map(name => ({ name })), { onConflict: 'name', ignoreDuplicates: true })
+
+    if (error) throw error
+  }
+
+  const tags = await fetchTags()
+  const wantedIds = tags.filter(tag => wanted.includes(tag.name)).map(tag => tag.id)
+
+  const { data: links, error: linksError } = await supabase
+    .from('command_tags')
+    .select('tag_id')
+    .eq('command_id', commandId)
+
+  if (linksError) throw linksError
+
+  const currentIds = (links || []).map(link => link.tag_id)
+  const toAdd = wantedIds.filter(id => !currentIds.includes(id))
+  const toRemove = currentIds.filter(id => !wantedIds.includes(id))
+
+  if (toAdd.length > 0) {
+    const { error } = await supabase
+      .from('command_tags')
+      .insert(toAdd.map(tag_id => ({ command_id: commandId, tag_id })))
+
+    if (error) throw error
+  }
+
+  if (toRemove.length > 0) {
+    const { error } = await supabase
+      .from('command_tags')
+      .delete()
+      .eq('command_id', commandId)
+      .in('tag_id', toRemove)
+
+    if (error) throw error
+  }
+
+  return tags
+}
+
+export async function renameTag(tagId: string, name: string): Promise<Tag> {
+  const { data, error } = await supabase
+    .from('tags')
+    .update({ name: normalizeTagName(name) })
+    .eq('id', tagId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Moves every command tagged with one of `sourceIds` onto `targetId`, then
+// deletes the source tags.
+export async function mergeTags(sourceIds: string[], targetId: string) {
+  const sources = sourceIds.filter(id => id !== targetId)
+  if (sources.length === 0) return
+
+  const { data: links, error } = await supabase
+    .from('command_tags')
+    .select('command_id')
+    .in('tag_id', sources)
+
+  if (error) throw error
+
+  const commandIds = [...new Set((links || []).map(link => link.command_id))]
+  if (commandIds.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('command_tags')
+      .upsert(
+        commandIds.map(command_id => ({ command_id, tag_id: targetId })),
+        { onConflict: 'command_id,tag_id', ignoreDuplicates: true }
+      )
+
+    if (upsertError) throw upsertError
+  }
+
+  for (const id of sources) {
+    await deleteTag(id)
+  }
+}
+
+export async function deleteTag(tagId: string) {
+  const { error: linksError } = await supabase
+    .from('command_tags')
+    .delete()
+    .eq('tag_id', tagId)
+
+  if (linksError) throw linksError
+
+  const { error } = await supabase
+    .from('tags')
+    .delete()
+    .eq('id', tagId)
+
+  if (error) throw error
+}
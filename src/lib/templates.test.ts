@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { parseTemplate, renderTemplate, shellEscape, missingValues } from './templates'
+
+describe('parseTemplate', () => {
+  it('reads names, defaults and descriptions', () => {
+    expect(parseTemplate('ssh {{user=root|Remote user}}@{{host}} -p {{port=22}}').placeholders).toEqual([
+      { name: 'user', defaultValue: 'root', description: 'Remote user' },
+      { name: 'host' },
+      { name: 'port', defaultValue: '22' },
+    ])
+  })
+
+  it('skips escaped braces', () => {
+    expect(parseTemplate("docker ps --format '\\{{.Names}}' {{filter}}").placeholders).toEqual([{ name: 'filter' }])
+  })
+
+  it('reports conflicting defaults and unterminated placeholders', () => {
+    expect(parseTemplate('{{port=80}} {{port=443}}').errors).toHaveLength(1)
+    expect(parseTemplate('echo {{host').errors).toEqual(['Unterminated placeholder on line 1'])
+  })
+})
+
+describe('shellEscape', () => {
+  it('leaves safe words alone and single-quotes the rest', () => {
+    expect(shellEscape('/var/log')).toBe('/var/log')
+    expect(shellEscape('')).toBe("''")
+    expect(shellEscape("it's here")).toBe(`'it'\\''s here'`)
+  })
+
+  it('quotes for PowerShell and fish', () => {
+    expect(shellEscape('C:\\Temp', 'powershell')).toBe('C:\\Temp')
+    expect(shellEscape('a,b', 'powershell')).toBe("'a,b'")
+    expect(shellEscape("it's $HOME", 'powershell')).toBe("'it''s $HOME'")
+    expect(shellEscape("it's \\here", 'fish')).toBe("'it\\'s \\\\here'")
+    expect(shellEscape('', 'fish')).toBe("''")
+  })
+})
+
+describe('renderTemplate', () => {
+  it('quotes values that stand on their own', () => {
+    expect(renderTemplate('echo {{msg}}', { msg: 'hello world' })).toBe("echo 'hello world'")
+  })
+
+  it('escapes values inside single quotes without adding quotes', () => {
+    expect(renderTemplate("echo '{{msg}}'", { msg: 'hello world' })).toBe("echo 'hello world'")
+    expect(renderTemplate("echo 'say {{msg}}'", { msg: "it's" })).toBe(`echo 'say it'\\''s'`)
+  })
+
+  it('escapes values inside double quotes without adding quotes', () => {
+    expect(renderTemplate('curl -H "Host: {{host}}"', { host: 'example.com' })).toBe('curl -H "Host: example.com"')
+    expect(renderTemplate('echo "{{msg}}"', { msg: 'a "b" $HOME `id` \\' })).toBe('echo "a \\"b\\" \\$HOME \\`id\\` \\\\"')
+  })
+
+  it('tracks quotes across the command', () => {
+    expect(renderTemplate(`echo "it's" {{a}} 'x' \\' {{b}}`, { a: 'a b', b: 'c d' }))
+      .toBe(`echo "it's" 'a b' 'x' \\' 'c d'`)
+  })
+
+  it('ignores quotes in defaults and descriptions', () => {
+    expect(renderTemplate(`echo {{msg=it's|Say "hi"}} {{name}}`, { name: 'a b' })).toBe(`echo 'it'\\''s' 'a b'`)
+  })
+
+  it('uses one value per placeholder and keeps empty values', () => {
+    expect(renderTemplate('{{port=80}} {{port}}', {})).toBe('80 80')
+    expect(renderTemplate('echo {{msg=hi}}', { msg: '' })).toBe("echo ''")
+  })
+
+  it('keeps escaped braces literal', () => {
+    expect(renderTemplate("docker ps --format '\\{{.Names}}'", {})).toBe("docker ps --format '{{.Names}}'")
+  })
+
+  it('escapes for PowerShell quotes', () => {
+    expect(renderTemplate("Write-Output '{{msg}}'", { msg: "it's" }, { shell: 'powershell' }))
+      .toBe("Write-Output 'it''s'")
+    expect(renderTemplate('Write-Output "{{msg}}"', { msg: 'a "b" $env:PATH `n' }, { shell: 'powershell' }))
+      .toBe('Write-Output "a `"b`" `$env:PATH ``n"')
+    // A backslash doesn't escape in PowerShell, so the quote after it closes
+    expect(renderTemplate('Get-Item "C:\\" {{path}}', { path: 'a b' }, { shell: 'powershell' }))
+      .toBe(`Get-Item "C:\\" 'a b'`)
+  })
+
+  it('escapes for fish quotes', () => {
+    expect(renderTemplate("echo '{{msg}}'", { msg: "it's \\" }, { shell: 'fish' })).toBe("echo 'it\\'s \\\\'")
+    expect(renderTemplate('echo "{{msg}}"', { msg: '"$HOME" `id`' }, { shell: 'fish' })).toBe('echo "\\"\\$HOME\\" `id`"')
+    // \' doesn't end single quotes in fish
+    expect(renderTemplate("echo 'it\\'s' {{msg}}", { msg: 'a b' }, { shell: 'fish' })).toBe("echo 'it\\'s' 'a b'")
+  })
+
+  it('substitutes raw values when escaping is off', () => {
+    expect(renderTemplate('echo {{msg}}', { msg: 'a b' }, { escape: false })).toBe('echo a b')
+  })
+})
+
+describe('missingValues', () => {
+  it('lists required placeholders without a value', () => {
+    const { placeholders } = parseTemplate('ssh {{user=root}}@{{host}} {{flags}}')
+    expect(missingValues(placeholders, { flags: '-v' })).toEqual(['host'])
+  })
+})
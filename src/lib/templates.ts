@@ -0,0 +1,185 @@
+// Placeholder syntax for command templates:
+//   {{host}}                    required value
+//   {{port=8080}}               value with a default
+//   {{name|Container name}}     value with a description
+//   {{port=8080|Port to bind}}  both
+// A backslash before the braces (\{{) keeps them literal, which is needed for
+// commands that use Go templates such as `docker ps --format '\{{.Names}}'`.
+
+import { Shell } from './supabase'
+
+export interface TemplatePlaceholder {
+  name: string
+  defaultValue?: string
+  description?: string
+}
+
+export interface TemplateParseResult {
+  placeholders: TemplatePlaceholder[]
+  errors: string[]
+}
+
+const PLACEHOLDER_PATTERN = /(\\?)\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:=([^|}]*))?(?:\|([^}]*))?\}\}/g
+const UNTERMINATED_PATTERN = /(^|[^\\])\{\{\s*[A-Za-z_][A-Za-z0-9_]*\s*(?:[=|][^}]*)?$/
+const SAFE_SHELL_WORD = /^[A-Za-z0-9_\-.,:/@%+=]+$/
+// PowerShell reads `,` `@` `%` and `+` as operators, but `\` is only a path separator
+const SAFE_POWERSHELL_WORD = /^[A-Za-z0-9_\-.:/\\=]+$/
+
+export function parseTemplate(template: string): TemplateParseResult {
+  const placeholders: TemplatePlaceholder[] = []
+  const errors: string[] = []
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const [, escaped, name, rawDefault, rawDescription] = match
+    if (escaped) continue
+
+    const defaultValue = rawDefault?.trim()
+    const description = rawDescription?.trim()
+    const existing = placeholders.find(p => p.name === name)
+
+    if (!existing) {
+      placeholders.push({
+        name,
+        ...(rawDefault !== undefined && { defaultValue }),
+        ...(description && { description }),
+      })
+      continue
+    }
+
+    if (rawDefault !== undefined && existing.defaultValue !== undefined && existing.defaultValue !== defaultValue) {
+      errors.push(`Placeholder "${name}" has conflicting defaults ("${existing.defaultValue}" and "${defaultValue}")`)
+    } else if (rawDefault !== undefined) {
+      existing.defaultValue = defaultValue
+    }
+
+    if (description && existing.description && existing.description !== description) {
+      errors.push(`Placeholder "${name}" has conflicting descriptions`)
+    } else if (description) {
+      existing.description = description
+    }
+  }
+
+  template.split('\n').forEach((line, index) => {
+    if (UNTERMINATED_PATTERN.test(line)) {
+      errors.push(`Unterminated placeholder on line ${index + 1}`)
+    }
+  })
+
+  return { placeholders, errors }
+}
+
+export function hasPlaceholders(template: string): boolean {
+  return parseTemplate(template).placeholders.length > 0
+}
+
+// Quotes `value` as a word of its own in `shell`, unless it is safe as it is
+export function shellEscape(value: string, shell: Shell = 'bash'): string {
+  const safe = shell === 'powershell' ? SAFE_POWERSHELL_WORD : SAFE_SHELL_WORD
+  if (value !== '' && safe.test(value)) return value
+  return `'${escapeIn(shell, 'single', value)}'`
+}
+
+export type QuoteContext = 'none' | 'single' | 'double'
+
+// The quoting in effect at each offset of the template, read the way `shell`
+// would. Placeholders are blanked out first so that quotes in their defaults
+// or descriptions don't count.
+//
+// PowerShell escapes with a backtick rather than a backslash, and fish honours
+// \' and \\ inside single quotes. A doubled quote inside PowerShell quotes
+// reads as closing and reopening, which leaves the same context.
+function quoteContexts(template: string, shell: Shell): QuoteContext[] {
+  const text = template.replace(PLACEHOLDER_PATTERN, match => '_'.repeat(match.length))
+  const escapeChar = shell === 'powershell' ? '`' : '\\'
+  const contexts: QuoteContext[] = []
+  let context: QuoteContext = 'none'
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    contexts[i] = context
+
+    if (context === 'single') {
+      if (shell === 'fish' && char === '\\' && (text[i + 1] === "'" || text[i + 1] === '\\')) {
+        contexts[++i] = context
+      } else if (char === "'") {
+        context = 'none'
+      }
+    } else if (char === escapeChar) {
+      contexts[++i] = context
+    } else if (context === 'double') {
+      if (char === '"') context = 'none'
+    } else if (char === "'") {
+      context = 'single'
+    } else if (char === '"') {
+      context = 'double'
+    }
+  }
+
+  return contexts
+}
+
+// Escapes a value for where it lands: quoted as a word of its own outside
+// quotes, and made safe for the quotes it is already in otherwise.
+function escapeIn(shell: Shell, context: QuoteContext, value: string): string {
+  if (context === 'none') return shellEscape(value, shell)
+
+  switch (shell) {
+    case 'powershell':
+      // PowerShell also closes quotes on their typographic forms
+      return context === 'single'
+        ? value.replace(/['\u2018\u2019\u201A\u201B]/g, '$&$&')
+        : value.replace(/[`"$\u201C\u201D\u201E]/g, '`$&')
+    case 'fish':
+      return context === 'single'
+        ? value.replace(/[\\']/g, '\\$&')
+        : value.replace(/[\\"$]/g, '\\$&')
+    default:
+      return context === 'single'
+        ? value.replace(/'/g, `'\\''`)
+        : value.replace(/[\\"$`]/g, '\\$&')
+  }
+}
+
+export function renderTemplate(
+  template: string,
+  values: Record<string, string>,
+  options: { escape?: boolean; shell?: Shell } = {}
+): string {
+  const { escape = true, shell = 'bash' } = options
+
+  // One value per name, so a placeholder repeated with another default still
+  // renders the same everywhere. A value given as '' is kept, not defaulted.
+  const resolved = new Map(parseTemplate(template).placeholders.map(p => [
+    p.name,
+    values[p.name] !== undefined ? values[p.name] : p.defaultValue ?? '',
+  ]))
+
+  return replacePlaceholders(template, (name, context) => {
+    const value = resolved.get(name) ?? ''
+    return escape ? escapeIn(shell, context, value) : value
+  }, shell)
+}
+
+// Replaces each placeholder with what `replace` returns for it, given the
+// quoting it sits in, and unescapes literal braces.
+export function replacePlaceholders(
+  template: string,
+  replace: (name: string, context: QuoteContext) => string,
+  shell: Shell = 'bash'
+): string {
+  const contexts = quoteContexts(template, shell)
+
+  return template
+    .replace(
+      PLACEHOLDER_PATTERN,
+      (match, escaped: string, name: string, _default: string, _description: string, offset: number) =>
+        escaped ? match : replace(name, contexts[offset])
+    )
+    .replace(/\\\{\{/g, '{{')
+}
+
+export function missingValues(placeholders: TemplatePlaceholder[], values: Record<string, string>): string[] {
+  return placeholders
+    .filter(p => p.defaultValue === undefined && !values[p.name])
+    .map(p => p.name)
+}
@@ -0,0 +1,152 @@
+import { supabase, Command, CommandStatus, UserRole, Workspace } from './supabase'
+import { REVISION_FIELDS, recordRevision } from './revisions'
+import { commandsRepository, profilesRepository } from './repositories'
+
+// Workspace roles per workspace id, for the signed-in user.
+export type Memberships = Record<string, UserRole>
+
+export interface WorkspaceMemberProfile {
+  user_id: string
+  role: UserRole
+  email: string
+  full_name: string
+}
+
+// Narrows a query on `commands` or `runbooks` to one workspace. Rows from
+// before workspaces existed have no workspace and count as the default one's;
+// with no workspace at all the query is left alone.
+export function inWorkspace<Q extends { or(filters: string): unknown }>(query: Q, workspace: Pick<Workspace, 'id' | 'is_default'> | null): Q {
+  if (!workspace) return query
+  return query.or(workspace.is_default
+    ? `workspace_id.eq.${workspace.id},workspace_id.is.null`
+    : `workspace_id.eq.${workspace.id}`
+  ) as Q
+}
+
+// The same rule as `inWorkspace`, for rows that arrive one at a time.
+export function belongsToWorkspace(row: { workspace_id: string | null }, workspace: Pick<Workspace, 'id' | 'is_default'> | null): boolean {
+  if (!workspace) return true
+  return row.workspace_id === workspace.id || (workspace.is_default && row.workspace_id === null)
+}
+
+export async function fetchWorkspaces(): Promise<Workspace[]> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('*')
+    .order('is_default', { ascending: false })
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function fetchMemberships(userId: string): Promise<Memberships> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id, role')
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return Object.fromEntries((data || []).map(row => [row.workspace_id, row.role]))
+}
+
+// The first workspace becomes the default, which holds the existing library.
+export async function createWorkspace(name: string, description: string, userId: string, isDefault: boolean): Promise<Workspace> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .insert({ name: name.trim(), description: description.trim(), is_default: isDefault, created_by: userId })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  const { error: memberError } = await supabase
+    .from('workspace_members')
+    .insert({ workspace_id: data.id, user_id: userId, role: 'admin' })
+
+  if (memberError) throw memberError
+  return data
+}
+
+export async function fetchMembers(workspaceId: string): Promise<WorkspaceMemberProfile[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('user_id, role')
+    .eq('workspace_id', workspaceId)
+
+  if (error) throw error
+  if (!data || data.length === 0) return []
+
+  const profiles = await profilesRepository.listByIds(data.map(row => row.user_id))
+
+  const byId = new Map(profiles.map(profile => [profile.id, profile]))
+  return data
+    .map(row => ({
+      user_id: row.user_id,
+      role: row.role,
+      email: byId.get(row.user_id)?.email ?? '',
+      full_name: byId.get(row.user_id)?.full_name ?? '',
+    }))
+    .sort((a, b) => (a.full_name || a.email).localeCompare(b.full_name || b.email))
+}
+
+// Returns null when no account uses the email address.
+export async function addMember(workspaceId: string, email: string, role: UserRole): Promise<WorkspaceMemberProfile | null> {
+  const profile = await profilesRepository.findByEmail(email)
+  if (!profile) return null
+
+  const { error: insertError } = await supabase
+    .from('workspace_members')
+    .upsert({ workspace_id: workspaceId, user_id: profile.id, role }, { onConflict: 'workspace_id,user_id' })
+
+  if (insertError) throw insertError
+  return { user_id: profile.id, role, email: profile.email, full_name: profile.full_name }
+}
+
+export async function setMemberRole(workspaceId: string, userId: string, role: UserRole) {
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+export async function removeMember(workspaceId: string, userId: string) {
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+export async function moveCommands(commandIds: string[], workspaceId: string) {
+  await commandsRepository.updateWhere({ ids: commandIds }, { workspace_id: workspaceId, updated_at: new Date().toISOString() })
+}
+
+// Copies start their own history in the target workspace; tags are copied by
+// the caller, which already has them loaded.
+export async function copyCommands(commands: Command[], workspaceId: string, userId: string, status: CommandStatus): Promise<Command[]> {
+  const copies: Command[] = []
+
+  for (const command of commands) {
+    const data = await commandsRepository.insert({
+      name: command.name,
+      description: command.description,
+      command: command.command,
+      category: command.category,
+      variants: command.variants,
+      is_active: command.is_active,
+      status,
+      workspace_id: workspaceId,
+      created_by: userId,
+    })
+    await recordRevision(data, [...REVISION_FIELDS], userId)
+    copies.push(data)
+  }
+
+  return copies
+}
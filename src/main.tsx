@@ -10,4 +10,13 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
       <App />
     </BrowserRouter>
   </React.StrictMode>,
-)
\ No newline at end of file
+)
+
+// Service workers get in the way of hot reloading, so only builds register one
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error registering service worker:', error)
+    })
+  })
+}
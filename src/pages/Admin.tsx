@@ -1,29 +1,29 @@
 import React, { useState, useEffect } from 'react'
-import { Users, Terminal, Database, Settings, Shield, Activity, Trash2, Edit, UserCheck, UserX } from 'lucide-react'
+import { Users, Terminal, Database, Settings, Shield, Activity, Trash2, Edit, ScrollText, Inbox, Upload, Tags, FolderTree } from 'lucide-react'
 import { motion } from 'framer-motion'
-import { supabase } from '../lib/supabase'
+import { Command, UserProfile, UserRole } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-
-interface UserProfile {
-  id: string
-  email: string
-  full_name: string
-  is_admin: boolean
-  created_at: string
-  updated_at: string
-}
-
-interface Command {
-  id: string
-  name: string
-  description: string
-  command: string
-  category: string
-  created_at: string
-  updated_at: string
-  created_by: string
-  is_active: boolean
-}
+import { useWorkspace, usePermission } from '../contexts/WorkspaceContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { logAuditEvent } from '../lib/audit'
+import { ToggleSettingKey, SETTING_DEFINITIONS } from '../lib/settings'
+import { COMMAND_STATUS_LABELS, COMMAND_STATUS_STYLES } from '../lib/moderation'
+import { ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS, ROLE_STYLES, DEFAULT_ROLE, roleOf } from '../lib/permissions'
+import { belongsToWorkspace } from '../lib/workspaces'
+import { subscribeToTable } from '../lib/realtime'
+import { CommandFilters, CommandCursor } from '../lib/commandQuery'
+import { fetchAllCommands } from '../lib/commands'
+import { commandsRepository, profilesRepository, ProfileCursor } from '../lib/repositories'
+import { PAGE_SIZE } from '../lib/libraryView'
+import AuditLog from '../components/admin/AuditLog'
+import ReviewQueue from '../components/admin/ReviewQueue'
+import TagManager from '../components/admin/TagManager'
+import CategoryManager from '../components/admin/CategoryManager'
+import LintRulesSettings from '../components/admin/LintRulesSettings'
+import WorkspaceMembers from '../components/admin/WorkspaceMembers'
+import CategoryBadge from '../components/CategoryBadge'
+import ImportCommandsModal from '../components/admin/ImportCommandsModal'
+import ExportMenu from '../components/ExportMenu'
 
 interface AdminStats {
   totalUsers: number
@@ -33,10 +33,19 @@ interface AdminStats {
 }
 
 export default function Admin() {
-  const { user } = useAuth()
+  const { user, isAdmin } = useAuth()
+  const { workspace, loading: workspaceLoading } = useWorkspace()
+  const canEditAny = usePermission('edit_any')
+  const canDeleteAny = usePermission('delete')
+  const canManageUsers = usePermission('manage_users')
+  const { settings, updateSetting } = useSettings()
   const [activeTab, setActiveTab] = useState('overview')
   const [users, setUsers] = useState<UserProfile[]>([])
+  const [usersCursor, setUsersCursor] = useState<ProfileCursor | null>(null)
+  const [loadingMoreUsers, setLoadingMoreUsers] = useState(false)
   const [commands, setCommands] = useState<Command[]>([])
+  const [nextCursor, setNextCursor] = useState<CommandCursor | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [stats, setStats] = useState<AdminStats>({
     totalUsers: 0,
     totalCommands: 0,
@@ -44,52 +53,86 @@ export default function Admin() {
     adminUsers: 0
   })
   const [loading, setLoading] = useState(true)
+  const [showImportModal, setShowImportModal] = useState(false)
 
+  // The page itself needs `moderate`; everything past the review queue is
+  // gated per tab
   const tabs = [
-    { id: 'overview', name: 'Overview', icon: Activity },
-    { id: 'users', name: 'Users', icon: Users },
-    { id: 'commands', name: 'Commands', icon: Terminal },
-    { id: 'database', name: 'Database', icon: Database },
-    { id: 'settings', name: 'Settings', icon: Settings },
-  ]
+    { id: 'overview', name: 'Overview', icon: Activity, visible: true },
+    { id: 'users', name: 'Users', icon: Users, visible: canManageUsers },
+    { id: 'commands', name: 'Commands', icon: Terminal, visible: canEditAny || canDeleteAny },
+    { id: 'review', name: 'Review queue', icon: Inbox, visible: true },
+    { id: 'categories', name: 'Categories', icon: FolderTree, visible: isAdmin },
+    { id: 'tags', name: 'Tags', icon: Tags, visible: isAdmin },
+    { id: 'database', name: 'Database', icon: Database, visible: isAdmin },
+    { id: 'audit', name: 'Audit', icon: ScrollText, visible: isAdmin },
+    { id: 'settings', name: 'Settings', icon: Settings, visible: isAdmin },
+  ].filter(tab => tab.visible)
+
+  useEffect(() => {
+    if (!workspaceLoading) fetchData()
+  }, [workspace?.id, workspaceLoading])
 
+  // Changes made by other admins and users show up without a reload. Rows are
+  // merged in place and the counts fetched again, since a single event can't
+  // tell whether e.g. an update moved a command in or out of "active".
   useEffect(() => {
-    fetchData()
-  }, [])
+    if (workspaceLoading) return
+
+    const refreshStats = async () => {
+      try {
+        setStats(await fetchStats())
+      } catch (error) {
+        console.error('Error fetching admin stats:', error)
+      }
+    }
+
+    const unsubscribeCommands = subscribeToTable('commands', change => {
+      if (change.type === 'DELETE') {
+        setCommands(prev => prev.filter(cmd => cmd.id !== change.id))
+      } else if (!belongsToWorkspace(change.row, workspace)) {
+        // Moved to another workspace
+        setCommands(prev => prev.filter(cmd => cmd.id !== change.row.id))
+      } else if (change.type === 'INSERT') {
+        setCommands(prev => prev.some(cmd => cmd.id === change.row.id) ? prev : [change.row, ...prev])
+      } else {
+        setCommands(prev => prev.map(cmd => cmd.id === change.row.id ? change.row : cmd))
+      }
+      refreshStats()
+    })
+
+    const unsubscribeUsers = subscribeToTable('user_profiles', change => {
+      if (change.type === 'DELETE') {
+        setUsers(prev => prev.filter(u => u.id !== change.id))
+      } else if (change.type === 'INSERT') {
+        setUsers(prev => prev.some(u => u.id === change.row.id) ? prev : [change.row, ...prev])
+      } else {
+        setUsers(prev => prev.map(u => u.id === change.row.id ? change.row : u))
+      }
+      refreshStats()
+    })
+
+    return () => {
+      unsubscribeCommands()
+      unsubscribeUsers()
+    }
+  }, [workspace?.id, workspaceLoading])
+
+  // Every command in the active workspace, whatever its status
+  const commandFilters: CommandFilters = { workspace, libraryOnly: false, order: 'newest' }
 
   const fetchData = async () => {
     try {
-      // Fetch users
-      const { data: usersData, error: usersError } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (usersError) throw usersError
-
-      // Fetch commands
-      const { data: commandsData, error: commandsError } = await supabase
-        .from('commands')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (commandsError) throw commandsError
-
-      setUsers(usersData || [])
-      setCommands(commandsData || [])
-
-      // Calculate stats
-      const totalUsers = usersData?.length || 0
-      const totalCommands = commandsData?.length || 0
-      const activeCommands = commandsData?.filter(cmd => cmd.is_active).length || 0
-      const adminUsers = usersData?.filter(user => user.is_admin).length || 0
-
-      setStats({
-        totalUsers,
-        totalCommands,
-        activeCommands,
-        adminUsers
-      })
+      // Fetch the newest users and commands; the rest load on demand
+      const usersPage = await profilesRepository.list(null, PAGE_SIZE)
+
+      const page = await commandsRepository.search(commandFilters, null, PAGE_SIZE)
+
+      setUsers(usersPage.profiles)
+      setUsersCursor(usersPage.nextCursor)
+      setCommands(page.commands)
+      setNextCursor(page.nextCursor)
+      setStats(await fetchStats())
     } catch (error) {
       console.error('Error fetching admin data:', error)
     } finally {
@@ -97,53 +140,112 @@ export default function Admin() {
     }
   }
 
-  const toggleUserAdmin = async (userId: string, isAdmin: boolean) => {
+  // Counted by the backend rather than from loaded rows
+  const fetchStats = async (): Promise<AdminStats> => {
+    const [totalUsers, adminUsers, totalCommands, activeCommands] = await Promise.all([
+      profilesRepository.count(),
+      profilesRepository.count({ admins: true }),
+      commandsRepository.count({ workspace }),
+      commandsRepository.count({ workspace, isActive: true }),
+    ])
+
+    return { totalUsers, totalCommands, activeCommands, adminUsers }
+  }
+
+  const loadMoreCommands = async () => {
+    if (!nextCursor) return
+
+    setLoadingMore(true)
     try {
-      const { error } = await supabase
-        .from('user_profiles')
-        .update({ is_admin: !isAdmin, updated_at: new Date().toISOString() })
-        .eq('id', userId)
+      const page = await commandsRepository.search(commandFilters, nextCursor, PAGE_SIZE)
+      setCommands([...commands, ...page.commands])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Error fetching commands:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
 
-      if (error) throw error
-      
-      setUsers(users.map(user => 
-        user.id === userId ? { ...user, is_admin: !isAdmin } : user
+  const loadMoreUsers = async () => {
+    if (!usersCursor) return
+
+    setLoadingMoreUsers(true)
+    try {
+      const page = await profilesRepository.list(usersCursor, PAGE_SIZE)
+      setUsers([...users, ...page.profiles])
+      setUsersCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Error fetching users:', error)
+    } finally {
+      setLoadingMoreUsers(false)
+    }
+  }
+
+  const changeUserRole = async (target: UserProfile, role: UserRole) => {
+    if (!user || target.id === user.id) return
+
+    const previous = roleOf(target)
+    if (previous === role) return
+
+    try {
+      // `is_admin` is kept in step for policies that have not moved to roles
+      await profilesRepository.update(target.id, { role, is_admin: role === 'admin', updated_at: new Date().toISOString() })
+
+      setUsers(users.map(u =>
+        u.id === target.id ? { ...u, role, is_admin: role === 'admin' } : u
       ))
+      setStats(prev => ({
+        ...prev,
+        adminUsers: prev.adminUsers + (role === 'admin' ? 1 : 0) - (previous === 'admin' ? 1 : 0)
+      }))
+
+      await logAuditEvent({
+        actor: user,
+        action: 'user.change_role',
+        targetType: 'user',
+        targetId: target.id,
+        before: { role: previous },
+        after: { role },
+      })
     } catch (error) {
-      console.error('Error updating user admin status:', error)
+      console.error('Error updating user role:', error)
     }
   }
 
   const deleteCommand = async (commandId: string) => {
+    if (!user) return
     if (!confirm('Are you sure you want to permanently delete this command?')) return
 
-    try {
-      const { error } = await supabase
-        .from('commands')
-        .delete()
-        .eq('id', commandId)
+    const deleted = commands.find(cmd => cmd.id === commandId)
 
-      if (error) throw error
+    try {
+      await commandsRepository.remove([commandId])
       
       setCommands(commands.filter(cmd => cmd.id !== commandId))
       setStats(prev => ({
         ...prev,
         totalCommands: prev.totalCommands - 1,
-        activeCommands: prev.activeCommands - (commands.find(cmd => cmd.id === commandId)?.is_active ? 1 : 0)
+        activeCommands: prev.activeCommands - (deleted?.is_active ? 1 : 0)
       }))
+
+      await logAuditEvent({
+        actor: user,
+        action: 'command.delete',
+        targetType: 'command',
+        targetId: commandId,
+        before: deleted ? { ...deleted } : null,
+      })
     } catch (error) {
       console.error('Error deleting command:', error)
     }
   }
 
   const toggleCommandStatus = async (commandId: string, isActive: boolean) => {
-    try {
-      const { error } = await supabase
-        .from('commands')
-        .update({ is_active: !isActive, updated_at: new Date().toISOString() })
-        .eq('id', commandId)
+    if (!user) return
 
-      if (error) throw error
+    try {
+      await commandsRepository.update(commandId, { is_active: !isActive, updated_at: new Date().toISOString() })
       
       setCommands(commands.map(cmd => 
         cmd.id === commandId ? { ...cmd, is_active: !isActive } : cmd
@@ -153,32 +255,40 @@ export default function Admin() {
         ...prev,
         activeCommands: prev.activeCommands + (isActive ? -1 : 1)
       }))
+
+      await logAuditEvent({
+        actor: user,
+        action: isActive ? 'command.deactivate' : 'command.activate',
+        targetType: 'command',
+        targetId: commandId,
+        before: { is_active: isActive },
+        after: { is_active: !isActive },
+      })
     } catch (error) {
       console.error('Error updating command status:', error)
     }
   }
 
   const resetDatabase = async () => {
+    if (!user || !workspace) return
     if (!confirm('Are you sure you want to reset the database? This action cannot be undone!')) return
-    if (!confirm('This will delete ALL data. Type "RESET" to confirm:') || 
+    if (!confirm(`This will delete ALL commands in ${workspace.name} and make every other user a ${ROLE_LABELS[DEFAULT_ROLE]}. Type "RESET" to confirm:`) || 
         prompt('Type "RESET" to confirm:') !== 'RESET') return
 
     try {
-      // Delete all commands
-      const { error: commandsError } = await supabase
-        .from('commands')
-        .delete()
-        .neq('id', '00000000-0000-0000-0000-000000000000') // Delete all
-
-      if (commandsError) throw commandsError
-
-      // Reset non-admin users
-      const { error: usersError } = await supabase
-        .from('user_profiles')
-        .update({ is_admin: false })
-        .neq('id', user?.id) // Keep current user as admin
-
-      if (usersError) throw usersError
+      await commandsRepository.removeWhere({ workspace })
+
+      // Reset other users' roles, keeping the current user as admin
+      await profilesRepository.updateAllExcept(user.id, { role: DEFAULT_ROLE, is_admin: false })
+
+      await logAuditEvent({
+        actor: user,
+        action: 'database.reset',
+        targetType: 'database',
+        targetId: workspace.id,
+        before: { commands: stats.totalCommands, admin_users: stats.adminUsers },
+        after: { commands: 0, admin_users: 1 },
+      })
 
       alert('Database reset successfully!')
       fetchData()
@@ -188,6 +298,27 @@ export default function Admin() {
     }
   }
 
+  const toggleSetting = async (key: ToggleSettingKey) => {
+    if (!user) return
+
+    const previous = settings[key]
+
+    try {
+      await updateSetting(key, !previous)
+
+      await logAuditEvent({
+        actor: user,
+        action: 'settings.update',
+        targetType: 'setting',
+        targetId: key,
+        before: { [key]: previous },
+        after: { [key]: !previous },
+      })
+    } catch (error) {
+      console.error('Error updating setting:', error)
+    }
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -196,6 +327,8 @@ export default function Admin() {
     )
   }
 
+  const currentUserId = user?.id
+
   return (
     <div className="min-h-screen bg-dark-900 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -207,6 +340,7 @@ export default function Admin() {
           </h1>
           <p className="text-dark-300 text-lg">
             Manage users, commands, and system settings
+            {workspace && <span className="text-dark-400"> · commands in {workspace.name}</span>}
           </p>
         </div>
 
@@ -320,7 +454,9 @@ export default function Admin() {
             </motion.div>
           )}
 
-          {activeTab === 'users' && (
+          {activeTab === 'users' && workspace && <WorkspaceMembers />}
+
+          {activeTab === 'users' && isAdmin && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -353,35 +489,44 @@ export default function Admin() {
                         </td>
                         <td className="py-3 px-4 text-dark-300">{user.email}</td>
                         <td className="py-3 px-4">
-                          <span className={`px-2 py-1 rounded-full text-xs ${
-                            user.is_admin 
-                              ? 'bg-red-500/20 text-red-400' 
-                              : 'bg-blue-500/20 text-blue-400'
-                          }`}>
-                            {user.is_admin ? 'Admin' : 'User'}
+                          <span className={`px-2 py-1 rounded-full text-xs ${ROLE_STYLES[roleOf(user)]}`}>
+                            {ROLE_LABELS[roleOf(user)]}
                           </span>
                         </td>
                         <td className="py-3 px-4 text-dark-300">
                           {new Date(user.created_at).toLocaleDateString()}
                         </td>
                         <td className="py-3 px-4">
-                          <button
-                            onClick={() => toggleUserAdmin(user.id, user.is_admin)}
-                            className={`p-2 rounded-lg transition-colors ${
-                              user.is_admin
-                                ? 'text-red-400 hover:bg-red-500/20'
-                                : 'text-green-400 hover:bg-green-500/20'
-                            }`}
-                            title={user.is_admin ? 'Remove Admin' : 'Make Admin'}
+                          <select
+                            value={roleOf(user)}
+                            onChange={(e) => changeUserRole(user, e.target.value as UserRole)}
+                            disabled={user.id === currentUserId}
+                            title={user.id === currentUserId ? 'You cannot change your own role' : 'Change role'}
+                            className="input-field py-1 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
                           >
-                            {user.is_admin ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
-                          </button>
+                            {ROLES.map(role => (
+                              <option key={role} value={role} title={ROLE_DESCRIPTIONS[role]}>
+                                {ROLE_LABELS[role]}
+                              </option>
+                            ))}
+                          </select>
                         </td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
               </div>
+              {usersCursor && (
+                <div className="flex justify-center mt-6">
+                  <button
+                    onClick={loadMoreUsers}
+                    disabled={loadingMoreUsers}
+                    className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {loadingMoreUsers ? 'Loading...' : `Load more (${users.length} of ${stats.totalUsers})`}
+                  </button>
+                </div>
+              )}
             </motion.div>
           )}
 
@@ -391,13 +536,33 @@ export default function Admin() {
               animate={{ opacity: 1, y: 0 }}
               className="card"
             >
-              <h3 className="text-xl font-semibold mb-6">Command Management</h3>
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-semibold">Command Management</h3>
+                <div className="flex space-x-2">
+                  {isAdmin && (
+                    <button
+                      onClick={() => setShowImportModal(true)}
+                      className="btn-secondary flex items-center space-x-2"
+                    >
+                      <Upload className="w-5 h-5" />
+                      <span>Import</span>
+                    </button>
+                  )}
+                  <ExportMenu
+                    commands={commands}
+                    total={stats.totalCommands}
+                    loadAll={() => fetchAllCommands(commandFilters)}
+                    filename={`ariola-library-${new Date().toISOString().slice(0, 10)}`}
+                  />
+                </div>
+              </div>
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead>
                     <tr className="border-b border-dark-700">
                       <th className="text-left py-3 px-4">Name</th>
                       <th className="text-left py-3 px-4">Category</th>
+                      <th className="text-left py-3 px-4">Review</th>
                       <th className="text-left py-3 px-4">Status</th>
                       <th className="text-left py-3 px-4">Created</th>
                       <th className="text-left py-3 px-4">Actions</th>
@@ -408,8 +573,11 @@ export default function Admin() {
                       <tr key={command.id} className="border-b border-dark-700/50">
                         <td className="py-3 px-4 font-medium">{command.name}</td>
                         <td className="py-3 px-4">
-                          <span className="bg-primary-600/20 text-primary-400 px-2 py-1 rounded-full text-xs">
-                            {command.category}
+                          <CategoryBadge slug={command.category} />
+                        </td>
+                        <td className="py-3 px-4">
+                          <span className={`px-2 py-1 rounded-full text-xs ${COMMAND_STATUS_STYLES[command.status]}`}>
+                            {COMMAND_STATUS_LABELS[command.status]}
                           </span>
                         </td>
                         <td className="py-3 px-4">
@@ -426,24 +594,28 @@ export default function Admin() {
                         </td>
                         <td className="py-3 px-4">
                           <div className="flex space-x-2">
-                            <button
-                              onClick={() => toggleCommandStatus(command.id, command.is_active)}
-                              className={`p-2 rounded-lg transition-colors ${
-                                command.is_active
-                                  ? 'text-yellow-400 hover:bg-yellow-500/20'
-                                  : 'text-green-400 hover:bg-green-500/20'
-                              }`}
-                              title={command.is_active ? 'Deactivate' : 'Activate'}
-                            >
-                              <Edit className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => deleteCommand(command.id)}
-                              className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
-                              title="Delete"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
+                            {canEditAny && (
+                              <button
+                                onClick={() => toggleCommandStatus(command.id, command.is_active)}
+                                className={`p-2 rounded-lg transition-colors ${
+                                  command.is_active
+                                    ? 'text-yellow-400 hover:bg-yellow-500/20'
+                                    : 'text-green-400 hover:bg-green-500/20'
+                                }`}
+                                title={command.is_active ? 'Deactivate' : 'Activate'}
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                            )}
+                            {canDeleteAny && (
+                              <button
+                                onClick={() => deleteCommand(command.id)}
+                                className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                                title="Delete"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -451,6 +623,17 @@ export default function Admin() {
                   </tbody>
                 </table>
               </div>
+              {nextCursor && (
+                <div className="flex justify-center mt-6">
+                  <button
+                    onClick={loadMoreCommands}
+                    disabled={loadingMore}
+                    className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {loadingMore ? 'Loading...' : `Load more (${commands.length} of ${stats.totalCommands})`}
+                  </button>
+                </div>
+              )}
             </motion.div>
           )}
 
@@ -470,7 +653,8 @@ export default function Admin() {
                   <div className="border border-red-500/20 rounded-lg p-4">
                     <h4 className="font-semibold text-red-400 mb-2">Reset Database</h4>
                     <p className="text-dark-300 text-sm mb-4">
-                      This will delete all commands and reset user permissions (except your admin status).
+                      This will delete all commands in {workspace?.name ?? 'this workspace'} and make every other user
+                      a {ROLE_LABELS[DEFAULT_ROLE]}, keeping your admin role. User accounts are kept.
                     </p>
                     <button
                       onClick={resetDatabase}
@@ -484,6 +668,18 @@ export default function Admin() {
             </motion.div>
           )}
 
+          {activeTab === 'review' && (
+            <ReviewQueue
+              onReviewed={(reviewed) => setCommands(commands.map(cmd => cmd.id === reviewed.id ? reviewed : cmd))}
+            />
+          )}
+
+          {activeTab === 'categories' && <CategoryManager onCommandsChanged={() => fetchData()} />}
+
+          {activeTab === 'tags' && <TagManager />}
+
+          {activeTab === 'audit' && <AuditLog />}
+
           {activeTab === 'settings' && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -498,34 +694,40 @@ export default function Admin() {
                     Configure global application settings and preferences.
                   </p>
                   <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium">Allow User Registration</p>
-                        <p className="text-sm text-dark-400">Enable new users to register accounts</p>
-                      </div>
-                      <label className="relative inline-flex items-center cursor-pointer">
-                        <input type="checkbox" className="sr-only peer" defaultChecked />
-                        <div className="w-11 h-6 bg-dark-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-600"></div>
-                      </label>
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium">Command Approval Required</p>
-                        <p className="text-sm text-dark-400">New commands require admin approval</p>
+                    {(Object.keys(SETTING_DEFINITIONS) as ToggleSettingKey[]).map((key) => (
+                      <div key={key} className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{SETTING_DEFINITIONS[key].label}</p>
+                          <p className="text-sm text-dark-400">{SETTING_DEFINITIONS[key].description}</p>
+                        </div>
+                        <label className="relative inline-flex items-center cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="sr-only peer"
+                            checked={settings[key]}
+                            onChange={() => toggleSetting(key)}
+                          />
+                          <div className="w-11 h-6 bg-dark-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-600"></div>
+                        </label>
                       </div>
-                      <label className="relative inline-flex items-center cursor-pointer">
-                        <input type="checkbox" className="sr-only peer" />
-                        <div className="w-11 h-6 bg-dark-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-600"></div>
-                      </label>
-                    </div>
+                    ))}
                   </div>
                 </div>
+
+                <div className="border-t border-dark-700 pt-6">
+                  <LintRulesSettings />
+                </div>
               </div>
             </motion.div>
           )}
         </div>
       </div>
+
+      <ImportCommandsModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={() => fetchData()}
+      />
     </div>
   )
 }
\ No newline at end of file
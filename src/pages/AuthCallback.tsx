@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Terminal, Lock } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { useAuth } from '../contexts/AuthContext'
+import { authErrorMessage, authRedirectError } from '../lib/authErrors'
+import { AuthProvider, providerBySupabaseName } from '../lib/authProviders'
+
+interface PendingLink {
+  email: string
+  provider: AuthProvider | undefined
+}
+
+// Where GitHub, Google and the company's identity provider send the user back
+// to, both after signing in and after connecting a provider to an account.
+export default function AuthCallback() {
+  const { signIn, linkProvider, completeProviderSignIn } = useAuth()
+  const [error, setError] = useState('')
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null)
+  const [password, setPassword] = useState('')
+  const [linking, setLinking] = useState(false)
+  const started = useRef(false)
+  const navigate = useNavigate()
+
+  useEffect(() => {
+    // The sign-in can only be completed once, and StrictMode runs effects twice
+    if (started.current) return
+    started.current = true
+
+    const redirectError = authRedirectError(window.location)
+    if (redirectError) {
+      setError(redirectError)
+      return
+    }
+
+    completeProviderSignIn()
+      .then(result => {
+        if (result.status === 'signed-in') {
+          navigate('/', { replace: true })
+        } else {
+          setPendingLink({ email: result.email, provider: providerBySupabaseName(result.provider) })
+        }
+      })
+      .catch(error => {
+        console.error('Error completing sign-in:', error)
+        setError(authErrorMessage(error))
+      })
+  }, [])
+
+  // Signing in to the existing account and then connecting the provider to
+  // it; the provider sends the user back here once more to finish
+  const handleLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!pendingLink?.provider) return
+
+    setLinking(true)
+    setError('')
+    try {
+      await signIn(pendingLink.email, password)
+      await linkProvider(pendingLink.provider.id)
+    } catch (error) {
+      setError(authErrorMessage(error))
+      setLinking(false)
+    }
+  }
+
+  const renderBody = () => {
+    if (pendingLink) {
+      const providerName = pendingLink.provider?.label ?? 'this provider'
+      return (
+        <form className="mt-8 space-y-6" onSubmit={handleLink}>
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+            <p className="text-yellow-400 text-sm">
+              There is already an account for {pendingLink.email}. Sign in with its password to connect {providerName} to it,
+              then you can use either to sign in.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          {pendingLink.provider && (
+            <>
+              <div>
+                <label htmlFor="password" className="sr-only">
+                  Password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-5 h-5" />
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete="current-password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="input-field pl-10 w-full"
+                    placeholder={`Password for ${pendingLink.email}`}
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={linking}
+                className="btn-primary w-full text-lg py-4 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {linking ? 'Connecting...' : `Sign in and connect ${providerName}`}
+              </button>
+            </>
+          )}
+
+          <div className="text-center">
+            <Link to="/login" className="text-primary-400 hover:text-primary-300 transition-colors">
+              Back to sign in
+            </Link>
+          </div>
+        </form>
+      )
+    }
+
+    if (error) {
+      return (
+        <div className="mt-8 space-y-6">
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+          <Link to="/login" className="btn-primary w-full text-lg py-4 block text-center">
+            Back to sign in
+          </Link>
+        </div>
+      )
+    }
+
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-dark-900 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+        >
+          <div className="text-center">
+            <Link to="/" className="flex items-center justify-center space-x-2 mb-8">
+              <div className="w-12 h-12 bg-gradient-primary rounded-lg flex items-center justify-center">
+                <Terminal className="w-7 h-7 text-white" />
+              </div>
+              <span className="text-3xl font-bold text-gradient">Ariola</span>
+            </Link>
+
+            <h2 className="text-3xl font-bold text-white mb-2">
+              {pendingLink ? 'Connect your accounts' : 'Signing you in'}
+            </h2>
+          </div>
+
+          {renderBody()}
+        </motion.div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,368 @@
+import React, { useState, useEffect } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { ArrowLeft, Terminal, Copy, Check, Edit, Trash2, History, Star, Link2 } from 'lucide-react'
+import { Command, CommandRevision, Shell, Tag } from '../lib/supabase'
+import { updateCommand, isProposedEdit, deactivateCommand, commandUrl } from '../lib/commands'
+import { commandsRepository, profilesRepository } from '../lib/repositories'
+import { fetchTags, fetchTagsOfCommand, setCommandTags } from '../lib/tags'
+import { fetchFavorites, setFavorite } from '../lib/collections'
+import { COMMAND_STATUS_LABELS, COMMAND_STATUS_STYLES } from '../lib/moderation'
+import { hasPlaceholders } from '../lib/templates'
+import { lintCommand, resolveLintRules, confirmDangerousCopy } from '../lib/commandLint'
+import { SHELLS, DEFAULT_SHELL, SHELL_LABELS, SHELL_PLATFORMS, detectShell, commandForShell } from '../lib/shells'
+import { hasPermission } from '../lib/permissions'
+import { useAuth } from '../contexts/AuthContext'
+import { useWorkspace } from '../contexts/WorkspaceContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { useCategories } from '../contexts/CategoriesContext'
+import CommandModal, { CommandFormData } from '../components/CommandModal'
+import CommandHistory from '../components/CommandHistory'
+import FillTemplateModal from '../components/FillTemplateModal'
+import CommandCode from '../components/CommandCode'
+import CategoryBadge from '../components/CategoryBadge'
+import LintBadge from '../components/LintBadge'
+
+export default function CommandDetail() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user, profile } = useAuth()
+  const { workspaces, role: activeRole, roleIn, loading: workspaceLoading } = useWorkspace()
+  const { settings } = useSettings()
+  const { categories } = useCategories()
+  const lintRules = resolveLintRules(settings.lint_rules)
+  const [command, setCommand] = useState<Command | null>(null)
+  const [tags, setTags] = useState<string[]>([])
+  const [allTags, setAllTags] = useState<Tag[]>([])
+  const [author, setAuthor] = useState('')
+  const [favorite, setFavoriteState] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [shell, setShell] = useState<Shell>(detectShell())
+  const [copied, setCopied] = useState<'command' | 'link' | null>(null)
+  const [showEditor, setShowEditor] = useState(false)
+  const [notice, setNotice] = useState('')
+  const [showHistory, setShowHistory] = useState(false)
+  const [showTemplate, setShowTemplate] = useState(false)
+
+  useEffect(() => {
+    if (id && !workspaceLoading) fetchData(id)
+  }, [id, workspaceLoading, user?.id])
+
+  useEffect(() => {
+    if (profile?.preferred_shell) setShell(profile.preferred_shell)
+  }, [profile?.preferred_shell])
+
+  const fetchData = async (commandId: string) => {
+    try {
+      const [loaded, tagList] = await Promise.all([commandsRepository.get(commandId), fetchTags()])
+      setCommand(loaded)
+      setAllTags(tagList)
+      if (!loaded) return
+
+      const [names, favoriteIds, authorProfile] = await Promise.all([
+        fetchTagsOfCommand(loaded.id, tagList),
+        user ? fetchFavorites(user.id) : Promise.resolve([]),
+        loaded.created_by ? profilesRepository.get(loaded.created_by) : Promise.resolve(null),
+      ])
+      setTags(names)
+      setFavoriteState(favoriteIds.includes(loaded.id))
+      setAuthor(authorProfile?.full_name || authorProfile?.email || '')
+    } catch (error) {
+      console.error('Error fetching command:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading || workspaceLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-500"></div>
+      </div>
+    )
+  }
+
+  // Permissions follow the command's own workspace rather than the active one
+  const home = command
+    ? workspaces.find(w => w.id === command.workspace_id) ?? (command.workspace_id ? null : workspaces.find(w => w.is_default) ?? null)
+    : null
+  const role = home ? roleIn(home) : workspaces.length === 0 ? activeRole : null
+  const isOwner = !!user && command?.created_by === user.id
+  const canEdit = isOwner || hasPermission(role, 'edit_any')
+  const canDelete = isOwner || hasPermission(role, 'delete')
+
+  // Deleted commands, other people's unreviewed submissions and commands in
+  // workspaces the viewer can't see all look the same from outside
+  const visible = !!command && command.is_active && (workspaces.length === 0 || !!home) &&
+    (command.status === 'approved' || isOwner || hasPermission(role, 'moderate'))
+
+  if (!command || !visible) {
+    return (
+      <div className="min-h-screen bg-dark-900 py-8">
+        <div className="max-w-3xl mx-auto px-4 text-center py-12">
+          <Terminal className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-semibold text-dark-300 mb-2">Command not found</h1>
+          <p className="text-dark-500">It may have been deleted, or you may not have access to it.</p>
+          <Link to="/commands" className="btn-primary inline-block mt-4">
+            Back to commands
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const variant = commandForShell(command, shell)
+  const shells = SHELLS.filter(option => option === DEFAULT_SHELL || command.variants?.[option]?.trim())
+
+  const copyToClipboard = async (text: string, what: 'command' | 'link') => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(what)
+      setTimeout(() => setCopied(null), 2000)
+    } catch (error) {
+      console.error('Failed to copy:', error)
+    }
+  }
+
+  const handleCopy = () => {
+    if (hasPlaceholders(variant.text)) {
+      setShowTemplate(true)
+    } else if (confirmDangerousCopy(variant.text, lintRules)) {
+      copyToClipboard(variant.text, 'command')
+      countCopy()
+    }
+  }
+
+  const countCopy = async () => {
+    try {
+      await commandsRepository.recordCopy(command.id)
+    } catch (error) {
+      console.error('Error recording copy:', error)
+    }
+  }
+
+  const handleUpdate = async (updates: Partial<Command>, restoredFrom: string | null = null) => {
+    if (!user) return
+
+    const needsApproval = settings.require_command_approval && !hasPermission(role, 'moderate')
+
+    try {
+      setCommand(await updateCommand(command, command.id, updates, user.id, { restoredFrom, needsApproval }))
+      if (isProposedEdit(command, updates, needsApproval)) {
+        setNotice('Your edit was sent for review. The current version stays in the library until a reviewer approves it.')
+      }
+      setShowEditor(false)
+    } catch (error) {
+      console.error('Error updating command:', error)
+    }
+  }
+
+  const handleEdit = async ({ tags: nextTags, ...updates }: CommandFormData) => {
+    await handleUpdate(updates)
+
+    try {
+      setAllTags(await setCommandTags(command.id, nextTags))
+      setTags([...nextTags].sort())
+    } catch (error) {
+      console.error('Error updating tags:', error)
+    }
+  }
+
+  const handleRestore = async (revision: CommandRevision) => {
+    await handleUpdate({
+      name: revision.name,
+      description: revision.description,
+      command: revision.command,
+      category: revision.category,
+      variants: revision.variants ?? {},
+    }, revision.id)
+  }
+
+  const handleDelete = async () => {
+    if (!confirm('Are you sure you want to delete this command?')) return
+
+    try {
+      await deactivateCommand(command.id)
+      navigate('/commands')
+    } catch (error) {
+      console.error('Error deleting command:', error)
+    }
+  }
+
+  const toggleFavorite = async () => {
+    if (!user) return
+
+    try {
+      await setFavorite(user.id, command.id, !favorite)
+      setFavoriteState(!favorite)
+    } catch (error) {
+      console.error('Error updating favorite:', error)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-dark-900 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link to="/commands" className="nav-link inline-flex items-center space-x-2 mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          <span>All commands</span>
+        </Link>
+
+        {notice && (
+          <div className="mb-8 bg-primary-600/10 border border-primary-500/20 rounded-lg p-4 flex items-center justify-between">
+            <p className="text-primary-300 text-sm">{notice}</p>
+            <button onClick={() => setNotice('')} className="text-dark-400 hover:text-white text-sm">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Header */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-3">{command.name}</h1>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <CategoryBadge slug={command.category} size="md">
+                {categories.find(c => c.slug === command.category)?.name ?? command.category}
+              </CategoryBadge>
+              {command.status !== 'approved' && (
+                <span className={`px-2 py-1 rounded-full text-xs ${COMMAND_STATUS_STYLES[command.status]}`}>
+                  {COMMAND_STATUS_LABELS[command.status]}
+                </span>
+              )}
+              <LintBadge findings={lintCommand(variant.text, lintRules)} />
+            </div>
+            <p className="text-dark-400 text-sm">
+              By {author || 'Unknown user'} · created {new Date(command.created_at).toLocaleString()}
+              {command.updated_at !== command.created_at && ` · updated ${new Date(command.updated_at).toLocaleString()}`}
+              {home && workspaces.length > 1 && ` · ${home.name}`}
+            </p>
+          </div>
+
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={() => copyToClipboard(commandUrl(command.id), 'link')}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              {copied === 'link' ? <Check className="w-4 h-4 text-green-400" /> : <Link2 className="w-4 h-4" />}
+              <span>{copied === 'link' ? 'Copied' : 'Copy link'}</span>
+            </button>
+            {user && (
+              <button
+                onClick={toggleFavorite}
+                className={`p-2 rounded-lg transition-colors ${
+                  favorite ? 'text-yellow-400' : 'text-dark-400 hover:text-yellow-400'
+                }`}
+                title={favorite ? 'Remove from favorites' : 'Add to favorites'}
+              >
+                <Star className={`w-5 h-5 ${favorite ? 'fill-current' : ''}`} />
+              </button>
+            )}
+            <button
+              onClick={() => setShowHistory(true)}
+              className="p-2 text-dark-400 hover:text-primary-400 rounded-lg transition-colors"
+              title="History"
+            >
+              <History className="w-5 h-5" />
+            </button>
+            {canEdit && (
+              <button onClick={() => setShowEditor(true)} className="btn-secondary flex items-center space-x-2">
+                <Edit className="w-4 h-4" />
+                <span>Edit</span>
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={handleDelete}
+                className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                title="Delete command"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Description */}
+        <div className="card mb-6">
+          <p className="text-dark-300 whitespace-pre-wrap">{command.description}</p>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {tags.map(tag => (
+                <Link
+                  key={tag}
+                  to={`/commands?tags=${encodeURIComponent(tag)}`}
+                  className="bg-dark-700 text-dark-300 hover:text-primary-400 px-2 py-1 rounded-full text-xs transition-colors"
+                >
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Command */}
+        <div className="card">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <div className="flex rounded-lg border border-dark-600 overflow-hidden">
+              {shells.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setShell(option)}
+                  title={SHELL_PLATFORMS[option]}
+                  className={`px-3 py-1 text-xs transition-colors ${
+                    variant.shell === option ? 'bg-primary-600 text-white' : 'text-dark-300 hover:bg-dark-700'
+                  }`}
+                >
+                  {SHELL_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            <button onClick={handleCopy} className="btn-primary flex items-center space-x-2">
+              {copied === 'command' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              <span>{copied === 'command' ? 'Copied' : 'Copy command'}</span>
+            </button>
+          </div>
+          <div className="bg-dark-700 rounded-lg p-4">
+            <CommandCode text={variant.text} shell={variant.shell} />
+          </div>
+          {variant.shell !== shell && (
+            <p className="text-xs text-dark-400 mt-2">No {SHELL_LABELS[shell]} variant, showing {SHELL_LABELS[variant.shell]}.</p>
+          )}
+        </div>
+      </div>
+
+      <CommandModal
+        isOpen={showEditor}
+        onClose={() => setShowEditor(false)}
+        onSubmit={handleEdit}
+        command={command}
+        categories={categories}
+        tags={tags}
+        tagSuggestions={allTags.map(tag => tag.name)}
+        lintRules={lintRules}
+      />
+
+      <CommandHistory
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        command={command}
+        canRestore={canEdit}
+        onRestore={handleRestore}
+      />
+
+      <FillTemplateModal
+        isOpen={showTemplate}
+        onClose={() => setShowTemplate(false)}
+        onCopy={(rendered) => {
+          if (!confirmDangerousCopy(rendered, lintRules)) return
+          copyToClipboard(rendered, 'command')
+          countCopy()
+          setShowTemplate(false)
+        }}
+        name={command.name}
+        template={variant.text}
+        shell={variant.shell}
+      />
+    </div>
+  )
+}
@@ -1,78 +1,372 @@
-import React, { useState, useEffect } from 'react'
-import { Search, Filter, Plus, Terminal, Copy, Check, Edit, Trash2 } from 'lucide-react'
+import React, { useState, useEffect, useRef } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { Search, Filter, Plus, Terminal, Copy, Check, Edit, Trash2, History, CheckSquare, Square, FileCode, Tags, Star, ArrowUp, ArrowDown, TerminalSquare, ArrowRightLeft, Link2, ArrowUpDown } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { supabase } from '../lib/supabase'
+import { Command, CommandRevision, CommandStatus, Tag, Collection, Shell, Workspace } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { useWorkspace, usePermission } from '../contexts/WorkspaceContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { useCategories } from '../contexts/CategoriesContext'
+import { useConnectivity } from '../contexts/ConnectivityContext'
+import { hasPlaceholders } from '../lib/templates'
+import { SHELLS, DEFAULT_SHELL, SHELL_LABELS, SHELL_PLATFORMS, detectShell, commandForShell } from '../lib/shells'
+import { lintCommand, resolveLintRules, confirmDangerousCopy } from '../lib/commandLint'
+import { REVISION_FIELDS, recordRevision } from '../lib/revisions'
+import { commandUrl, localEdits, updateCommand, isProposedEdit, deactivateCommand, fetchAllCommands } from '../lib/commands'
+import { commandsRepository } from '../lib/repositories'
+import { LibraryQuery, SortKey, SORT_KEYS, SORT_LABELS, PAGE_SIZE, readLibraryQuery, writeLibraryQuery } from '../lib/libraryView'
+import { CommandFilters, CommandCursor } from '../lib/commandQuery'
+import { queryLibraryMirror } from '../lib/libraryMirror'
+import { isOnline } from '../lib/connectivity'
+import { COMMAND_STATUS_LABELS, COMMAND_STATUS_STYLES, fetchSubmissions } from '../lib/moderation'
+import { SearchResult, parseQuery, isEmptyQuery, searchCommands } from '../lib/search'
+import { TagMode, fetchTags, fetchCommandTags, setCommandTags } from '../lib/tags'
+import { belongsToWorkspace, moveCommands, copyCommands } from '../lib/workspaces'
+import { TableChange, subscribeToTable } from '../lib/realtime'
+import { hasPermission } from '../lib/permissions'
+import { logAuditEvent } from '../lib/audit'
+import {
+  CollectionItems,
+  fetchFavorites,
+  setFavorite,
+  fetchCollections,
+  fetchCollectionItems,
+  createCollection,
+  renameCollection,
+  deleteCollection,
+  setCollectionVisibility,
+  addToCollection,
+  removeFromCollection,
+  reorderCollection,
+} from '../lib/collections'
+import FillTemplateModal from '../components/FillTemplateModal'
+import CommandHistory from '../components/CommandHistory'
+import ExportMenu from '../components/ExportMenu'
+import ExportScriptModal from '../components/ExportScriptModal'
+import MoveCommandsModal, { TransferMode } from '../components/MoveCommandsModal'
+import Highlight from '../components/Highlight'
+import CommandCode from '../components/CommandCode'
+import CategoryBadge from '../components/CategoryBadge'
+import LintBadge from '../components/LintBadge'
+import CollectionsSidebar, { LibraryView } from '../components/CollectionsSidebar'
+import AddToCollectionMenu from '../components/AddToCollectionMenu'
+import CommandModal, { CommandFormData } from '../components/CommandModal'
 
-interface Command {
-  id: string
-  name: string
-  description: string
-  command: string
-  category: string
-  created_at: string
-  updated_at: string
-  created_by: string
-  is_active: boolean
-}
+// Longer lists of submissions are collapsed behind "Show all"
+const SUBMISSIONS_SHOWN = 10
 
 export default function Commands() {
-  const { user, isAdmin } = useAuth()
+  const { user, profile, updateProfile } = useAuth()
+  const { workspace, workspaces, roleIn, loading: workspaceLoading } = useWorkspace()
+  const canCreate = usePermission('create')
+  const canEditAny = usePermission('edit_any')
+  const canDeleteAny = usePermission('delete')
+  const canModerate = usePermission('moderate')
+  const { settings } = useSettings()
+  const { online, saveOffline } = useConnectivity()
+  const { categories } = useCategories()
+  const lintRules = resolveLintRules(settings.lint_rules)
   const [commands, setCommands] = useState<Command[]>([])
-  const [filteredCommands, setFilteredCommands] = useState<Command[]>([])
+  const [submissions, setSubmissions] = useState<Command[]>([])
+  const [submissionFilter, setSubmissionFilter] = useState<CommandStatus | 'all'>('all')
+  const [showAllSubmissions, setShowAllSubmissions] = useState(false)
+  const [nextCursor, setNextCursor] = useState<CommandCursor | null>(null)
+  const [total, setTotal] = useState(0)
   const [loading, setLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [selectedCategory, setSelectedCategory] = useState('all')
+  const [loadingMore, setLoadingMore] = useState(false)
   const [showAddModal, setShowAddModal] = useState(false)
   const [editingCommand, setEditingCommand] = useState<Command | null>(null)
   const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [templateCommand, setTemplateCommand] = useState<Command | null>(null)
+  const [historyCommand, setHistoryCommand] = useState<Command | null>(null)
+  const [notice, setNotice] = useState('')
+  const [selectionMode, setSelectionMode] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [showScriptModal, setShowScriptModal] = useState(false)
+  const [showTransferModal, setShowTransferModal] = useState(false)
+  const [allTags, setAllTags] = useState<Tag[]>([])
+  const [commandTags, setCommandTagsState] = useState<Record<string, string[]>>({})
+  const [favorites, setFavorites] = useState<string[]>([])
+  const [collections, setCollections] = useState<Collection[]>([])
+  const [collectionItems, setCollectionItems] = useState<CollectionItems>({})
+  const [shell, setShell] = useState<Shell>(detectShell())
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = readLibraryQuery(searchParams)
+  const { search: searchTerm, category: selectedCategory, tags: selectedTags, tagMode, view, sort, page } = query
+  const [changedIds, setChangedIds] = useState<Set<string>>(new Set())
+  // Set while the list comes from the copy saved on this device
+  const [fromMirror, setFromMirror] = useState(false)
+  const [mirroredAt, setMirroredAt] = useState<string | null>(null)
+  const latestRequest = useRef(0)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const commandsRef = useRef(commands)
+  const acceptsRef = useRef<(command: Command) => boolean>(() => false)
 
-  const categories = [
-    'all', 'system', 'network', 'database', 'development', 'security', 'monitoring', 'deployment'
-  ]
+  // Favorites and collections narrow the query to their ids; everything but
+  // the number of loaded pages decides which rows match
+  const restrictIds = view === 'all' ? null : view === 'favorites' ? favorites : collectionItems[view] ?? []
+  const filterKey = JSON.stringify({ ...query, page: undefined, restrictIds })
+  // A collection is small and keeps its own order, so it loads in one go
+  const inCollection = view !== 'all' && view !== 'favorites'
 
   useEffect(() => {
-    fetchCommands()
+    loadTags()
   }, [])
 
   useEffect(() => {
-    filterCommands()
-  }, [commands, searchTerm, selectedCategory])
+    if (!workspaceLoading) fetchCommands()
+  }, [workspace?.id, workspaceLoading, filterKey, user?.id, online])
+
+  useEffect(() => {
+    if (user) {
+      loadCollections(user.id)
+    } else {
+      setSubmissions([])
+      setFavorites([])
+      setCollections([])
+      setCollectionItems({})
+      if (view !== 'all') setView('all', true)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    if (user && !workspaceLoading) loadSubmissions(user.id)
+  }, [user?.id, workspace?.id, workspaceLoading])
+
+  useEffect(() => {
+    if (profile?.preferred_shell) setShell(profile.preferred_shell)
+  }, [profile?.preferred_shell])
+
+  useEffect(() => {
+    if (workspaceLoading) return
+    return subscribeToTable('commands', handleCommandChange)
+  }, [workspace?.id, workspaceLoading, user?.id])
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !nextCursor) return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore()
+    }, { rootMargin: '400px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [nextCursor, loadingMore])
+
+  const commandFilters = (): CommandFilters => {
+    const search = parseQuery(searchTerm)
+    return {
+      workspace,
+      libraryOnly: true,
+      search,
+      category: selectedCategory,
+      tags: selectedTags,
+      tagMode,
+      list: restrictIds && {
+        kind: view === 'favorites' ? 'favorites' : 'collection',
+        id: view === 'favorites' ? user?.id ?? '' : view,
+        ids: restrictIds,
+      },
+      userId: user?.id,
+      order: sort === 'relevance' && isEmptyQuery(search) ? 'newest' : sort,
+    }
+  }
+
+  const inViewOrder = (loaded: Command[]) => {
+    if (!inCollection || sort !== 'relevance' || !isEmptyQuery(parseQuery(searchTerm))) return loaded
+
+    const position = new Map((restrictIds ?? []).map((id, index) => [id, index]))
+    return [...loaded].sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0))
+  }
 
+  // Reloads from the top, with as many rows as the pages already scrolled
+  // through so a reload or a shared link lands on the same list. Responses to
+  // superseded requests, e.g. while typing, are dropped.
   const fetchCommands = async () => {
+    const requestId = ++latestRequest.current
+    const filters = commandFilters()
+    const limit = inCollection ? Math.max(restrictIds?.length ?? 0, 1) : page * PAGE_SIZE
+
     try {
-      const { data, error } = await supabase
-        .from('commands')
-        .select('*')
-        .eq('is_active', true)
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-      setCommands(data || [])
+      if (!isOnline()) return await showMirror(requestId, filters, limit)
+
+      const [result, count] = await Promise.all([
+        commandsRepository.search(filters, null, limit),
+        commandsRepository.countSearch(filters),
+      ])
+      if (requestId !== latestRequest.current) return
+
+      const loaded = inViewOrder(result.commands)
+      setCommands(loaded)
+      setNextCursor(result.nextCursor)
+      setTotal(count)
+      setFromMirror(false)
+      await loadCommandTags(loaded)
     } catch (error) {
+      // A request failing is usually how a dead connection shows itself
+      if (!isOnline()) return await showMirror(requestId, filters, limit)
       console.error('Error fetching commands:', error)
     } finally {
-      setLoading(false)
+      if (requestId === latestRequest.current) setLoading(false)
     }
   }
 
-  const filterCommands = () => {
-    let filtered = commands
+  // Offline, the list comes from the library mirror. Search, filters and
+  // sorting work the same way there, only against the saved copy.
+  const showMirror = async (requestId: number, filters: CommandFilters, limit: number) => {
+    try {
+      const mirrored = await queryLibraryMirror(filters, null, limit)
+      if (requestId !== latestRequest.current) return
 
-    if (searchTerm) {
-      filtered = filtered.filter(cmd =>
-        cmd.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        cmd.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        cmd.command.toLowerCase().includes(searchTerm.toLowerCase())
-      )
+      setCommands(inViewOrder(mirrored?.commands ?? []))
+      setNextCursor(mirrored?.nextCursor ?? null)
+      setTotal(mirrored?.total ?? 0)
+      setCommandTagsState(mirrored?.commandTags ?? {})
+      setMirroredAt(mirrored?.syncedAt ?? null)
+      setFromMirror(true)
+    } catch (error) {
+      console.error('Error reading saved library:', error)
     }
+  }
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return
+
+    const requestId = latestRequest.current
+    setLoadingMore(true)
+    try {
+      const result = fromMirror
+        ? await queryLibraryMirror(commandFilters(), nextCursor, PAGE_SIZE) ?? { commands: [], nextCursor: null }
+        : await commandsRepository.search(commandFilters(), nextCursor, PAGE_SIZE)
+      if (requestId !== latestRequest.current) return
 
-    if (selectedCategory !== 'all') {
-      filtered = filtered.filter(cmd => cmd.category === selectedCategory)
+      setCommands(prev => [...prev, ...result.commands])
+      setNextCursor(result.nextCursor)
+      updateQuery({ page: page + 1 }, true)
+      if (!fromMirror) await loadCommandTags(result.commands)
+    } catch (error) {
+      console.error('Error fetching more commands:', error)
+    } finally {
+      setLoadingMore(false)
     }
+  }
 
-    setFilteredCommands(filtered)
+  // Whether a row that changed elsewhere belongs in the list as it is
+  // filtered now. Tags of a new row aren't known yet, so a tag filter keeps
+  // new rows out until the next reload.
+  acceptsRef.current = (command: Command) => {
+    if (!command.is_active || command.status !== 'approved') return false
+    if (!belongsToWorkspace(command, workspace)) return false
+    if (selectedCategory !== 'all' && command.category !== selectedCategory) return false
+    if (restrictIds && !restrictIds.includes(command.id)) return false
+    if (selectedTags.length > 0) return false
+    const search = parseQuery(searchTerm)
+    return isEmptyQuery(search) || searchCommands([command], search, { userId: user?.id, tags: commandTags }).length > 0
   }
+  commandsRef.current = commands
+
+  // Changes from other sessions are merged into the loaded rows. An open edit
+  // form keeps its own copy, so nothing typed there is lost.
+  const handleCommandChange = (change: TableChange<Command>) => {
+    if (change.type === 'DELETE') {
+      if (commandsRef.current.some(cmd => cmd.id === change.id)) {
+        setCommands(prev => prev.filter(cmd => cmd.id !== change.id))
+        setTotal(prev => prev - 1)
+      }
+      setSubmissions(prev => prev.filter(cmd => cmd.id !== change.id))
+      return
+    }
+
+    const row = change.row
+    const loaded = commandsRef.current.find(cmd => cmd.id === row.id)
+    const accepted = acceptsRef.current(row)
+
+    if (loaded && !accepted) {
+      setCommands(prev => prev.filter(cmd => cmd.id !== row.id))
+      setTotal(prev => prev - 1)
+    } else if (loaded && loaded.updated_at !== row.updated_at) {
+      setCommands(prev => prev.map(cmd => cmd.id === row.id ? row : cmd))
+      setHistoryCommand(prev => prev?.id === row.id ? row : prev)
+      markChanged(row.id)
+    } else if (!loaded && accepted && (change.type === 'INSERT' || row.created_by === user?.id)) {
+      setCommands(prev => prev.some(cmd => cmd.id === row.id) ? prev : [row, ...prev])
+      setTotal(prev => prev + 1)
+      markChanged(row.id)
+    }
+
+    if (user && row.created_by === user.id) {
+      setSubmissions(prev => {
+        const rest = prev.filter(cmd => cmd.id !== row.id)
+        return belongsToWorkspace(row, workspace) ? [row, ...rest] : rest
+      })
+    }
+  }
+
+  const markChanged = (id: string) => {
+    setChangedIds(prev => new Set(prev).add(id))
+    setTimeout(() => {
+      setChangedIds(prev => {
+        const next = new Set(prev)
+        next.delete(id)
+        return next
+      })
+    }, 10000)
+  }
+
+  const loadTags = async () => {
+    try {
+      setAllTags(await fetchTags())
+    } catch (error) {
+      console.error('Error fetching tags:', error)
+    }
+  }
+
+  const loadCommandTags = async (loaded: Command[]) => {
+    if (loaded.length === 0) return
+
+    try {
+      const tags = allTags.length > 0 ? allTags : await fetchTags()
+      const byCommand = await fetchCommandTags(tags, loaded.map(cmd => cmd.id))
+      setCommandTagsState(prev => ({
+        ...prev,
+        ...Object.fromEntries(loaded.map(cmd => [cmd.id, byCommand[cmd.id] ?? []])),
+      }))
+    } catch (error) {
+      console.error('Error fetching command tags:', error)
+    }
+  }
+
+  const loadSubmissions = async (userId: string) => {
+    try {
+      setSubmissions(await fetchSubmissions(userId, workspace))
+    } catch (error) {
+      console.error('Error fetching submissions:', error)
+    }
+  }
+
+  const loadCollections = async (userId: string) => {
+    try {
+      const [favoriteIds, collectionList] = await Promise.all([fetchFavorites(userId), fetchCollections(userId)])
+      setFavorites(favoriteIds)
+      setCollections(collectionList)
+      setCollectionItems(await fetchCollectionItems(collectionList.map(c => c.id)))
+    } catch (error) {
+      console.error('Error fetching collections:', error)
+    }
+  }
+
+  // Filter changes start again from the first page. Typing in the search box
+  // replaces the history entry rather than adding one per keystroke.
+  const updateQuery = (changes: Partial<LibraryQuery>, replace = false) => {
+    setSearchParams(prev => writeLibraryQuery({ ...readLibraryQuery(prev), page: 1, ...changes }), { replace })
+  }
+
+  const setSearchTerm = (search: string) => updateQuery({ search }, true)
+  const setSelectedCategory = (category: string) => updateQuery({ category })
+  const setSelectedTags = (tags: string[]) => updateQuery({ tags })
+  const setTagMode = (mode: TagMode) => updateQuery({ tagMode: mode })
+  const setView = (next: LibraryView, replace = false) => updateQuery({ view: next }, replace)
+  const setSort = (next: SortKey) => updateQuery({ sort: next })
 
   const copyToClipboard = async (text: string, id: string) => {
     try {
@@ -84,60 +378,315 @@ export default function Commands() {
     }
   }
 
-  const handleAddCommand = async (commandData: Omit<Command, 'id' | 'created_at' | 'updated_at' | 'created_by'>) => {
+  // Templates are checked once filled in, since the values can make a
+  // harmless-looking command dangerous
+  const handleCopy = (command: Command) => {
+    const { text } = commandForShell(command, shell)
+    if (hasPlaceholders(text)) {
+      setTemplateCommand(command)
+    } else if (confirmDangerousCopy(text, lintRules)) {
+      copyToClipboard(text, command.id)
+      countCopy(command.id)
+    }
+  }
+
+  const countCopy = async (commandId: string) => {
+    if (!isOnline()) return
+
+    try {
+      await commandsRepository.recordCopy(commandId)
+    } catch (error) {
+      console.error('Error recording copy:', error)
+    }
+  }
+
+  const handleShellChange = async (next: Shell) => {
+    setShell(next)
+    if (!user) return
+
+    try {
+      await updateProfile({ preferred_shell: next })
+    } catch (error) {
+      console.error('Error saving shell preference:', error)
+    }
+  }
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setSelectedIds(next)
+  }
+
+  // Highlights for the loaded rows; the database has already done the filtering
+  const matches: Record<string, SearchResult['matches']> = Object.fromEntries(
+    searchCommands(commands, parseQuery(searchTerm), { userId: user?.id, tags: commandTags })
+      .map(result => [result.command.id, result.matches])
+  )
+
+  // Search matches the slug, so highlights only line up when the displayed
+  // name spells the same thing
+  const categoryNameMatchesSlug = (slug: string) =>
+    (categories.find(c => c.slug === slug)?.name.toLowerCase() ?? slug) === slug
+
+  const activeCollection = collections.find(c => c.id === view)
+
+  const toggleTagFilter = (tag: string) => {
+    setSelectedTags(selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag])
+  }
+
+  const saveTags = async (commandId: string, tags: string[]) => {
+    const updatedTags = await setCommandTags(commandId, tags)
+    setAllTags(updatedTags)
+    setCommandTagsState({ ...commandTags, [commandId]: [...tags].sort() })
+  }
+
+  const toggleFavorite = async (commandId: string) => {
+    if (!user) return
+
+    const starred = !favorites.includes(commandId)
+    try {
+      await setFavorite(user.id, commandId, starred)
+      setFavorites(starred ? [commandId, ...favorites] : favorites.filter(id => id !== commandId))
+    } catch (error) {
+      console.error('Error updating favorite:', error)
+    }
+  }
+
+  const handleCreateCollection = async (commandId?: string) => {
     if (!user) return
 
+    const name = prompt('Collection name:')
+    if (!name?.trim()) return
+
     try {
-      const { data, error } = await supabase
-        .from('commands')
-        .insert({
-          ...commandData,
-          created_by: user.id,
-        })
-        .select()
-        .single()
-
-      if (error) throw error
-      setCommands([data, ...commands])
+      const collection = await createCollection(user.id, name)
+      if (commandId) await addToCollection(collection.id, commandId, 0)
+      setCollections([...collections, collection].sort((a, b) => a.name.localeCompare(b.name)))
+      setCollectionItems({ ...collectionItems, [collection.id]: commandId ? [commandId] : [] })
+    } catch (error) {
+      console.error('Error creating collection:', error)
+    }
+  }
+
+  const handleRenameCollection = async (collection: Collection) => {
+    const name = prompt('Rename collection:', collection.name)
+    if (!name?.trim() || name.trim() === collection.name) return
+
+    try {
+      const renamed = await renameCollection(collection.id, name)
+      setCollections(collections.map(c => c.id === collection.id ? renamed : c))
+    } catch (error) {
+      console.error('Error renaming collection:', error)
+    }
+  }
+
+  const handleDeleteCollection = async (collection: Collection) => {
+    if (!confirm(`Delete the collection "${collection.name}"? The commands themselves are kept.`)) return
+
+    try {
+      await deleteCollection(collection.id)
+      setCollections(collections.filter(c => c.id !== collection.id))
+      if (view === collection.id) setView('all')
+    } catch (error) {
+      console.error('Error deleting collection:', error)
+    }
+  }
+
+  const handleToggleShare = async (collection: Collection) => {
+    const visibility = collection.visibility === 'shared' ? 'private' : 'shared'
+    if (visibility === 'private' && !confirm('Make this collection private? Its share link will stop working.')) return
+
+    try {
+      const updated = await setCollectionVisibility(collection.id, visibility)
+      setCollections(collections.map(c => c.id === collection.id ? updated : c))
+    } catch (error) {
+      console.error('Error sharing collection:', error)
+    }
+  }
+
+  const handleToggleCollectionItem = async (collection: Collection, commandId: string, included: boolean) => {
+    const current = collectionItems[collection.id] ?? []
+
+    try {
+      if (included) {
+        await addToCollection(collection.id, commandId, current.length)
+        setCollectionItems({ ...collectionItems, [collection.id]: [...current, commandId] })
+      } else {
+        await removeFromCollection(collection.id, commandId)
+        setCollectionItems({ ...collectionItems, [collection.id]: current.filter(id => id !== commandId) })
+      }
+    } catch (error) {
+      console.error('Error updating collection:', error)
+    }
+  }
+
+  const moveInCollection = async (commandId: string, direction: -1 | 1) => {
+    const order = [...(collectionItems[view] ?? [])]
+    const index = order.indexOf(commandId)
+    if (index === -1 || index + direction < 0 || index + direction >= order.length) return
+
+    order.splice(index, 1)
+    order.splice(index + direction, 0, commandId)
+    setCollectionItems({ ...collectionItems, [view]: order })
+
+    try {
+      await reorderCollection(view, order)
+    } catch (error) {
+      console.error('Error reordering collection:', error)
+    }
+  }
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false)
+    setSelectedIds(new Set())
+  }
+
+  const handleAddCommand = async ({ tags, ...commandData }: CommandFormData) => {
+    if (!user) return
+
+    const needsApproval = settings.require_command_approval && !canModerate
+
+    try {
+      const data = await commandsRepository.insert({
+        ...commandData,
+        status: needsApproval ? 'pending' : 'approved',
+        workspace_id: workspace?.id ?? null,
+        created_by: user.id,
+      })
+      await recordRevision(data, [...REVISION_FIELDS], user.id)
+      await saveTags(data.id, tags)
+      if (needsApproval) {
+        setSubmissions(prev => [data, ...prev.filter(cmd => cmd.id !== data.id)])
+        setNotice('Your command was submitted and will appear once a reviewer approves it.')
+      } else if (!commandsRef.current.some(cmd => cmd.id === data.id)) {
+        // The realtime insert may have got here first
+        setCommands(prev => [data, ...prev])
+        setTotal(prev => prev + 1)
+      }
       setShowAddModal(false)
     } catch (error) {
       console.error('Error adding command:', error)
     }
   }
 
-  const handleUpdateCommand = async (id: string, updates: Partial<Command>) => {
+  const handleUpdateCommand = async (id: string, updates: Partial<Command>, restoredFrom: string | null = null) => {
+    if (!user) return
+
+    const previous = commands.find(cmd => cmd.id === id) ?? submissions.find(cmd => cmd.id === id)
+
+    if (!isOnline() && previous) {
+      try {
+        const edited = await saveOffline(previous, updates)
+        setCommands(commands.map(cmd => cmd.id === id ? edited : cmd))
+        setEditingCommand(null)
+        setNotice('You are offline. The edit is kept on this device and will sync when the connection returns; tag changes need a connection.')
+      } catch (error) {
+        console.error('Error saving offline edit:', error)
+      }
+      return
+    }
+
+    const needsApproval = settings.require_command_approval && !canModerate
+
     try {
-      const { data, error } = await supabase
-        .from('commands')
-        .update({ ...updates, updated_at: new Date().toISOString() })
-        .eq('id', id)
-        .select()
-        .single()
-
-      if (error) throw error
+      const data = await updateCommand(previous, id, updates, user.id, { restoredFrom, needsApproval })
       setCommands(commands.map(cmd => cmd.id === id ? data : cmd))
+      if (data.created_by === user.id) {
+        setSubmissions(prev => [data, ...prev.filter(cmd => cmd.id !== id)])
+      }
+      if (isProposedEdit(previous, updates, needsApproval)) {
+        setNotice('Your edit was sent for review. The current version stays in the library until a reviewer approves it.')
+      }
       setEditingCommand(null)
+      if (historyCommand?.id === id) setHistoryCommand(data)
     } catch (error) {
       console.error('Error updating command:', error)
     }
   }
 
+  const handleEditCommand = async (id: string, { tags, ...updates }: CommandFormData) => {
+    await handleUpdateCommand(id, editingCommand?.id === id ? localEdits(editingCommand, updates) : updates)
+    // Tags aren't queued offline
+    if (!isOnline()) return
+
+    try {
+      await saveTags(id, tags)
+    } catch (error) {
+      console.error('Error updating tags:', error)
+    }
+  }
+
+  const handleTransfer = async (target: Workspace, mode: TransferMode) => {
+    if (!user) return
+
+    const selected = commands.filter(cmd => selectedIds.has(cmd.id))
+    const ids = selected.map(cmd => cmd.id)
+
+    try {
+      if (mode === 'move') {
+        await moveCommands(ids, target.id)
+        setCommands(commands.filter(cmd => !selectedIds.has(cmd.id)))
+        setTotal(total - ids.length)
+      } else {
+        const needsApproval = settings.require_command_approval && !hasPermission(roleIn(target), 'moderate')
+        const copies = await copyCommands(selected, target.id, user.id, needsApproval ? 'pending' : 'approved')
+        for (const [index, copy] of copies.entries()) {
+          const tags = commandTags[selected[index].id] ?? []
+          if (tags.length > 0) await setCommandTags(copy.id, tags)
+        }
+      }
+
+      await logAuditEvent({
+        actor: user,
+        action: mode === 'move' ? 'command.move' : 'command.copy',
+        targetType: 'command',
+        before: { workspace_id: workspace?.id ?? null, command_ids: ids },
+        after: { workspace_id: target.id },
+      })
+
+      setNotice(`${mode === 'move' ? 'Moved' : 'Copied'} ${ids.length} command${ids.length === 1 ? '' : 's'} to ${target.name}.`)
+      setShowTransferModal(false)
+      exitSelectionMode()
+    } catch (error) {
+      console.error(`Error ${mode === 'move' ? 'moving' : 'copying'} commands:`, error)
+    }
+  }
+
+  const handleRestoreRevision = async (revision: CommandRevision) => {
+    await handleUpdateCommand(revision.command_id, {
+      name: revision.name,
+      description: revision.description,
+      command: revision.command,
+      category: revision.category,
+      variants: revision.variants ?? {},
+    }, revision.id)
+  }
+
   const handleDeleteCommand = async (id: string) => {
     if (!confirm('Are you sure you want to delete this command?')) return
 
     try {
-      const { error } = await supabase
-        .from('commands')
-        .update({ is_active: false })
-        .eq('id', id)
-
-      if (error) throw error
+      await deactivateCommand(id)
       setCommands(commands.filter(cmd => cmd.id !== id))
+      setTotal(total - 1)
     } catch (error) {
       console.error('Error deleting command:', error)
     }
   }
 
+  // Without required approval every command is approved straight away, so
+  // the list only matters while something is or was under review
+  const showSubmissions = settings.require_command_approval || submissions.some(cmd => cmd.status !== 'approved')
+  const filteredSubmissions = submissionFilter === 'all'
+    ? submissions
+    : submissions.filter(cmd => cmd.status === submissionFilter)
+  const visibleSubmissions = showAllSubmissions ? filteredSubmissions : filteredSubmissions.slice(0, SUBMISSIONS_SHOWN)
+  const templateVariant = templateCommand && commandForShell(templateCommand, shell)
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -165,7 +714,7 @@ export default function Commands() {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-5 h-5" />
             <input
               type="text"
-              placeholder="Search commands..."
+              placeholder='Search commands... e.g. category:network tag:docker author:me "exact phrase" -docker'
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="input-field pl-10 w-full"
@@ -180,15 +729,63 @@ export default function Commands() {
                 onChange={(e) => setSelectedCategory(e.target.value)}
                 className="input-field pl-10 pr-8 appearance-none"
               >
+                <option value="all">All Categories</option>
                 {categories.map(category => (
-                  <option key={category} value={category}>
-                    {category === 'all' ? 'All Categories' : category.charAt(0).toUpperCase() + category.slice(1)}
+                  <option key={category.slug} value={category.slug}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="relative">
+              <ArrowUpDown className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-5 h-5" />
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as SortKey)}
+                title="Sort commands"
+                className="input-field pl-10 pr-8 appearance-none"
+              >
+                {SORT_KEYS.map(option => (
+                  <option key={option} value={option}>
+                    {SORT_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="relative">
+              <TerminalSquare className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-5 h-5" />
+              <select
+                value={shell}
+                onChange={(e) => handleShellChange(e.target.value as Shell)}
+                title="Show commands for this shell"
+                className="input-field pl-10 pr-8 appearance-none"
+              >
+                {SHELLS.map(option => (
+                  <option key={option} value={option}>
+                    {SHELL_LABELS[option]} ({SHELL_PLATFORMS[option]})
                   </option>
                 ))}
               </select>
             </div>
             
-            {user && (
+            <ExportMenu
+              commands={commands}
+              total={total}
+              loadAll={() => fetchAllCommands(commandFilters())}
+              filename={selectedCategory === 'all' ? 'ariola-commands' : `ariola-commands-${selectedCategory}`}
+            />
+
+            <button
+              onClick={() => selectionMode ? exitSelectionMode() : setSelectionMode(true)}
+              className={`${selectionMode ? 'btn-primary' : 'btn-secondary'} flex items-center space-x-2`}
+            >
+              <CheckSquare className="w-5 h-5" />
+              <span>Select</span>
+            </button>
+
+            {user && canCreate && (
               <button
                 onClick={() => setShowAddModal(true)}
                 className="btn-primary flex items-center space-x-2"
@@ -200,78 +797,392 @@ export default function Commands() {
           </div>
         </div>
 
-        {/* Commands Grid */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <AnimatePresence>
-            {filteredCommands.map((command) => (
-              <motion.div
-                key={command.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                className="card group"
+        {/* Tag Filters */}
+        {allTags.length > 0 && (
+          <div className="mb-8 flex flex-wrap items-center gap-2">
+            <Tags className="w-4 h-4 text-dark-400" />
+            {allTags.map(tag => (
+              <button
+                key={tag.id}
+                onClick={() => toggleTagFilter(tag.name)}
+                className={`px-2 py-1 rounded-full text-xs transition-colors ${
+                  selectedTags.includes(tag.name)
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-dark-700 text-dark-300 hover:bg-dark-600'
+                }`}
               >
-                <div className="flex justify-between items-start mb-4">
+                #{tag.name}
+              </button>
+            ))}
+            {selectedTags.length > 1 && (
+              <div className="flex rounded-lg border border-dark-600 overflow-hidden ml-2">
+                {(['and', 'or'] as TagMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setTagMode(mode)}
+                    title={mode === 'and' ? 'Match all selected tags' : 'Match any selected tag'}
+                    className={`px-3 py-1 text-xs uppercase transition-colors ${
+                      tagMode === mode ? 'bg-primary-600 text-white' : 'text-dark-300 hover:bg-dark-700'
+                    }`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+            )}
+            {selectedTags.length > 0 && (
+              <button onClick={() => setSelectedTags([])} className="nav-link text-xs">
+                Clear tags
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* My Submissions */}
+        {showSubmissions && (
+          <div className="card mb-8">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-semibold">My Submissions</h2>
+              <select
+                value={submissionFilter}
+                onChange={(e) => setSubmissionFilter(e.target.value as CommandStatus | 'all')}
+                className="input-field text-sm"
+              >
+                <option value="all">All statuses ({submissions.length})</option>
+                {(Object.keys(COMMAND_STATUS_LABELS) as CommandStatus[]).map(status => (
+                  <option key={status} value={status}>
+                    {COMMAND_STATUS_LABELS[status]} ({submissions.filter(cmd => cmd.status === status).length})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-3">
+              {visibleSubmissions.length === 0 && (
+                <p className="text-sm text-dark-400">No submissions with this status.</p>
+              )}
+              {visibleSubmissions.map((submission) => (
+                <div key={submission.id} className="flex items-start justify-between py-2 border-b border-dark-700 last:border-b-0">
                   <div>
-                    <h3 className="text-xl font-semibold mb-2">{command.name}</h3>
-                    <span className="bg-primary-600/20 text-primary-400 px-3 py-1 rounded-full text-sm">
-                      {command.category}
-                    </span>
+                    <p className="font-medium">{submission.name}</p>
+                    <p className="text-sm text-dark-400">
+                      Submitted {new Date(submission.created_at).toLocaleDateString()}
+                      {submission.reviewed_at && `, reviewed ${new Date(submission.reviewed_at).toLocaleDateString()}`}
+                    </p>
+                    {submission.review_note && (
+                      <p className="text-sm text-dark-300 mt-1">Reviewer note: {submission.review_note}</p>
+                    )}
                   </div>
-                  
-                  {(isAdmin || command.created_by === user?.id) && (
-                    <div className="flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-1 rounded-full text-xs ${COMMAND_STATUS_STYLES[submission.status]}`}>
+                      {COMMAND_STATUS_LABELS[submission.status]}
+                    </span>
+                    {submission.status !== 'pending' && submission.status !== 'approved' && (
                       <button
-                        onClick={() => setEditingCommand(command)}
+                        onClick={() => setEditingCommand(submission)}
                         className="p-2 text-dark-400 hover:text-primary-400 transition-colors"
+                        title="Edit and resubmit"
                       >
                         <Edit className="w-4 h-4" />
                       </button>
-                      <button
-                        onClick={() => handleDeleteCommand(command.id)}
-                        className="p-2 text-dark-400 hover:text-red-400 transition-colors"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
-                  )}
-                </div>
-                
-                <p className="text-dark-300 mb-4">{command.description}</p>
-                
-                <div className="bg-dark-700 rounded-lg p-4 relative">
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center space-x-2">
-                      <Terminal className="w-4 h-4 text-primary-400" />
-                      <span className="text-sm text-dark-400">Command</span>
-                    </div>
-                    <button
-                      onClick={() => copyToClipboard(command.command, command.id)}
-                      className="p-1 text-dark-400 hover:text-primary-400 transition-colors"
-                    >
-                      {copiedId === command.id ? (
-                        <Check className="w-4 h-4 text-green-400" />
-                      ) : (
-                        <Copy className="w-4 h-4" />
-                      )}
-                    </button>
+                    )}
                   </div>
-                  <code className="text-primary-300 text-sm break-all">
-                    {command.command}
-                  </code>
                 </div>
-              </motion.div>
-            ))}
-          </AnimatePresence>
-        </div>
+              ))}
+            </div>
+            {filteredSubmissions.length > SUBMISSIONS_SHOWN && (
+              <button
+                onClick={() => setShowAllSubmissions(!showAllSubmissions)}
+                className="nav-link text-sm mt-3"
+              >
+                {showAllSubmissions ? 'Show fewer' : `Show all ${filteredSubmissions.length}`}
+              </button>
+            )}
+          </div>
+        )}
+
+        {fromMirror && (
+          <div className="mb-8 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+            <p className="text-yellow-400 text-sm">
+              {mirroredAt
+                ? `You are offline. Showing the library as saved on this device at ${new Date(mirroredAt).toLocaleString()}.`
+                : 'You are offline and this device has no saved copy of this library yet.'}
+            </p>
+          </div>
+        )}
 
-        {filteredCommands.length === 0 && (
-          <div className="text-center py-12">
-            <Terminal className="w-16 h-16 text-dark-600 mx-auto mb-4" />
-            <h3 className="text-xl font-semibold text-dark-400 mb-2">No commands found</h3>
-            <p className="text-dark-500">Try adjusting your search or filters</p>
+        {notice && (
+          <div className="mb-8 bg-primary-600/10 border border-primary-500/20 rounded-lg p-4 flex items-center justify-between">
+            <p className="text-primary-300 text-sm">{notice}</p>
+            <button onClick={() => setNotice('')} className="text-dark-400 hover:text-white text-sm">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Selection Toolbar */}
+        {selectionMode && (
+          <div className="mb-6 glass rounded-lg p-4 flex flex-wrap items-center justify-between gap-4 sticky top-20 z-10">
+            <p className="text-dark-300">
+              <span className="text-white font-medium">{selectedIds.size}</span> selected
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setSelectedIds(new Set(commands.map(cmd => cmd.id)))}
+                className="nav-link text-sm"
+              >
+                Select all
+              </button>
+              <button onClick={() => setSelectedIds(new Set())} className="nav-link text-sm">
+                Clear
+              </button>
+              <button
+                onClick={() => setShowScriptModal(true)}
+                disabled={selectedIds.size === 0}
+                className="btn-primary flex items-center space-x-2 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileCode className="w-4 h-4" />
+                <span>Export as script</span>
+              </button>
+              {user && workspaces.length > 1 && (
+                <button
+                  onClick={() => setShowTransferModal(true)}
+                  disabled={selectedIds.size === 0}
+                  className="btn-secondary flex items-center space-x-2 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ArrowRightLeft className="w-4 h-4" />
+                  <span>Move or copy</span>
+                </button>
+              )}
+            </div>
           </div>
         )}
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Collections */}
+          {user && (
+            <div className="lg:w-64 flex-shrink-0">
+              <CollectionsSidebar
+                view={view}
+                onViewChange={setView}
+                favoritesCount={favorites.length}
+                collections={collections}
+                items={collectionItems}
+                onCreate={() => handleCreateCollection()}
+                onRename={handleRenameCollection}
+                onDelete={handleDeleteCollection}
+                onToggleShare={handleToggleShare}
+              />
+            </div>
+          )}
+
+          <div className="flex-1 min-w-0">
+            {commands.length > 0 && (
+              <p className="text-sm text-dark-400 mb-4">
+                Showing {commands.length} of {total} command{total === 1 ? '' : 's'}
+              </p>
+            )}
+
+            {/* Commands Grid */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <AnimatePresence>
+                {commands.map((command) => {
+                  const variant = commandForShell(command, shell)
+                  return (
+                    <motion.div
+                      key={command.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -20 }}
+                      onClick={selectionMode ? () => toggleSelected(command.id) : undefined}
+                      className={`card group ${selectionMode ? 'cursor-pointer' : ''} ${
+                        selectedIds.has(command.id) ? 'border-primary-500 hover:border-primary-500' : ''
+                      }`}
+                    >
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h3 className="text-xl font-semibold mb-2 flex items-center">
+                            {selectionMode && (
+                              selectedIds.has(command.id)
+                                ? <CheckSquare className="w-5 h-5 mr-2 text-primary-400" />
+                                : <Square className="w-5 h-5 mr-2 text-dark-400" />
+                            )}
+                            {selectionMode ? (
+                              <Highlight text={command.name} ranges={matches[command.id]?.name} />
+                            ) : (
+                              <Link to={`/commands/${command.id}`} className="hover:text-primary-400 transition-colors">
+                                <Highlight text={command.name} ranges={matches[command.id]?.name} />
+                              </Link>
+                            )}
+                          </h3>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <CategoryBadge slug={command.category} size="md">
+                              <Highlight
+                                text={categories.find(c => c.slug === command.category)?.name ?? command.category}
+                                ranges={categoryNameMatchesSlug(command.category) ? matches[command.id]?.category : undefined}
+                              />
+                            </CategoryBadge>
+                            <LintBadge findings={lintCommand(variant.text, lintRules)} />
+                            {changedIds.has(command.id) && (
+                              <span className="bg-primary-600/20 text-primary-400 px-2 py-1 rounded-full text-xs">
+                                Updated
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        
+                        {!selectionMode && (
+                          <div className="flex items-center space-x-2">
+                            <div className="flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                              {activeCollection && (
+                                <>
+                                  <button
+                                    onClick={() => moveInCollection(command.id, -1)}
+                                    className="p-2 text-dark-400 hover:text-primary-400 transition-colors"
+                                    title="Move up"
+                                  >
+                                    <ArrowUp className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => moveInCollection(command.id, 1)}
+                                    className="p-2 text-dark-400 hover:text-primary-400 transition-colors"
+                                    title="Move down"
+                                  >
+                                    <ArrowDown className="w-4 h-4" />
+                                  </button>
+                                </>
+                              )}
+                              <button
+                                onClick={() => copyToClipboard(commandUrl(command.id), `link-${command.id}`)}
+                                className="p-2 text-dark-400 hover:text-primary-400 transition-colors"
+                                title="Copy link"
+                              >
+                                {copiedId === `link-${command.id}` ? (
+                                  <Check className="w-4 h-4 text-green-400" />
+                                ) : (
+                                  <Link2 className="w-4 h-4" />
+                                )}
+                              </button>
+                              <button
+                                onClick={() => setHistoryCommand(command)}
+                                className="p-2 text-dark-400 hover:text-primary-400 transition-colors"
+                                title="History"
+                              >
+                                <History className="w-4 h-4" />
+                              </button>
+                              {(canEditAny || command.created_by === user?.id) && (
+                                <button
+                                  onClick={() => setEditingCommand(command)}
+                                  className="p-2 text-dark-400 hover:text-primary-400 transition-colors"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </button>
+                              )}
+                              {(canDeleteAny || command.created_by === user?.id) && (
+                                <button
+                                  onClick={() => handleDeleteCommand(command.id)}
+                                  className="p-2 text-dark-400 hover:text-red-400 transition-colors"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              )}
+                            </div>
+                            {user && (
+                              <>
+                                <AddToCollectionMenu
+                                  commandId={command.id}
+                                  collections={collections}
+                                  items={collectionItems}
+                                  onToggle={(collection, included) => handleToggleCollectionItem(collection, command.id, included)}
+                                  onCreate={() => handleCreateCollection(command.id)}
+                                />
+                                <button
+                                  onClick={() => toggleFavorite(command.id)}
+                                  className={`p-2 transition-colors ${
+                                    favorites.includes(command.id) ? 'text-yellow-400' : 'text-dark-400 hover:text-yellow-400'
+                                  }`}
+                                  title={favorites.includes(command.id) ? 'Remove from favorites' : 'Add to favorites'}
+                                >
+                                  <Star className={`w-4 h-4 ${favorites.includes(command.id) ? 'fill-current' : ''}`} />
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      
+                      <p className="text-dark-300 mb-4">
+                        <Highlight text={command.description} ranges={matches[command.id]?.description} />
+                      </p>
+
+                      {commandTags[command.id]?.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-4">
+                          {commandTags[command.id].map(tag => (
+                            <button
+                              key={tag}
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                if (!selectedTags.includes(tag)) setSelectedTags([...selectedTags, tag])
+                              }}
+                              className="bg-dark-700 text-dark-300 hover:text-primary-400 px-2 py-1 rounded-full text-xs transition-colors"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      
+                      <div className="bg-dark-700 rounded-lg p-4 relative">
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center space-x-2">
+                            <Terminal className="w-4 h-4 text-primary-400" />
+                            <span className="text-sm text-dark-400">
+                              {SHELL_LABELS[variant.shell]}
+                              {variant.shell !== shell && ` · no ${SHELL_LABELS[shell]} variant`}
+                            </span>
+                          </div>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleCopy(command)
+                            }}
+                            className="p-1 text-dark-400 hover:text-primary-400 transition-colors"
+                          >
+                            {copiedId === command.id ? (
+                              <Check className="w-4 h-4 text-green-400" />
+                            ) : (
+                              <Copy className="w-4 h-4" />
+                            )}
+                          </button>
+                        </div>
+                        <CommandCode
+                          text={variant.text}
+                          shell={variant.shell}
+                          ranges={variant.shell === DEFAULT_SHELL ? matches[command.id]?.command : undefined}
+                        />
+                      </div>
+                    </motion.div>
+                  )
+                })}
+              </AnimatePresence>
+            </div>
+
+            {/* Infinite Scroll */}
+            <div ref={sentinelRef} />
+            {loadingMore && (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
+              </div>
+            )}
+
+            {commands.length === 0 && (
+              <div className="text-center py-12">
+                <Terminal className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+                <h3 className="text-xl font-semibold text-dark-400 mb-2">No commands found</h3>
+                <p className="text-dark-500">Try adjusting your search or filters</p>
+              </div>
+            )}
+          </div>
+        </div>
       </div>
 
       {/* Add/Edit Command Modal */}
@@ -282,137 +1193,61 @@ export default function Commands() {
           setEditingCommand(null)
         }}
         onSubmit={editingCommand ? 
-          (data) => handleUpdateCommand(editingCommand.id, data) : 
+          (data) => handleEditCommand(editingCommand.id, data) : 
           handleAddCommand
         }
         command={editingCommand}
-        categories={categories.filter(cat => cat !== 'all')}
+        changedElsewhere={!!editingCommand && commands.find(cmd => cmd.id === editingCommand.id)?.updated_at !== editingCommand.updated_at}
+        categories={categories}
+        tags={editingCommand ? commandTags[editingCommand.id] ?? [] : []}
+        tagSuggestions={allTags.map(tag => tag.name)}
+        lintRules={lintRules}
       />
-    </div>
-  )
-}
-
-interface CommandModalProps {
-  isOpen: boolean
-  onClose: () => void
-  onSubmit: (data: any) => void
-  command?: Command | null
-  categories: string[]
-}
-
-function CommandModal({ isOpen, onClose, onSubmit, command, categories }: CommandModalProps) {
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    command: '',
-    category: 'system',
-    is_active: true
-  })
 
-  useEffect(() => {
-    if (command) {
-      setFormData({
-        name: command.name,
-        description: command.description,
-        command: command.command,
-        category: command.category,
-        is_active: command.is_active
-      })
-    } else {
-      setFormData({
-        name: '',
-        description: '',
-        command: '',
-        category: 'system',
-        is_active: true
-      })
-    }
-  }, [command])
+      {/* Script Export */}
+      <ExportScriptModal
+        isOpen={showScriptModal}
+        onClose={() => setShowScriptModal(false)}
+        commands={commands.filter(cmd => selectedIds.has(cmd.id))}
+      />
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault()
-    onSubmit(formData)
-  }
+      {/* Move or Copy to Workspace */}
+      <MoveCommandsModal
+        isOpen={showTransferModal}
+        onClose={() => setShowTransferModal(false)}
+        onSubmit={handleTransfer}
+        count={selectedIds.size}
+        targets={workspaces.filter(w => w.id !== workspace?.id && hasPermission(roleIn(w), 'create'))}
+        canMove={canEditAny}
+      />
 
-  if (!isOpen) return null
+      {/* Revision History */}
+      {historyCommand && (
+        <CommandHistory
+          isOpen={!!historyCommand}
+          onClose={() => setHistoryCommand(null)}
+          command={historyCommand}
+          canRestore={canEditAny || historyCommand.created_by === user?.id}
+          onRestore={handleRestoreRevision}
+        />
+      )}
 
-  return (
-    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-      <motion.div
-        initial={{ opacity: 0, scale: 0.95 }}
-        animate={{ opacity: 1, scale: 1 }}
-        exit={{ opacity: 0, scale: 0.95 }}
-        className="bg-dark-800 rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
-      >
-        <h2 className="text-2xl font-bold mb-6">
-          {command ? 'Edit Command' : 'Add New Command'}
-        </h2>
-        
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium mb-2">Name</label>
-            <input
-              type="text"
-              value={formData.name}
-              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-              className="input-field w-full"
-              required
-            />
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium mb-2">Category</label>
-            <select
-              value={formData.category}
-              onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-              className="input-field w-full"
-              required
-            >
-              {categories.map(category => (
-                <option key={category} value={category}>
-                  {category.charAt(0).toUpperCase() + category.slice(1)}
-                </option>
-              ))}
-            </select>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium mb-2">Description</label>
-            <textarea
-              value={formData.description}
-              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-              className="input-field w-full h-24 resize-none"
-              required
-            />
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium mb-2">Command</label>
-            <textarea
-              value={formData.command}
-              onChange={(e) => setFormData({ ...formData, command: e.target.value })}
-              className="input-field w-full h-32 resize-none font-mono text-sm"
-              required
-            />
-          </div>
-          
-          <div className="flex justify-end space-x-4 pt-4">
-            <button
-              type="button"
-              onClick={onClose}
-              className="btn-secondary"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              className="btn-primary"
-            >
-              {command ? 'Update' : 'Add'} Command
-            </button>
-          </div>
-        </form>
-      </motion.div>
+      {/* Template Fill-in Modal */}
+      {templateCommand && templateVariant && (
+        <FillTemplateModal
+          isOpen={!!templateCommand}
+          onClose={() => setTemplateCommand(null)}
+          onCopy={(rendered) => {
+            if (!confirmDangerousCopy(rendered, lintRules)) return
+            copyToClipboard(rendered, templateCommand.id)
+            countCopy(templateCommand.id)
+            setTemplateCommand(null)
+          }}
+          name={templateCommand.name}
+          template={templateVariant.text}
+          shell={templateVariant.shell}
+        />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
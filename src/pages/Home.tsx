@@ -1,11 +1,13 @@
 import React from 'react'
 import { Link } from 'react-router-dom'
-import { Terminal, Shield, Zap, Users, ArrowRight, Code, Database, Settings } from 'lucide-react'
+import { Terminal, Shield, Zap, Users, ArrowRight, Code, Database } from 'lucide-react'
 import { motion } from 'framer-motion'
 import { useAuth } from '../contexts/AuthContext'
+import { usePermission } from '../contexts/WorkspaceContext'
 
 export default function Home() {
-  const { user, isAdmin } = useAuth()
+  const { user } = useAuth()
+  const canModerate = usePermission('moderate')
 
   const features = [
     {
@@ -83,7 +85,7 @@ export default function Home() {
                   Get Started
                 </Link>
               )}
-              {isAdmin && (
+              {canModerate && (
                 <Link to="/admin" className="btn-secondary text-lg px-8 py-4">
                   <Shield className="w-5 h-5 mr-2" />
                   Admin Panel
@@ -1,11 +1,62 @@
 import React, { useState } from 'react'
-import { Link, useNavigate } from 'react-router-dom'
-import { Terminal, Mail, Lock, User, Eye, EyeOff } from 'lucide-react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { Terminal, Mail, Lock, User, Eye, EyeOff, Github, Chrome, Building2 } from 'lucide-react'
 import { motion } from 'framer-motion'
 import { useAuth } from '../contexts/AuthContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { backend } from '../lib/backend'
+import { authErrorCode, authErrorMessage } from '../lib/authErrors'
+import { AuthProviderId, authProviders } from '../lib/authProviders'
+
+// `verify` is shown to accounts that still have to confirm their email
+type Mode = 'signIn' | 'signUp' | 'magicLink' | 'forgot' | 'verify'
+
+const HEADINGS: Record<Mode, { title: string; subtitle: string; submit: string; busy: string }> = {
+  signIn: {
+    title: 'Welcome back',
+    subtitle: 'Sign in to access your command library',
+    submit: 'Sign in',
+    busy: 'Signing in...',
+  },
+  signUp: {
+    title: 'Create your account',
+    subtitle: 'Join the community of developers and administrators',
+    submit: 'Create account',
+    busy: 'Creating account...',
+  },
+  magicLink: {
+    title: 'Sign in with email',
+    subtitle: "We'll email you a link that signs you in, no password needed",
+    submit: 'Email me a sign-in link',
+    busy: 'Sending...',
+  },
+  forgot: {
+    title: 'Reset your password',
+    subtitle: "Enter your email and we'll send you a link to choose a new password",
+    submit: 'Send reset link',
+    busy: 'Sending...',
+  },
+  verify: {
+    title: 'Confirm your email',
+    subtitle: 'Follow the link in the confirmation email to finish setting up your account',
+    submit: 'Resend confirmation email',
+    busy: 'Sending...',
+  },
+}
+
+const PROVIDER_ICONS: Record<AuthProviderId, typeof Github> = {
+  github: Github,
+  google: Chrome,
+  oidc: Building2,
+}
+
+// The local backend sends no email, so only password sign-in is offered
+const emailLinks = backend !== 'local'
 
 export default function Login() {
-  const [isLogin, setIsLogin] = useState(true)
+  // Other pages can open a mode, e.g. the reset page when its link expired
+  const location = useLocation()
+  const [mode, setMode] = useState<Mode>((location.state as { mode?: Mode } | null)?.mode ?? 'signIn')
   const [showPassword, setShowPassword] = useState(false)
   const [loading, setLoading] = useState(false)
   const [formData, setFormData] = useState({
@@ -14,24 +65,67 @@ export default function Login() {
     fullName: ''
   })
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
 
-  const { signIn, signUp } = useAuth()
+  const { signIn, signUp, signInWithMagicLink, resendVerification, requestPasswordReset, signInWithProvider } = useAuth()
+  const { settings } = useSettings()
+  const registrationClosed = mode === 'signUp' && !settings.allow_registration
   const navigate = useNavigate()
 
+  const needsPassword = mode === 'signIn' || mode === 'signUp'
+  const heading = HEADINGS[mode]
+
+  const switchMode = (next: Mode) => {
+    setMode(next)
+    setError('')
+    setNotice('')
+    if (next === 'signIn' || next === 'signUp') {
+      setFormData({ ...formData, password: '', fullName: '' })
+    }
+  }
+
+  // Leaves for the provider's sign-in page; the callback route takes it from there
+  const handleProvider = async (provider: AuthProviderId) => {
+    setError('')
+    setNotice('')
+    try {
+      await signInWithProvider(provider)
+    } catch (error) {
+      setError(authErrorMessage(error))
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
     setError('')
+    setNotice('')
 
     try {
-      if (isLogin) {
+      if (mode === 'signIn') {
         await signIn(formData.email, formData.password)
+        navigate('/')
+      } else if (mode === 'signUp') {
+        const { needsConfirmation } = await signUp(formData.email, formData.password, formData.fullName)
+        if (needsConfirmation) {
+          setMode('verify')
+          setNotice(`We sent a confirmation link to ${formData.email}.`)
+        } else {
+          navigate('/')
+        }
+      } else if (mode === 'magicLink') {
+        await signInWithMagicLink(formData.email)
+        setNotice(`Check ${formData.email} for a link that signs you in.`)
+      } else if (mode === 'forgot') {
+        await requestPasswordReset(formData.email)
+        setNotice(`If ${formData.email} has an account, a link to reset the password is on its way.`)
       } else {
-        await signUp(formData.email, formData.password, formData.fullName)
+        await resendVerification(formData.email)
+        setNotice(`We sent a new confirmation link to ${formData.email}.`)
       }
-      navigate('/')
-    } catch (error: any) {
-      setError(error.message || 'An error occurred')
+    } catch (error) {
+      if (authErrorCode(error) === 'email_not_confirmed') setMode('verify')
+      setError(authErrorMessage(error))
     } finally {
       setLoading(false)
     }
@@ -55,26 +149,37 @@ export default function Login() {
             </Link>
             
             <h2 className="text-3xl font-bold text-white mb-2">
-              {isLogin ? 'Welcome back' : 'Create your account'}
+              {heading.title}
             </h2>
             <p className="text-dark-300">
-              {isLogin 
-                ? 'Sign in to access your command library' 
-                : 'Join the community of developers and administrators'
-              }
+              {heading.subtitle}
             </p>
           </div>
 
           {/* Form */}
           <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {registrationClosed && (
+              <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+                <p className="text-yellow-400 text-sm">
+                  Registration is currently closed. Ask an administrator for an account.
+                </p>
+              </div>
+            )}
+
             {error && (
               <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
                 <p className="text-red-400 text-sm">{error}</p>
               </div>
             )}
 
+            {notice && (
+              <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4">
+                <p className="text-green-400 text-sm">{notice}</p>
+              </div>
+            )}
+
             <div className="space-y-4">
-              {!isLogin && (
+              {mode === 'signUp' && (
                 <div>
                   <label htmlFor="fullName" className="sr-only">
                     Full Name
@@ -85,7 +190,7 @@ export default function Login() {
                       id="fullName"
                       name="fullName"
                       type="text"
-                      required={!isLogin}
+                      required
                       value={formData.fullName}
                       onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
                       className="input-field pl-10 w-full"
@@ -115,64 +220,111 @@ export default function Login() {
                 </div>
               </div>
 
-              <div>
-                <label htmlFor="password" className="sr-only">
-                  Password
-                </label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-5 h-5" />
-                  <input
-                    id="password"
-                    name="password"
-                    type={showPassword ? 'text' : 'password'}
-                    autoComplete={isLogin ? 'current-password' : 'new-password'}
-                    required
-                    value={formData.password}
-                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                    className="input-field pl-10 pr-10 w-full"
-                    placeholder="Password"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-dark-400 hover:text-dark-300"
-                  >
-                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                  </button>
+              {needsPassword && (
+                <div>
+                  <label htmlFor="password" className="sr-only">
+                    Password
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-5 h-5" />
+                    <input
+                      id="password"
+                      name="password"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                      required
+                      value={formData.password}
+                      onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                      className="input-field pl-10 pr-10 w-full"
+                      placeholder="Password"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-dark-400 hover:text-dark-300"
+                    >
+                      {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                    </button>
+                  </div>
+                  {mode === 'signIn' && emailLinks && (
+                    <div className="text-right mt-2">
+                      <button
+                        type="button"
+                        onClick={() => switchMode('forgot')}
+                        className="text-sm text-dark-400 hover:text-primary-400 transition-colors"
+                      >
+                        Forgot password?
+                      </button>
+                    </div>
+                  )}
                 </div>
-              </div>
+              )}
             </div>
 
             <div>
               <button
                 type="submit"
-                disabled={loading}
+                disabled={loading || registrationClosed}
                 className="btn-primary w-full text-lg py-4 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {loading ? (
                   <div className="flex items-center justify-center">
                     <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                    {isLogin ? 'Signing in...' : 'Creating account...'}
+                    {heading.busy}
                   </div>
                 ) : (
-                  isLogin ? 'Sign in' : 'Create account'
+                  heading.submit
                 )}
               </button>
             </div>
 
+            {needsPassword && authProviders.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center space-x-3">
+                  <div className="flex-1 border-t border-dark-700"></div>
+                  <span className="text-sm text-dark-400">or continue with</span>
+                  <div className="flex-1 border-t border-dark-700"></div>
+                </div>
+                {authProviders.map(provider => {
+                  const Icon = PROVIDER_ICONS[provider.id]
+                  return (
+                    <button
+                      key={provider.id}
+                      type="button"
+                      onClick={() => handleProvider(provider.id)}
+                      className="btn-secondary w-full flex items-center justify-center space-x-2"
+                    >
+                      <Icon className="w-5 h-5" />
+                      <span>{provider.label}</span>
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+
+            {mode === 'signIn' && emailLinks && (
+              <div className="text-center">
+                <button
+                  type="button"
+                  onClick={() => switchMode('magicLink')}
+                  className="text-dark-300 hover:text-white transition-colors"
+                >
+                  Email me a sign-in link instead
+                </button>
+              </div>
+            )}
+
             <div className="text-center">
               <button
                 type="button"
-                onClick={() => {
-                  setIsLogin(!isLogin)
-                  setError('')
-                  setFormData({ email: '', password: '', fullName: '' })
-                }}
+                onClick={() => switchMode(mode === 'signIn' ? 'signUp' : 'signIn')}
                 className="text-primary-400 hover:text-primary-300 transition-colors"
               >
-                {isLogin 
-                  ? "Don't have an account? Sign up" 
-                  : 'Already have an account? Sign in'
+                {mode === 'signIn'
+                  ? "Don't have an account? Sign up"
+                  : mode === 'signUp'
+                    ? 'Already have an account? Sign in'
+                    : 'Back to sign in'
                 }
               </button>
             </div>
@@ -0,0 +1,405 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { User, Mail, Lock, Settings, Terminal, Trash2, Upload, Copy } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { useCategories } from '../contexts/CategoriesContext'
+import { Command } from '../lib/supabase'
+import { backend } from '../lib/backend'
+import { uploadAvatar, removeAvatars } from '../lib/avatars'
+import { fetchContributions } from '../lib/profiles'
+import { authErrorMessage } from '../lib/authErrors'
+import { SHELLS, SHELL_LABELS, isShell } from '../lib/shells'
+import { COMMAND_STATUS_LABELS, COMMAND_STATUS_STYLES } from '../lib/moderation'
+import Avatar from '../components/Avatar'
+import CategoryBadge from '../components/CategoryBadge'
+import DeleteAccountModal from '../components/DeleteAccountModal'
+
+type Section = 'profile' | 'preferences' | 'email' | 'password'
+
+interface Message {
+  kind: 'success' | 'error'
+  text: string
+}
+
+export default function Profile() {
+  const { user, profile, updateProfile, changeEmail, updatePassword, deleteAccount } = useAuth()
+  const { categories } = useCategories()
+  const navigate = useNavigate()
+
+  const [fullName, setFullName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [passwordConfirmation, setPasswordConfirmation] = useState('')
+  const [saving, setSaving] = useState<Section | null>(null)
+  const [messages, setMessages] = useState<Partial<Record<Section, Message>>>({})
+  const [contributions, setContributions] = useState<Command[]>([])
+  const [loadingContributions, setLoadingContributions] = useState(true)
+  const [showDelete, setShowDelete] = useState(false)
+  const avatarInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    setFullName(profile?.full_name ?? '')
+  }, [profile?.full_name])
+
+  useEffect(() => {
+    setEmail(user?.email ?? '')
+  }, [user?.email])
+
+  useEffect(() => {
+    if (!user) return
+
+    fetchContributions(user.id)
+      .then(setContributions)
+      .catch(error => console.error('Error fetching contributions:', error))
+      .finally(() => setLoadingContributions(false))
+  }, [user?.id])
+
+  const showMessage = (section: Section, message: Message | null) => {
+    setMessages(prev => ({ ...prev, [section]: message ?? undefined }))
+  }
+
+  // Runs one section's save, reporting the outcome next to that section
+  const save = async (section: Section, action: () => Promise<void>, success: string) => {
+    setSaving(section)
+    showMessage(section, null)
+    try {
+      await action()
+      showMessage(section, { kind: 'success', text: success })
+    } catch (error) {
+      console.error(`Error saving ${section}:`, error)
+      showMessage(section, { kind: 'error', text: authErrorMessage(error) })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleSaveName = (e: React.FormEvent) => {
+    e.preventDefault()
+    save('profile', () => updateProfile({ full_name: fullName.trim() }), 'Name saved.')
+  }
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !user) return
+
+    save('profile', async () => {
+      const avatarUrl = await uploadAvatar(user.id, file)
+      await updateProfile({ avatar_url: avatarUrl })
+      await removeAvatars(user.id, avatarUrl)
+    }, 'Picture updated.')
+  }
+
+  const handleRemoveAvatar = () => {
+    if (!user) return
+
+    save('profile', async () => {
+      await updateProfile({ avatar_url: null })
+      await removeAvatars(user.id)
+    }, 'Picture removed.')
+  }
+
+  const handlePreference = (updates: Parameters<typeof updateProfile>[0]) => {
+    save('preferences', () => updateProfile(updates), 'Preferences saved.')
+  }
+
+  const handleChangeEmail = (e: React.FormEvent) => {
+    e.preventDefault()
+    save(
+      'email',
+      () => changeEmail(email.trim()),
+      backend === 'local'
+        ? 'Email address changed.'
+        : `Follow the link sent to ${email.trim()} to finish changing your address.`
+    )
+  }
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password !== passwordConfirmation) {
+      showMessage('password', { kind: 'error', text: 'The passwords do not match.' })
+      return
+    }
+
+    save('password', async () => {
+      await updatePassword(password)
+      setPassword('')
+      setPasswordConfirmation('')
+    }, 'Password changed.')
+  }
+
+  const handleDeleteAccount = async (keepCommands: boolean) => {
+    await deleteAccount(keepCommands)
+    navigate('/')
+  }
+
+  const renderMessage = (section: Section) => {
+    const message = messages[section]
+    if (!message) return null
+
+    return (
+      <p className={`text-sm mt-3 ${message.kind === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+        {message.text}
+      </p>
+    )
+  }
+
+  if (!user || !profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-500"></div>
+      </div>
+    )
+  }
+
+  const copies = contributions.reduce((total, command) => total + command.copy_count, 0)
+
+  return (
+    <div className="min-h-screen bg-dark-900 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-4xl font-bold mb-4">
+            <span className="text-gradient">Your Profile</span>
+          </h1>
+          <p className="text-dark-300 text-lg">
+            How you appear to others, how the library behaves for you, and your account
+          </p>
+        </div>
+
+        {/* Name and picture */}
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4 flex items-center space-x-2">
+            <User className="w-5 h-5 text-primary-400" />
+            <span>Profile</span>
+          </h2>
+          <div className="flex flex-col sm:flex-row sm:items-start gap-6">
+            <div className="flex flex-col items-center space-y-2">
+              <Avatar profile={profile} size="lg" />
+              <input ref={avatarInput} type="file" accept="image/*" onChange={handleAvatarChange} className="hidden" />
+              <button
+                type="button"
+                onClick={() => avatarInput.current?.click()}
+                disabled={saving === 'profile'}
+                className="text-sm text-primary-400 hover:text-primary-300 flex items-center space-x-1 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Upload</span>
+              </button>
+              {profile.avatar_url && (
+                <button
+                  type="button"
+                  onClick={handleRemoveAvatar}
+                  disabled={saving === 'profile'}
+                  className="text-sm text-dark-400 hover:text-red-400 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+
+            <form onSubmit={handleSaveName} className="flex-1">
+              <label htmlFor="fullName" className="block text-sm font-medium mb-2">Name</label>
+              <div className="flex gap-3">
+                <input
+                  id="fullName"
+                  type="text"
+                  required
+                  value={fullName}
+                  onChange={(e) => setFullName(e.target.value)}
+                  className="input-field flex-1"
+                />
+                <button
+                  type="submit"
+                  disabled={saving === 'profile' || fullName.trim() === profile.full_name}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+              <p className="text-sm text-dark-400 mt-2">Shown as the author of the commands you add.</p>
+              {renderMessage('profile')}
+            </form>
+          </div>
+        </div>
+
+        {/* Preferences */}
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4 flex items-center space-x-2">
+            <Settings className="w-5 h-5 text-primary-400" />
+            <span>Preferences</span>
+          </h2>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="defaultCategory" className="block text-sm font-medium mb-2">Default category</label>
+              <select
+                id="defaultCategory"
+                value={profile.default_category ?? ''}
+                onChange={(e) => handlePreference({ default_category: e.target.value || null })}
+                disabled={saving === 'preferences'}
+                className="input-field w-full"
+              >
+                <option value="">None</option>
+                {categories.map(category => (
+                  <option key={category.slug} value={category.slug}>{category.name}</option>
+                ))}
+              </select>
+              <p className="text-sm text-dark-400 mt-2">Preselected when you add a command.</p>
+            </div>
+            <div>
+              <label htmlFor="preferredShell" className="block text-sm font-medium mb-2">Preferred shell</label>
+              <select
+                id="preferredShell"
+                value={profile.preferred_shell ?? ''}
+                onChange={(e) => handlePreference({ preferred_shell: isShell(e.target.value) ? e.target.value : null })}
+                disabled={saving === 'preferences'}
+                className="input-field w-full"
+              >
+                <option value="">Detect from this device</option>
+                {SHELLS.map(shell => (
+                  <option key={shell} value={shell}>{SHELL_LABELS[shell]}</option>
+                ))}
+              </select>
+              <p className="text-sm text-dark-400 mt-2">Commands are shown and copied for this shell.</p>
+            </div>
+          </div>
+          {renderMessage('preferences')}
+        </div>
+
+        {/* Email and password */}
+        <div className="card space-y-6">
+          <form onSubmit={handleChangeEmail}>
+            <h2 className="text-xl font-semibold mb-4 flex items-center space-x-2">
+              <Mail className="w-5 h-5 text-primary-400" />
+              <span>Email address</span>
+            </h2>
+            <div className="flex gap-3">
+              <input
+                type="email"
+                required
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="input-field flex-1"
+              />
+              <button
+                type="submit"
+                disabled={saving === 'email' || email.trim() === user.email}
+                className="btn-primary disabled:opacity-50"
+              >
+                Change
+              </button>
+            </div>
+            {renderMessage('email')}
+          </form>
+
+          {backend !== 'local' && (
+            <form onSubmit={handleChangePassword} className="pt-6 border-t border-dark-700">
+              <h2 className="text-xl font-semibold mb-4 flex items-center space-x-2">
+                <Lock className="w-5 h-5 text-primary-400" />
+                <span>Password</span>
+              </h2>
+              <div className="grid sm:grid-cols-2 gap-3">
+                <input
+                  type="password"
+                  required
+                  autoComplete="new-password"
+                  placeholder="New password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="input-field w-full"
+                />
+                <input
+                  type="password"
+                  required
+                  autoComplete="new-password"
+                  placeholder="Confirm new password"
+                  value={passwordConfirmation}
+                  onChange={(e) => setPasswordConfirmation(e.target.value)}
+                  className="input-field w-full"
+                />
+              </div>
+              <p className="text-sm text-dark-400 mt-2">
+                Also works for accounts that sign in with GitHub, Google or SSO, to add a password to them.
+              </p>
+              <div className="flex justify-end mt-3">
+                <button type="submit" disabled={saving === 'password'} className="btn-primary disabled:opacity-50">
+                  Change password
+                </button>
+              </div>
+              {renderMessage('password')}
+            </form>
+          )}
+        </div>
+
+        {/* Contributions */}
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold flex items-center space-x-2">
+              <Terminal className="w-5 h-5 text-primary-400" />
+              <span>Your commands</span>
+            </h2>
+            {contributions.length > 0 && (
+              <span className="text-sm text-dark-400">
+                {contributions.length} added, copied {copies} time{copies === 1 ? '' : 's'}
+              </span>
+            )}
+          </div>
+
+          {loadingContributions ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
+            </div>
+          ) : contributions.length === 0 ? (
+            <p className="text-dark-400">
+              You haven't added any commands yet. <Link to="/commands" className="text-primary-400 hover:text-primary-300">Browse the library</Link>
+            </p>
+          ) : (
+            <ul className="divide-y divide-dark-700">
+              {contributions.map(command => (
+                <li key={command.id} className="py-3 flex flex-wrap items-center gap-3">
+                  <Link to={`/commands/${command.id}`} className="flex-1 min-w-0 text-white hover:text-primary-400 truncate">
+                    {command.name}
+                  </Link>
+                  <CategoryBadge slug={command.category} />
+                  <span className={`px-2 py-1 rounded-full text-xs ${COMMAND_STATUS_STYLES[command.status]}`}>
+                    {COMMAND_STATUS_LABELS[command.status]}
+                  </span>
+                  <span className="flex items-center space-x-1 text-sm text-dark-400" title="Times copied">
+                    <Copy className="w-4 h-4" />
+                    <span>{command.copy_count}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Danger zone */}
+        <div className="card border border-red-500/20">
+          <h2 className="text-xl font-semibold mb-2 flex items-center space-x-2 text-red-400">
+            <Trash2 className="w-5 h-5" />
+            <span>Delete account</span>
+          </h2>
+          <p className="text-dark-300 mb-4">
+            Deletes your account for good. You choose whether your approved commands stay in the library.
+          </p>
+          <button
+            onClick={() => setShowDelete(true)}
+            disabled={loadingContributions}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Delete account...
+          </button>
+        </div>
+      </div>
+
+      <DeleteAccountModal
+        isOpen={showDelete}
+        onClose={() => setShowDelete(false)}
+        onConfirm={handleDeleteAccount}
+        contributions={contributions}
+      />
+    </div>
+  )
+}
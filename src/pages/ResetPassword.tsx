@@ -0,0 +1,167 @@
+import React, { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Terminal, Lock, Eye, EyeOff } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { useAuth } from '../contexts/AuthContext'
+import { authErrorMessage, authRedirectError } from '../lib/authErrors'
+
+// Where the link in a password reset email leads. The Supabase client reads
+// the recovery token from the URL and signs the user in, so by the time the
+// session has loaded all that is left is choosing the new password.
+export default function ResetPassword() {
+  const { user, loading, updatePassword } = useAuth()
+  const [password, setPassword] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [showPassword, setShowPassword] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [linkError] = useState(() => authRedirectError(window.location))
+  const navigate = useNavigate()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmation) {
+      setError('The passwords do not match.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await updatePassword(password)
+      navigate('/commands')
+    } catch (error) {
+      setError(authErrorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
+        </div>
+      )
+    }
+
+    if (linkError || !user) {
+      return (
+        <div className="mt-8 space-y-6">
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
+            <p className="text-red-400 text-sm">
+              {linkError || 'This reset link is invalid or has expired. Request a new one.'}
+            </p>
+          </div>
+          <Link to="/login" state={{ mode: 'forgot' }} className="btn-primary w-full text-lg py-4 block text-center">
+            Request a new link
+          </Link>
+        </div>
+      )
+    }
+
+    return (
+      <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="password" className="sr-only">
+              New password
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-5 h-5" />
+              <input
+                id="password"
+                name="password"
+                type={showPassword ? 'text' : 'password'}
+                autoComplete="new-password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input-field pl-10 pr-10 w-full"
+                placeholder="New password"
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-dark-400 hover:text-dark-300"
+              >
+                {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="confirmation" className="sr-only">
+              Confirm new password
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-5 h-5" />
+              <input
+                id="confirmation"
+                name="confirmation"
+                type={showPassword ? 'text' : 'password'}
+                autoComplete="new-password"
+                required
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                className="input-field pl-10 w-full"
+                placeholder="Confirm new password"
+              />
+            </div>
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="btn-primary w-full text-lg py-4 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? (
+            <div className="flex items-center justify-center">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+              Saving...
+            </div>
+          ) : (
+            'Set new password'
+          )}
+        </button>
+      </form>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-dark-900 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+        >
+          <div className="text-center">
+            <Link to="/" className="flex items-center justify-center space-x-2 mb-8">
+              <div className="w-12 h-12 bg-gradient-primary rounded-lg flex items-center justify-center">
+                <Terminal className="w-7 h-7 text-white" />
+              </div>
+              <span className="text-3xl font-bold text-gradient">Ariola</span>
+            </Link>
+
+            <h2 className="text-3xl font-bold text-white mb-2">Choose a new password</h2>
+            <p className="text-dark-300">
+              {user?.email ? `For ${user.email}` : 'Reset the password for your account'}
+            </p>
+          </div>
+
+          {renderBody()}
+        </motion.div>
+      </div>
+    </div>
+  )
+}
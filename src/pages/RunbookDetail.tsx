@@ -0,0 +1,451 @@
+import React, { useState, useEffect } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { ArrowLeft, BookOpen, Edit, Trash2, Play, CheckCircle, Circle, Terminal, Copy, Check, Flag, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Command, Runbook, RunbookStep, RunbookRun, RunbookStepCompletion } from '../lib/supabase'
+import {
+  RunbookInput,
+  RunbookStepDraft,
+  RUN_STATUS_LABELS,
+  RUN_STATUS_STYLES,
+  stepCommandText,
+  fetchRunbook,
+  fetchLibraryCommands,
+  fetchRuns,
+  fetchCompletions,
+  saveRunbook,
+  deleteRunbook,
+  startRun,
+  finishRun,
+  completeStep,
+  uncompleteStep,
+} from '../lib/runbooks'
+import { hasPlaceholders } from '../lib/templates'
+import { resolveLintRules, confirmDangerousCopy } from '../lib/commandLint'
+import { DEFAULT_SHELL } from '../lib/shells'
+import { fetchDisplayNames } from '../lib/profiles'
+import { useSettings } from '../contexts/SettingsContext'
+import { useAuth } from '../contexts/AuthContext'
+import { useWorkspace, usePermission } from '../contexts/WorkspaceContext'
+import RunbookEditor from '../components/RunbookEditor'
+import FillTemplateModal from '../components/FillTemplateModal'
+import Markdown from '../components/Markdown'
+import CommandCode from '../components/CommandCode'
+
+export default function RunbookDetail() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const { workspaces, loading: workspaceLoading } = useWorkspace()
+  const canEditAny = usePermission('edit_any')
+  const { settings } = useSettings()
+  const [runbook, setRunbook] = useState<Runbook | null>(null)
+  const [steps, setSteps] = useState<RunbookStep[]>([])
+  const [library, setLibrary] = useState<Command[]>([])
+  const [runs, setRuns] = useState<RunbookRun[]>([])
+  const [activeRun, setActiveRun] = useState<RunbookRun | null>(null)
+  const [completions, setCompletions] = useState<RunbookStepCompletion[]>([])
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [showEditor, setShowEditor] = useState(false)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [templateStep, setTemplateStep] = useState<{ id: string; name: string; command: string } | null>(null)
+
+  useEffect(() => {
+    if (id && !workspaceLoading) fetchData(id)
+  }, [id, workspaceLoading])
+
+  const fetchData = async (runbookId: string) => {
+    try {
+      const [loaded, runList] = await Promise.all([fetchRunbook(runbookId), fetchRuns(runbookId)])
+      // Steps pick from the library of the runbook's own workspace
+      const home = workspaces.find(w => w.id === loaded?.runbook.workspace_id) ?? workspaces.find(w => w.is_default) ?? null
+      const commands = await fetchLibraryCommands(home)
+      setRunbook(loaded?.runbook ?? null)
+      setSteps(loaded?.steps ?? [])
+      setLibrary(commands)
+      setRuns(runList)
+      if (loaded) {
+        await loadNames([loaded.runbook.created_by, ...runList.map(run => run.started_by)])
+      }
+    } catch (error) {
+      console.error('Error fetching runbook:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadNames = async (userIds: (string | null)[]) => {
+    const missing = [...new Set(userIds)].filter((userId): userId is string => !!userId && !(userId in names))
+    if (missing.length === 0) return
+
+    try {
+      const found = await fetchDisplayNames(missing)
+      setNames(prev => ({ ...prev, ...found }))
+    } catch (error) {
+      console.error('Error fetching user names:', error)
+    }
+  }
+
+  const openRun = async (run: RunbookRun) => {
+    try {
+      const runCompletions = await fetchCompletions(run.id)
+      setActiveRun(run)
+      setCompletions(runCompletions)
+      await loadNames(runCompletions.map(completion => completion.completed_by))
+    } catch (error) {
+      console.error('Error fetching run:', error)
+    }
+  }
+
+  const handleStartRun = async () => {
+    if (!user || !runbook) return
+
+    try {
+      const run = await startRun(runbook.id, user.id)
+      setRuns([run, ...runs])
+      setActiveRun(run)
+      setCompletions([])
+      await loadNames([user.id])
+    } catch (error) {
+      console.error('Error starting run:', error)
+    }
+  }
+
+  const toggleStep = async (step: RunbookStep) => {
+    if (!user || !activeRun || activeRun.status !== 'in_progress') return
+
+    const done = completions.some(completion => completion.step_id === step.id)
+    try {
+      if (done) {
+        await uncompleteStep(activeRun.id, step.id)
+        setCompletions(completions.filter(completion => completion.step_id !== step.id))
+      } else {
+        const completion = await completeStep(activeRun.id, step.id, user.id)
+        setCompletions([...completions, completion])
+        await loadNames([user.id])
+      }
+    } catch (error) {
+      console.error('Error updating step:', error)
+    }
+  }
+
+  const handleFinishRun = async (status: 'completed' | 'abandoned') => {
+    if (!activeRun) return
+    if (status === 'abandoned' && !confirm('Abandon this run? Progress so far is kept in the history.')) return
+
+    try {
+      const finished = await finishRun(activeRun.id, status)
+      setRuns(runs.map(run => run.id === finished.id ? finished : run))
+      setActiveRun(null)
+      setCompletions([])
+    } catch (error) {
+      console.error('Error finishing run:', error)
+    }
+  }
+
+  const handleSave = async (input: RunbookInput, drafts: RunbookStepDraft[]) => {
+    if (!user || !runbook) return
+
+    try {
+      await saveRunbook(runbook.id, input, drafts, user.id)
+      const reloaded = await fetchRunbook(runbook.id)
+      if (reloaded) {
+        setRunbook(reloaded.runbook)
+        setSteps(reloaded.steps)
+      }
+      setShowEditor(false)
+    } catch (error) {
+      console.error('Error saving runbook:', error)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!runbook) return
+    if (!confirm(`Delete the runbook "${runbook.title}" and its run history?`)) return
+
+    try {
+      await deleteRunbook(runbook.id)
+      navigate('/runbooks')
+    } catch (error) {
+      console.error('Error deleting runbook:', error)
+    }
+  }
+
+  const copyToClipboard = async (text: string, copyId: string) => {
+    if (!confirmDangerousCopy(text, resolveLintRules(settings.lint_rules))) return
+
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopiedId(copyId)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch (error) {
+      console.error('Failed to copy:', error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-500"></div>
+      </div>
+    )
+  }
+
+  if (!runbook) {
+    return (
+      <div className="min-h-screen bg-dark-900 py-8">
+        <div className="max-w-3xl mx-auto px-4 text-center py-12">
+          <BookOpen className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-semibold text-dark-300 mb-2">Runbook not found</h1>
+          <Link to="/runbooks" className="btn-primary inline-block mt-4">
+            Back to runbooks
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const commandsById = Object.fromEntries(library.map(command => [command.id, command]))
+  const canEdit = canEditAny || runbook.created_by === user?.id
+  const completedSteps = new Map(completions.map(completion => [completion.step_id, completion]))
+  const currentStepId = activeRun?.status === 'in_progress' ? steps.find(step => !completedSteps.has(step.id))?.id : undefined
+  const inProgressRuns = runs.filter(run => run.status === 'in_progress')
+
+  return (
+    <div className="min-h-screen bg-dark-900 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link to="/runbooks" className="nav-link inline-flex items-center space-x-2 mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          <span>All runbooks</span>
+        </Link>
+
+        {/* Header */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">{runbook.title}</h1>
+            <p className="text-dark-400 text-sm mb-4">
+              By {(runbook.created_by && names[runbook.created_by]) || 'Unknown user'} · updated {new Date(runbook.updated_at).toLocaleDateString()}
+            </p>
+            {runbook.description && <p className="text-dark-300 text-lg">{runbook.description}</p>}
+          </div>
+
+          <div className="flex gap-2 flex-shrink-0">
+            {canEdit && !activeRun && (
+              <>
+                <button onClick={() => setShowEditor(true)} className="btn-secondary flex items-center space-x-2">
+                  <Edit className="w-4 h-4" />
+                  <span>Edit</span>
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                  title="Delete runbook"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </>
+            )}
+            {user && !activeRun && steps.length > 0 && (
+              <button onClick={handleStartRun} className="btn-primary flex items-center space-x-2">
+                <Play className="w-4 h-4" />
+                <span>Start run</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Run Mode */}
+        {activeRun && (
+          <div className="glass rounded-lg p-4 mb-6 sticky top-20 z-10">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">
+                  {activeRun.status === 'in_progress' ? 'Run in progress' : `Run ${RUN_STATUS_LABELS[activeRun.status].toLowerCase()}`}
+                </p>
+                <p className="text-sm text-dark-400">
+                  Started by {names[activeRun.started_by] ?? 'Unknown user'} · {new Date(activeRun.started_at).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-dark-300">
+                  {completedSteps.size} / {steps.length} steps
+                </span>
+                {activeRun.status === 'in_progress' ? (
+                  <>
+                    <button
+                      onClick={() => handleFinishRun('abandoned')}
+                      className="px-3 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/20 transition-colors"
+                    >
+                      Abandon
+                    </button>
+                    <button
+                      onClick={() => handleFinishRun('completed')}
+                      disabled={completedSteps.size < steps.length}
+                      className="btn-primary flex items-center space-x-2 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Flag className="w-4 h-4" />
+                      <span>Finish run</span>
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setActiveRun(null)}
+                    className="p-2 text-dark-400 hover:text-white transition-colors"
+                    title="Close"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="w-full bg-dark-700 rounded-full h-2 mt-4">
+              <div
+                className="bg-primary-500 h-2 rounded-full transition-all"
+                style={{ width: `${steps.length ? (completedSteps.size / steps.length) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Steps */}
+        <div className="space-y-4 mb-12">
+          {steps.map((step, index) => {
+            const text = stepCommandText(step, commandsById)
+            const completion = completedSteps.get(step.id)
+            const isCurrent = step.id === currentStepId
+            const copyId = `step-${step.id}`
+
+            return (
+              <motion.div
+                key={step.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className={`card ${isCurrent ? 'border-primary-500 hover:border-primary-500' : ''} ${
+                  completion && activeRun ? 'opacity-70' : ''
+                }`}
+              >
+                <div className="flex items-start gap-4">
+                  {activeRun ? (
+                    <button
+                      onClick={() => toggleStep(step)}
+                      disabled={activeRun.status !== 'in_progress'}
+                      className="mt-1 text-dark-400 hover:text-primary-400 transition-colors disabled:cursor-default"
+                    >
+                      {completion ? <CheckCircle className="w-6 h-6 text-green-400" /> : <Circle className="w-6 h-6" />}
+                    </button>
+                  ) : (
+                    <span className="mt-1 w-6 text-dark-400 font-mono">{index + 1}.</span>
+                  )}
+
+                  <div className="flex-1 min-w-0 space-y-3">
+                    <div>
+                      <h3 className="text-xl font-semibold">{step.title}</h3>
+                      {completion && (
+                        <p className="text-sm text-green-400">
+                          Done by {names[completion.completed_by] ?? 'Unknown user'} · {new Date(completion.completed_at).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+
+                    {step.notes && <Markdown content={step.notes} />}
+
+                    {(text || step.command_id) && (
+                      <div className="bg-dark-700 rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center space-x-2">
+                            <Terminal className="w-4 h-4 text-primary-400" />
+                            <span className="text-sm text-dark-400">
+                              {step.command_id ? commandsById[step.command_id]?.name ?? 'Command no longer in the library' : 'Command'}
+                            </span>
+                          </div>
+                          {text && (
+                            <button
+                              onClick={() => hasPlaceholders(text)
+                                ? setTemplateStep({ id: copyId, name: step.title, command: text })
+                                : copyToClipboard(text, copyId)
+                              }
+                              className="p-1 text-dark-400 hover:text-primary-400 transition-colors"
+                            >
+                              {copiedId === copyId ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                            </button>
+                          )}
+                        </div>
+                        <CommandCode text={text} shell={DEFAULT_SHELL} />
+                      </div>
+                    )}
+
+                    {isCurrent && (
+                      <button onClick={() => toggleStep(step)} className="btn-primary flex items-center space-x-2 py-2">
+                        <CheckCircle className="w-4 h-4" />
+                        <span>Mark done</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            )
+          })}
+        </div>
+
+        {/* Run History */}
+        {runs.length > 0 && (
+          <div className="card">
+            <h2 className="text-xl font-semibold mb-4">Run History</h2>
+            <div className="space-y-3">
+              {runs.map(run => (
+                <div key={run.id} className="flex items-center justify-between py-2 border-b border-dark-700 last:border-b-0">
+                  <div>
+                    <p className="font-medium">{names[run.started_by] ?? 'Unknown user'}</p>
+                    <p className="text-sm text-dark-400">
+                      Started {new Date(run.started_at).toLocaleString()}
+                      {run.finished_at && ` · finished ${new Date(run.finished_at).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-1 rounded-full text-xs ${RUN_STATUS_STYLES[run.status]}`}>
+                      {RUN_STATUS_LABELS[run.status]}
+                    </span>
+                    {activeRun?.id !== run.id && (
+                      <button onClick={() => openRun(run)} className="nav-link text-sm">
+                        {run.status === 'in_progress' && user ? 'Resume' : 'View'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {inProgressRuns.length > 0 && !activeRun && (
+              <p className="text-sm text-yellow-400 mt-4">
+                {inProgressRuns.length} run{inProgressRuns.length === 1 ? ' is' : 's are'} still in progress.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <RunbookEditor
+        isOpen={showEditor}
+        onClose={() => setShowEditor(false)}
+        onSave={handleSave}
+        runbook={runbook}
+        steps={steps}
+        commands={library}
+      />
+
+      {/* Template Fill-in Modal */}
+      {templateStep && (
+        <FillTemplateModal
+          isOpen={!!templateStep}
+          onClose={() => setTemplateStep(null)}
+          onCopy={(rendered) => {
+            copyToClipboard(rendered, templateStep.id)
+            setTemplateStep(null)
+          }}
+          name={templateStep.name}
+          template={templateStep.command}
+        />
+      )}
+    </div>
+  )
+}
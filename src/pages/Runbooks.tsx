@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Search, Plus, BookOpen, ListOrdered } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Command, Runbook } from '../lib/supabase'
+import { RunbookInput, RunbookStepDraft, fetchRunbooks, fetchStepCounts, fetchLibraryCommands, saveRunbook } from '../lib/runbooks'
+import { useAuth } from '../contexts/AuthContext'
+import { useWorkspace, usePermission } from '../contexts/WorkspaceContext'
+import RunbookEditor from '../components/RunbookEditor'
+
+export default function Runbooks() {
+  const { user } = useAuth()
+  const { workspace, loading: workspaceLoading } = useWorkspace()
+  const canCreate = usePermission('create')
+  const navigate = useNavigate()
+  const [runbooks, setRunbooks] = useState<Runbook[]>([])
+  const [stepCounts, setStepCounts] = useState<Record<string, number>>({})
+  const [commands, setCommands] = useState<Command[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showEditor, setShowEditor] = useState(false)
+
+  useEffect(() => {
+    if (!workspaceLoading) fetchData()
+  }, [workspace?.id, workspaceLoading])
+
+  const fetchData = async () => {
+    try {
+      const [runbookList, counts, library] = await Promise.all([
+        fetchRunbooks(workspace),
+        fetchStepCounts(),
+        fetchLibraryCommands(workspace),
+      ])
+      setRunbooks(runbookList)
+      setStepCounts(counts)
+      setCommands(library)
+    } catch (error) {
+      console.error('Error fetching runbooks:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async (input: RunbookInput, steps: RunbookStepDraft[]) => {
+    if (!user) return
+
+    try {
+      const runbook = await saveRunbook(null, input, steps, user.id, workspace?.id ?? null)
+      navigate(`/runbooks/${runbook.id}`)
+    } catch (error) {
+      console.error('Error creating runbook:', error)
+    }
+  }
+
+  const term = searchTerm.trim().toLowerCase()
+  const filteredRunbooks = term
+    ? runbooks.filter(runbook => `${runbook.title} ${runbook.description}`.toLowerCase().includes(term))
+    : runbooks
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-dark-900 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-4">
+            <span className="text-gradient">Runbooks</span>
+          </h1>
+          <p className="text-dark-300 text-lg">
+            Step-by-step procedures built from library commands
+          </p>
+        </div>
+
+        {/* Search */}
+        <div className="mb-8 flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-dark-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search runbooks..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="input-field pl-10 w-full"
+            />
+          </div>
+
+          {user && canCreate && (
+            <button
+              onClick={() => setShowEditor(true)}
+              className="btn-primary flex items-center space-x-2"
+            >
+              <Plus className="w-5 h-5" />
+              <span>New Runbook</span>
+            </button>
+          )}
+        </div>
+
+        {/* Runbooks Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredRunbooks.map((runbook) => (
+            <motion.div
+              key={runbook.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+            >
+              <Link to={`/runbooks/${runbook.id}`} className="card block h-full">
+                <div className="flex items-center space-x-2 mb-3">
+                  <BookOpen className="w-5 h-5 text-primary-400" />
+                  <h3 className="text-xl font-semibold">{runbook.title}</h3>
+                </div>
+                <p className="text-dark-300 mb-4 line-clamp-3">{runbook.description}</p>
+                <div className="flex items-center justify-between text-sm text-dark-400">
+                  <span className="flex items-center space-x-1">
+                    <ListOrdered className="w-4 h-4" />
+                    <span>{stepCounts[runbook.id] ?? 0} steps</span>
+                  </span>
+                  <span>Updated {new Date(runbook.updated_at).toLocaleDateString()}</span>
+                </div>
+              </Link>
+            </motion.div>
+          ))}
+        </div>
+
+        {filteredRunbooks.length === 0 && (
+          <div className="text-center py-12">
+            <BookOpen className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-dark-400 mb-2">No runbooks found</h3>
+            <p className="text-dark-500">
+              {runbooks.length === 0 ? 'Create one to capture a procedure your team repeats.' : 'Try adjusting your search'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <RunbookEditor
+        isOpen={showEditor}
+        onClose={() => setShowEditor(false)}
+        onSave={handleCreate}
+        commands={commands}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { Terminal, Copy, Check, FolderOpen } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Collection, Command } from '../lib/supabase'
+import { fetchSharedCollection } from '../lib/collections'
+import { commandsRepository } from '../lib/repositories'
+import { hasPlaceholders } from '../lib/templates'
+import { resolveLintRules, confirmDangerousCopy } from '../lib/commandLint'
+import { DEFAULT_SHELL } from '../lib/shells'
+import { useSettings } from '../contexts/SettingsContext'
+import FillTemplateModal from '../components/FillTemplateModal'
+import CategoryBadge from '../components/CategoryBadge'
+import CommandCode from '../components/CommandCode'
+
+export default function SharedCollection() {
+  const { token } = useParams<{ token: string }>()
+  const { settings } = useSettings()
+  const [collection, setCollection] = useState<Collection | null>(null)
+  const [commands, setCommands] = useState<Command[]>([])
+  const [loading, setLoading] = useState(true)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [templateCommand, setTemplateCommand] = useState<Command | null>(null)
+
+  useEffect(() => {
+    if (token) loadCollection(token)
+  }, [token])
+
+  const loadCollection = async (shareToken: string) => {
+    try {
+      const shared = await fetchSharedCollection(shareToken)
+      setCollection(shared?.collection ?? null)
+      setCommands(shared?.commands ?? [])
+    } catch (error) {
+      console.error('Error fetching collection:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const lintRules = resolveLintRules(settings.lint_rules)
+
+  const copyToClipboard = async (text: string, id: string) => {
+    if (!confirmDangerousCopy(text, lintRules)) return
+
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopiedId(id)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch (error) {
+      console.error('Failed to copy:', error)
+      return
+    }
+
+    try {
+      await commandsRepository.recordCopy(id)
+    } catch (error) {
+      console.error('Error recording copy:', error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-500"></div>
+      </div>
+    )
+  }
+
+  if (!collection) {
+    return (
+      <div className="min-h-screen bg-dark-900 py-8">
+        <div className="max-w-3xl mx-auto px-4 text-center py-12">
+          <FolderOpen className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-semibold text-dark-300 mb-2">Collection not found</h1>
+          <p className="text-dark-500 mb-6">The link may be wrong, or the owner has made this collection private.</p>
+          <Link to="/commands" className="btn-primary">
+            Browse the command library
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-dark-900 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <p className="text-sm text-dark-400 mb-2">Shared collection</p>
+          <h1 className="text-4xl font-bold mb-4">{collection.name}</h1>
+          {collection.description && <p className="text-dark-300 text-lg">{collection.description}</p>}
+        </div>
+
+        <div className="space-y-4">
+          {commands.map((command) => (
+            <motion.div
+              key={command.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="card"
+            >
+              <div className="flex justify-between items-start mb-2">
+                <h3 className="text-xl font-semibold">{command.name}</h3>
+                <CategoryBadge slug={command.category} />
+              </div>
+              <p className="text-dark-300 mb-4">{command.description}</p>
+
+              <div className="bg-dark-700 rounded-lg p-4 flex items-start justify-between gap-4">
+                <div className="flex items-start space-x-2 min-w-0">
+                  <Terminal className="w-4 h-4 text-primary-400 mt-0.5 flex-shrink-0" />
+                  <CommandCode text={command.command} shell={DEFAULT_SHELL} />
+                </div>
+                <button
+                  onClick={() => hasPlaceholders(command.command)
+                    ? setTemplateCommand(command)
+                    : copyToClipboard(command.command, command.id)
+                  }
+                  className="p-1 text-dark-400 hover:text-primary-400 transition-colors"
+                >
+                  {copiedId === command.id ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+
+        {commands.length === 0 && (
+          <div className="text-center py-12">
+            <Terminal className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+            <p className="text-dark-400">This collection is empty.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Template Fill-in Modal */}
+      {templateCommand && (
+        <FillTemplateModal
+          isOpen={!!templateCommand}
+          onClose={() => setTemplateCommand(null)}
+          onCopy={(rendered) => {
+            copyToClipboard(rendered, templateCommand.id)
+            setTemplateCommand(null)
+          }}
+          name={templateCommand.name}
+          template={templateCommand.command}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+// Keeps the app itself available offline. Supabase is on another origin and
+// is left alone; the app mirrors the library into IndexedDB on its own.
+//
+// This file is not bundled. The build writes it to dist/sw.js with the list
+// of built files filled in (see vite.config.ts), so every deploy installs a
+// new worker that precaches exactly that build.
+
+const BUILD = '__BUILD_ID__'
+const ASSETS = __PRECACHE_ASSETS__
+
+const PRECACHE = `ariola-precache-${BUILD}`
+const RUNTIME = 'ariola-runtime'
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg']
+
+// Anything else same-origin that gets fetched, kept to a bounded size
+const RUNTIME_ENTRIES = 50
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(PRECACHE)
+      .then(cache => cache.addAll([...SHELL, ...ASSETS]))
+      .then(() => self.skipWaiting())
+  )
+})
+
+// Caches from older builds go, and so do hashed files of older builds that
+// ended up in the runtime cache
+self.addEventListener('activate', event => {
+  const current = new Set(ASSETS.map(path => new URL(path, self.location.origin).href))
+
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== PRECACHE && key !== RUNTIME).map(key => caches.delete(key))))
+      .then(() => caches.open(RUNTIME))
+      .then(cache => cache.keys().then(requests => Promise.all(requests
+        .filter(request => new URL(request.url).pathname.startsWith('/assets/') && !current.has(request.url))
+        .map(request => cache.delete(request))
+      )))
+      .then(() => self.clients.claim())
+  )
+})
+
+// Cache keys come back oldest first, so the oldest entries go first
+async function putInRuntime(request, response) {
+  const cache = await caches.open(RUNTIME)
+  await cache.put(request, response)
+
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(keys.length - RUNTIME_ENTRIES, 0)).map(key => cache.delete(key)))
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  // Every route is the same single page. Network first, so a new deploy
+  // shows up straight away, and the cached page when offline.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          if (response.ok) {
+            const copy = response.clone()
+            caches.open(PRECACHE).then(cache => cache.put('/', copy))
+          }
+          return response
+        })
+        .catch(() => caches.match('/'))
+    )
+    return
+  }
+
+  // Built assets have content hashes in their names, so a cached copy is
+  // never out of date
+  event.respondWith(
+    caches.match(request).then(cached => cached ?? fetch(request).then(response => {
+      if (response.ok) event.waitUntil(putInRuntime(request, response.clone()))
+      return response
+    }))
+  )
+})
@@ -0,0 +1,700 @@
+-- The tables, columns and row level security the app relies on, on top of
+-- the original `commands` and `user_profiles` tables.
+--
+-- Permissions follow src/lib/permissions.ts: an account role on the profile,
+-- optionally overridden per workspace by a membership, mapped to what the
+-- role may do. The client checks the same mapping to decide what to show;
+-- the policies below are what actually enforces it.
+--
+-- Requests from the app run as `anon` or `authenticated`. Triggers that
+-- guard columns leave other roles alone, so the SQL editor and the security
+-- definer functions below can still set anything. Promote the first admin
+-- there with `update public.user_profiles set role = 'admin' where email = ...`.
+
+-- Profiles ------------------------------------------------------------------
+
+-- Profiles from before roles keep a null role and count by `is_admin`
+alter table public.user_profiles
+  add column if not exists avatar_url text,
+  add column if not exists role text check (role in ('viewer', 'contributor', 'moderator', 'admin')),
+  add column if not exists preferred_shell text check (preferred_shell in ('bash', 'zsh', 'fish', 'powershell')),
+  add column if not exists default_category text,
+  add column if not exists active_workspace_id uuid;
+
+alter table public.user_profiles alter column role set default 'contributor';
+
+-- Settings ------------------------------------------------------------------
+
+create table if not exists public.app_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+create or replace function public.registration_open()
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce((select value::boolean from public.app_settings where key = 'allow_registration'), true)
+$$;
+
+create or replace function public.approval_required()
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce((select value::boolean from public.app_settings where key = 'require_command_approval'), false)
+$$;
+
+-- Workspaces ----------------------------------------------------------------
+
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text not null default '',
+  is_default boolean not null default false,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists workspaces_one_default_idx on public.workspaces (is_default) where is_default;
+
+create table if not exists public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'contributor' check (role in ('viewer', 'contributor', 'moderator', 'admin')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+alter table public.user_profiles
+  drop constraint if exists user_profiles_active_workspace_id_fkey,
+  add constraint user_profiles_active_workspace_id_fkey
+    foreign key (active_workspace_id) references public.workspaces (id) on delete set null;
+
+-- Roles and permissions -----------------------------------------------------
+
+-- `roleOf` in src/lib/permissions.ts. Null for visitors.
+create or replace function public.account_role()
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce(role, case when is_admin then 'admin' else 'contributor' end)
+  from public.user_profiles
+  where id = auth.uid()
+$$;
+
+-- `ROLE_PERMISSIONS` in src/lib/permissions.ts
+create or replace function public.role_has_permission(role text, permission text)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(case permission
+    when 'create' then role in ('contributor', 'moderator', 'admin')
+    when 'edit_any' then role in ('moderator', 'admin')
+    when 'delete' then role in ('moderator', 'admin')
+    when 'moderate' then role in ('moderator', 'admin')
+    when 'manage_users' then role = 'admin'
+    else false
+  end, false)
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(public.account_role() = 'admin', false)
+$$;
+
+-- `workspaceRole` in src/lib/permissions.ts. Rows without a workspace belong
+-- to the default one.
+create or replace function public.workspace_role(workspace uuid)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  account text := public.account_role();
+  target public.workspaces;
+  membership text;
+begin
+  if account is null or account = 'admin' then
+    return account;
+  end if;
+
+  if workspace is null then
+    select * into target from public.workspaces where is_default;
+  else
+    select * into target from public.workspaces where id = workspace;
+  end if;
+  if target.id is null then
+    return account;
+  end if;
+
+  select role into membership
+  from public.workspace_members
+  where workspace_id = target.id and user_id = auth.uid();
+
+  return coalesce(membership, case when target.is_default then account end);
+end;
+$$;
+
+create or replace function public.can(workspace uuid, permission text)
+returns boolean
+language sql
+stable
+as $$
+  select public.role_has_permission(public.workspace_role(workspace), permission)
+$$;
+
+-- Visitors and non-members see the default workspace only
+create or replace function public.can_see_workspace(workspace uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select workspace is null
+    or exists (select 1 from public.workspaces where id = workspace and is_default)
+    or public.workspace_role(workspace) is not null
+$$;
+
+-- Commands ------------------------------------------------------------------
+
+alter table public.commands
+  add column if not exists status text not null default 'approved'
+    check (status in ('pending', 'approved', 'rejected', 'changes_requested')),
+  add column if not exists reviewed_by uuid references auth.users (id) on delete set null,
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists review_note text,
+  add column if not exists workspace_id uuid references public.workspaces (id),
+  add column if not exists copy_count integer not null default 0;
+
+create index if not exists commands_workspace_id_idx on public.commands (workspace_id);
+create index if not exists commands_created_by_idx on public.commands (created_by);
+
+create or replace function public.can_edit_command(command uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.commands c
+    where c.id = command
+      and (c.created_by = auth.uid() or public.can(c.workspace_id, 'edit_any'))
+  )
+$$;
+
+create table if not exists public.command_revisions (
+  id uuid primary key default gen_random_uuid(),
+  command_id uuid not null references public.commands (id) on delete cascade,
+  name text not null,
+  description text not null,
+  command text not null,
+  category text not null,
+  changed_fields text[] not null default '{}',
+  restored_from uuid references public.command_revisions (id) on delete set null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists command_revisions_command_id_idx on public.command_revisions (command_id, created_at desc);
+
+-- Copying is open to visitors too, so the count is bumped by a function
+-- rather than an update policy
+create or replace function public.increment_copy_count(command_id uuid)
+returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  update public.commands
+  set copy_count = copy_count + 1
+  where id = command_id and is_active and status = 'approved'
+$$;
+
+revoke execute on function public.increment_copy_count from public;
+grant execute on function public.increment_copy_count to anon, authenticated;
+
+-- Tags and categories -------------------------------------------------------
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.command_tags (
+  command_id uuid not null references public.commands (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (command_id, tag_id)
+);
+
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique,
+  name text not null,
+  icon text not null default 'folder',
+  color text not null default 'sky',
+  description text not null default '',
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Favorites and collections -------------------------------------------------
+
+create table if not exists public.favorites (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  command_id uuid not null references public.commands (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, command_id)
+);
+
+create table if not exists public.collections (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  description text not null default '',
+  visibility text not null default 'private' check (visibility in ('private', 'shared')),
+  share_token text unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.collection_items (
+  collection_id uuid not null references public.collections (id) on delete cascade,
+  command_id uuid not null references public.commands (id) on delete cascade,
+  position integer not null default 0,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, command_id)
+);
+
+-- Shared collections are read by their link's token only, so they can't be
+-- listed. Items come back in order.
+create or replace function public.shared_collection(token text)
+returns setof public.collections
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select * from public.collections where share_token = token and visibility = 'shared'
+$$;
+
+create or replace function public.shared_collection_items(token text)
+returns setof public.collection_items
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select i.*
+  from public.collection_items i
+  join public.collections c on c.id = i.collection_id
+  where c.share_token = token and c.visibility = 'shared'
+  order by i.position
+$$;
+
+grant execute on function public.shared_collection to anon, authenticated;
+grant execute on function public.shared_collection_items to anon, authenticated;
+
+-- Runbooks ------------------------------------------------------------------
+
+create table if not exists public.runbooks (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text not null default '',
+  workspace_id uuid references public.workspaces (id),
+  created_by uuid not null references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.runbook_steps (
+  id uuid primary key default gen_random_uuid(),
+  runbook_id uuid not null references public.runbooks (id) on delete cascade,
+  position integer not null default 0,
+  title text not null,
+  notes text not null default '',
+  command_id uuid references public.commands (id) on delete set null,
+  inline_command text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.runbook_runs (
+  id uuid primary key default gen_random_uuid(),
+  runbook_id uuid not null references public.runbooks (id) on delete cascade,
+  status text not null default 'in_progress' check (status in ('in_progress', 'completed', 'abandoned')),
+  started_by uuid not null references auth.users (id) on delete cascade,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create table if not exists public.runbook_step_completions (
+  run_id uuid not null references public.runbook_runs (id) on delete cascade,
+  step_id uuid not null references public.runbook_steps (id) on delete cascade,
+  completed_by uuid not null references auth.users (id) on delete cascade,
+  completed_at timestamptz not null default now(),
+  primary key (run_id, step_id)
+);
+
+create or replace function public.can_edit_runbook(runbook uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.runbooks r
+    where r.id = runbook
+      and (r.created_by = auth.uid() or public.can(r.workspace_id, 'edit_any'))
+  )
+$$;
+
+-- Audit log -----------------------------------------------------------------
+
+create table if not exists public.audit_logs (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid not null,
+  actor_email text not null default '',
+  action text not null,
+  target_type text not null,
+  target_id text,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_logs_created_at_idx on public.audit_logs (created_at desc);
+
+-- Guarded columns -----------------------------------------------------------
+
+-- Roles are only handed out by admins; everyone else gets the default
+create or replace function public.guard_profile()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') or public.is_admin() then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.role := 'contributor';
+    new.is_admin := false;
+  else
+    new.id := old.id;
+    new.role := old.role;
+    new.is_admin := old.is_admin;
+    new.created_at := old.created_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_profile on public.user_profiles;
+create trigger guard_profile
+  before insert or update on public.user_profiles
+  for each row execute function public.guard_profile();
+
+-- Only moderators decide reviews, and copies are only counted by
+-- `increment_copy_count`. Where approval is required, what others add waits
+-- for review.
+create or replace function public.guard_command()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.copy_count := 0;
+  else
+    new.copy_count := old.copy_count;
+    new.created_by := old.created_by;
+    new.created_at := old.created_at;
+  end if;
+
+  if public.can(new.workspace_id, 'moderate') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.reviewed_by := null;
+    new.reviewed_at := null;
+    new.review_note := null;
+    if public.approval_required() or new.status <> 'approved' then
+      new.status := 'pending';
+    end if;
+  else
+    new.reviewed_by := old.reviewed_by;
+    new.reviewed_at := old.reviewed_at;
+    new.review_note := old.review_note;
+    -- Authors may only send a command back for review
+    if new.status is distinct from old.status and new.status <> 'pending' then
+      new.status := old.status;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_command on public.commands;
+create trigger guard_command
+  before insert or update on public.commands
+  for each row execute function public.guard_command();
+
+-- Password sign-ups get their profile here, so it exists even before the
+-- email address is confirmed and the client has a session. Provider sign-ins
+-- create theirs from the callback page (src/contexts/AuthContext.tsx).
+create or replace function public.create_profile_for_sign_up()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if coalesce(new.raw_app_meta_data ->> 'provider', 'email') <> 'email' then
+    return new;
+  end if;
+
+  if not public.registration_open() then
+    raise exception 'Registration is currently closed';
+  end if;
+
+  insert into public.user_profiles (id, email, full_name)
+  values (new.id, coalesce(new.email, ''), coalesce(new.raw_user_meta_data ->> 'full_name', ''))
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists create_profile_for_sign_up on auth.users;
+create trigger create_profile_for_sign_up
+  after insert on auth.users
+  for each row execute function public.create_profile_for_sign_up();
+
+-- Row level security --------------------------------------------------------
+
+alter table public.user_profiles enable row level security;
+alter table public.app_settings enable row level security;
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.commands enable row level security;
+alter table public.command_revisions enable row level security;
+alter table public.tags enable row level security;
+alter table public.command_tags enable row level security;
+alter table public.categories enable row level security;
+alter table public.favorites enable row level security;
+alter table public.collections enable row level security;
+alter table public.collection_items enable row level security;
+alter table public.runbooks enable row level security;
+alter table public.runbook_steps enable row level security;
+alter table public.runbook_runs enable row level security;
+alter table public.runbook_step_completions enable row level security;
+alter table public.audit_logs enable row level security;
+
+-- Names and emails are for signed-in users only
+drop policy if exists "Signed-in users read profiles" on public.user_profiles;
+create policy "Signed-in users read profiles" on public.user_profiles
+  for select to authenticated using (true);
+drop policy if exists "Users create their own profile" on public.user_profiles;
+create policy "Users create their own profile" on public.user_profiles
+  for insert to authenticated with check (id = auth.uid() and public.registration_open());
+drop policy if exists "Users update their own profile" on public.user_profiles;
+create policy "Users update their own profile" on public.user_profiles
+  for update to authenticated using (id = auth.uid() or public.is_admin());
+drop policy if exists "Admins delete profiles" on public.user_profiles;
+create policy "Admins delete profiles" on public.user_profiles
+  for delete to authenticated using (public.is_admin());
+
+drop policy if exists "Everyone reads settings" on public.app_settings;
+create policy "Everyone reads settings" on public.app_settings
+  for select using (true);
+drop policy if exists "Admins change settings" on public.app_settings;
+create policy "Admins change settings" on public.app_settings
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+drop policy if exists "Members see their workspaces" on public.workspaces;
+create policy "Members see their workspaces" on public.workspaces
+  for select using (public.can_see_workspace(id));
+drop policy if exists "Admins create workspaces" on public.workspaces;
+create policy "Admins create workspaces" on public.workspaces
+  for insert to authenticated with check (public.is_admin() and created_by = auth.uid());
+drop policy if exists "Workspace admins update workspaces" on public.workspaces;
+create policy "Workspace admins update workspaces" on public.workspaces
+  for update to authenticated using (public.workspace_role(id) = 'admin');
+drop policy if exists "Admins delete workspaces" on public.workspaces;
+create policy "Admins delete workspaces" on public.workspaces
+  for delete to authenticated using (public.is_admin());
+
+drop policy if exists "Members see memberships" on public.workspace_members;
+create policy "Members see memberships" on public.workspace_members
+  for select to authenticated using (user_id = auth.uid() or public.workspace_role(workspace_id) = 'admin');
+drop policy if exists "Workspace admins manage members" on public.workspace_members;
+create policy "Workspace admins manage members" on public.workspace_members
+  for all to authenticated
+  using (public.workspace_role(workspace_id) = 'admin')
+  with check (public.workspace_role(workspace_id) = 'admin');
+
+drop policy if exists "Library and own commands are visible" on public.commands;
+create policy "Library and own commands are visible" on public.commands
+  for select using (
+    (is_active and status = 'approved' and public.can_see_workspace(workspace_id))
+    or created_by = auth.uid()
+    or public.can(workspace_id, 'edit_any')
+  );
+drop policy if exists "Contributors add commands" on public.commands;
+create policy "Contributors add commands" on public.commands
+  for insert to authenticated with check (created_by = auth.uid() and public.can(workspace_id, 'create'));
+drop policy if exists "Authors and editors change commands" on public.commands;
+create policy "Authors and editors change commands" on public.commands
+  for update to authenticated
+  using (created_by = auth.uid() or public.can(workspace_id, 'edit_any'))
+  with check (created_by = auth.uid() or public.can(workspace_id, 'edit_any'));
+drop policy if exists "Authors and moderators delete commands" on public.commands;
+create policy "Authors and moderators delete commands" on public.commands
+  for delete to authenticated using (created_by = auth.uid() or public.can(workspace_id, 'delete'));
+
+-- Revisions follow their command. The first revision of a command from
+-- before revisions is recorded in its author's name.
+drop policy if exists "Revisions of visible commands are visible" on public.command_revisions;
+create policy "Revisions of visible commands are visible" on public.command_revisions
+  for select using (exists (select 1 from public.commands c where c.id = command_id));
+drop policy if exists "Editors record revisions" on public.command_revisions;
+create policy "Editors record revisions" on public.command_revisions
+  for insert to authenticated with check (
+    public.can_edit_command(command_id)
+    and (
+      created_by = auth.uid()
+      or created_by is not distinct from (select c.created_by from public.commands c where c.id = command_id)
+    )
+  );
+
+drop policy if exists "Everyone reads tags" on public.tags;
+create policy "Everyone reads tags" on public.tags
+  for select using (true);
+drop policy if exists "Signed-in users add tags" on public.tags;
+create policy "Signed-in users add tags" on public.tags
+  for insert to authenticated with check (true);
+drop policy if exists "Admins change tags" on public.tags;
+create policy "Admins change tags" on public.tags
+  for update to authenticated using (public.is_admin());
+drop policy if exists "Admins delete tags" on public.tags;
+create policy "Admins delete tags" on public.tags
+  for delete to authenticated using (public.is_admin());
+
+drop policy if exists "Everyone reads command tags" on public.command_tags;
+create policy "Everyone reads command tags" on public.command_tags
+  for select using (true);
+drop policy if exists "Editors tag commands" on public.command_tags;
+create policy "Editors tag commands" on public.command_tags
+  for insert to authenticated with check (public.can_edit_command(command_id));
+drop policy if exists "Editors untag commands" on public.command_tags;
+create policy "Editors untag commands" on public.command_tags
+  for delete to authenticated using (public.can_edit_command(command_id) or public.is_admin());
+
+drop policy if exists "Everyone reads categories" on public.categories;
+create policy "Everyone reads categories" on public.categories
+  for select using (true);
+drop policy if exists "Admins manage categories" on public.categories;
+create policy "Admins manage categories" on public.categories
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+drop policy if exists "Users manage their favorites" on public.favorites;
+create policy "Users manage their favorites" on public.favorites
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+drop policy if exists "Owners manage their collections" on public.collections;
+create policy "Owners manage their collections" on public.collections
+  for all to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+drop policy if exists "Owners manage their collection items" on public.collection_items;
+create policy "Owners manage their collection items" on public.collection_items
+  for all to authenticated
+  using (exists (select 1 from public.collections c where c.id = collection_id and c.owner_id = auth.uid()))
+  with check (exists (select 1 from public.collections c where c.id = collection_id and c.owner_id = auth.uid()));
+
+drop policy if exists "Runbooks of visible workspaces are visible" on public.runbooks;
+create policy "Runbooks of visible workspaces are visible" on public.runbooks
+  for select using (public.can_see_workspace(workspace_id));
+drop policy if exists "Contributors add runbooks" on public.runbooks;
+create policy "Contributors add runbooks" on public.runbooks
+  for insert to authenticated with check (created_by = auth.uid() and public.can(workspace_id, 'create'));
+drop policy if exists "Authors and editors change runbooks" on public.runbooks;
+create policy "Authors and editors change runbooks" on public.runbooks
+  for update to authenticated using (public.can_edit_runbook(id));
+drop policy if exists "Authors and editors delete runbooks" on public.runbooks;
+create policy "Authors and editors delete runbooks" on public.runbooks
+  for delete to authenticated using (public.can_edit_runbook(id));
+
+drop policy if exists "Steps of visible runbooks are visible" on public.runbook_steps;
+create policy "Steps of visible runbooks are visible" on public.runbook_steps
+  for select using (exists (select 1 from public.runbooks r where r.id = runbook_id));
+drop policy if exists "Runbook editors manage steps" on public.runbook_steps;
+create policy "Runbook editors manage steps" on public.runbook_steps
+  for all to authenticated using (public.can_edit_runbook(runbook_id)) with check (public.can_edit_runbook(runbook_id));
+
+-- Runs are shared checklists: anyone who can see the runbook follows along
+drop policy if exists "Runs of visible runbooks are visible" on public.runbook_runs;
+create policy "Runs of visible runbooks are visible" on public.runbook_runs
+  for select using (exists (select 1 from public.runbooks r where r.id = runbook_id));
+drop policy if exists "Signed-in users start runs" on public.runbook_runs;
+create policy "Signed-in users start runs" on public.runbook_runs
+  for insert to authenticated with check (
+    started_by = auth.uid() and exists (select 1 from public.runbooks r where r.id = runbook_id)
+  );
+drop policy if exists "Starters and editors finish runs" on public.runbook_runs;
+create policy "Starters and editors finish runs" on public.runbook_runs
+  for update to authenticated using (started_by = auth.uid() or public.can_edit_runbook(runbook_id));
+drop policy if exists "Runbook editors delete runs" on public.runbook_runs;
+create policy "Runbook editors delete runs" on public.runbook_runs
+  for delete to authenticated using (public.can_edit_runbook(runbook_id));
+
+drop policy if exists "Completions of visible runs are visible" on public.runbook_step_completions;
+create policy "Completions of visible runs are visible" on public.runbook_step_completions
+  for select using (exists (select 1 from public.runbook_runs r where r.id = run_id));
+drop policy if exists "Signed-in users complete steps" on public.runbook_step_completions;
+create policy "Signed-in users complete steps" on public.runbook_step_completions
+  for insert to authenticated with check (
+    completed_by = auth.uid()
+    and exists (select 1 from public.runbook_runs r where r.id = run_id and r.status = 'in_progress')
+  );
+drop policy if exists "Signed-in users recomplete steps" on public.runbook_step_completions;
+create policy "Signed-in users recomplete steps" on public.runbook_step_completions
+  for update to authenticated
+  using (exists (select 1 from public.runbook_runs r where r.id = run_id and r.status = 'in_progress'))
+  with check (completed_by = auth.uid());
+drop policy if exists "Signed-in users uncomplete steps" on public.runbook_step_completions;
+create policy "Signed-in users uncomplete steps" on public.runbook_step_completions
+  for delete to authenticated using (exists (select 1 from public.runbook_runs r where r.id = run_id));
+
+-- Entries are written in the actor's own name and read by admins
+drop policy if exists "Users record their own actions" on public.audit_logs;
+create policy "Users record their own actions" on public.audit_logs
+  for insert to authenticated with check (actor_id = auth.uid());
+drop policy if exists "Admins read the audit log" on public.audit_logs;
+create policy "Admins read the audit log" on public.audit_logs
+  for select to authenticated using (public.is_admin());
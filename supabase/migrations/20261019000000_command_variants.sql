@@ -0,0 +1,9 @@
+-- Per-shell variants of a command, keyed by shell (zsh, fish, powershell).
+-- The base `command` column stays the bash text.
+alter table public.commands
+  add column if not exists variants jsonb not null default '{}'::jsonb;
+
+-- Revisions keep the variants too, so restoring a revision brings them back.
+-- Revisions recorded before this column existed read as having none.
+alter table public.command_revisions
+  add column if not exists variants jsonb not null default '{}'::jsonb;
@@ -0,0 +1,208 @@
+-- Library search in the database: filtering, ranking, sorting, counting and
+-- keyset paging for the Commands page (see src/lib/commandQuery.ts).
+--
+-- Search text is matched against name, category, description and command.
+-- Terms match as substrings or, from four letters on, by trigram word
+-- similarity, which tolerates typos. Rows are ranked like `searchCommands` in
+-- src/lib/search.ts: a match in the name counts 4, category 2, description
+-- 1.5 and command 1, phrases count half again, and an exact name adds 8.
+
+create extension if not exists pg_trgm;
+
+create or replace function public.command_search_text(name text, category text, description text, command text)
+returns text
+language sql
+immutable
+as $$
+  select lower(name || ' ' || category || ' ' || description || ' ' || command)
+$$;
+
+create index if not exists commands_search_text_idx
+  on public.commands using gin (public.command_search_text(name, category, description, command) gin_trgm_ops);
+
+create index if not exists command_tags_tag_id_idx on public.command_tags (tag_id);
+
+create type public.command_search_result as (
+  command public.commands,
+  rank real
+);
+
+-- Every command matching the filters, with its rank, in no particular order.
+-- Runs with the caller's rights, so row level security still applies.
+create or replace function public.command_search_matches(
+  workspace uuid default null,
+  include_unassigned boolean default false,
+  library_only boolean default true,
+  category_slug text default null,
+  tag_names text[] default null,
+  tag_mode text default 'and',
+  favorites_of uuid default null,
+  collection uuid default null,
+  terms text[] default '{}',
+  phrases text[] default '{}',
+  excluded text[] default '{}',
+  field_filters jsonb default '[]'
+)
+returns setof public.command_search_result
+language sql
+stable
+as $$
+  select
+    c,
+    ((
+      select coalesce(sum(greatest(
+        4 * word_similarity(t, lower(c.name)),
+        2 * word_similarity(t, lower(c.category)),
+        1.5 * word_similarity(t, lower(c.description)),
+        word_similarity(t, lower(c.command))
+      )), 0)
+      from unnest(terms) as t
+    ) + (
+      select coalesce(sum(1.5 * greatest(
+        case when strpos(lower(c.name), p) > 0 then 4 else 0 end,
+        case when strpos(lower(c.category), p) > 0 then 2 else 0 end,
+        case when strpos(lower(c.description), p) > 0 then 1.5 else 0 end,
+        case when strpos(lower(c.command), p) > 0 then 1 else 0 end
+      )), 0)
+      from unnest(phrases) as p
+    ) + case
+      when cardinality(terms || phrases) > 0
+        and lower(c.name) = array_to_string(phrases || terms, ' ')
+      then 8 else 0
+    end)::real
+  from public.commands c
+  where (workspace is null or c.workspace_id = workspace or (include_unassigned and c.workspace_id is null))
+    and (not library_only or (c.is_active and c.status = 'approved'))
+    and (category_slug is null or c.category = category_slug)
+    and (favorites_of is null or exists (
+      select 1 from public.favorites f where f.command_id = c.id and f.user_id = favorites_of
+    ))
+    and (collection is null or exists (
+      select 1 from public.collection_items i where i.command_id = c.id and i.collection_id = collection
+    ))
+    and (tag_names is null or (
+      select count(distinct t.name)
+      from public.command_tags ct
+      join public.tags t on t.id = ct.tag_id
+      where ct.command_id = c.id and t.name = any(tag_names)
+    ) >= case when tag_mode = 'or' then 1 else cardinality(tag_names) end)
+    and not exists (
+      select 1 from unnest(terms) as t
+      where strpos(public.command_search_text(c.name, c.category, c.description, c.command), t) = 0
+        and (length(t) < 4 or not t <% public.command_search_text(c.name, c.category, c.description, c.command))
+    )
+    and not exists (
+      select 1 from unnest(phrases) as p where strpos(public.command_search_text(c.name, c.category, c.description, c.command), p) = 0
+    )
+    and not exists (
+      select 1 from unnest(excluded) as x where strpos(public.command_search_text(c.name, c.category, c.description, c.command), x) > 0
+    )
+    -- A filter rules the row out when whether it matches equals whether it
+    -- is negated
+    and not exists (
+      select 1
+      from jsonb_to_recordset(field_filters) as f(key text, value text, negated boolean)
+      where coalesce(case f.key
+        when 'category' then lower(c.category) = f.value
+        when 'author' then case
+          when f.value = 'me' then c.created_by = auth.uid()
+          else c.created_by::text like f.value || '%' or exists (
+            select 1 from public.user_profiles u
+            where u.id = c.created_by
+              and (strpos(lower(u.full_name), f.value) > 0 or strpos(lower(u.email), f.value) > 0)
+          )
+        end
+        when 'tag' then exists (
+          select 1
+          from public.command_tags ct
+          join public.tags t on t.id = ct.tag_id
+          where ct.command_id = c.id and t.name = ltrim(f.value, '#')
+        )
+        else true
+      end, false) = coalesce(f.negated, false)
+    )
+$$;
+
+-- One page of matches. `after_value` and `after_id` are the sort value (the
+-- rank for 'relevance') and id of the previous page's last row; ties are
+-- broken by id in the direction of the sort.
+create or replace function public.search_commands(
+  workspace uuid default null,
+  include_unassigned boolean default false,
+  library_only boolean default true,
+  category_slug text default null,
+  tag_names text[] default null,
+  tag_mode text default 'and',
+  favorites_of uuid default null,
+  collection uuid default null,
+  terms text[] default '{}',
+  phrases text[] default '{}',
+  excluded text[] default '{}',
+  field_filters jsonb default '[]',
+  sort_order text default 'newest',
+  after_value text default null,
+  after_id uuid default null,
+  page_size integer default null
+)
+returns setof public.command_search_result
+language plpgsql
+stable
+as $$
+declare
+  sort_value text;
+  sort_type text;
+  direction text := case when sort_order = 'name' then 'asc' else 'desc' end;
+begin
+  case sort_order
+    when 'relevance' then sort_value := 'm.rank'; sort_type := 'real';
+    when 'updated' then sort_value := '(m.command).updated_at'; sort_type := 'timestamptz';
+    when 'name' then sort_value := '(m.command).name'; sort_type := 'text';
+    when 'copies' then sort_value := '(m.command).copy_count'; sort_type := 'integer';
+    else sort_value := '(m.command).created_at'; sort_type := 'timestamptz';
+  end case;
+
+  return query execute format(
+    'select m.command, m.rank
+     from public.command_search_matches($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) m
+     where $14 is null or (%1$s, (m.command).id) %2$s ($13::%3$s, $14)
+     order by %1$s %4$s, (m.command).id %4$s
+     limit $15',
+    sort_value,
+    case when direction = 'asc' then '>' else '<' end,
+    sort_type,
+    direction
+  )
+  using workspace, include_unassigned, library_only, category_slug, tag_names, tag_mode,
+    favorites_of, collection, terms, phrases, excluded, field_filters,
+    after_value, after_id, page_size;
+end;
+$$;
+
+create or replace function public.count_commands(
+  workspace uuid default null,
+  include_unassigned boolean default false,
+  library_only boolean default true,
+  category_slug text default null,
+  tag_names text[] default null,
+  tag_mode text default 'and',
+  favorites_of uuid default null,
+  collection uuid default null,
+  terms text[] default '{}',
+  phrases text[] default '{}',
+  excluded text[] default '{}',
+  field_filters jsonb default '[]'
+)
+returns bigint
+language sql
+stable
+as $$
+  select count(*)
+  from public.command_search_matches(
+    workspace, include_unassigned, library_only, category_slug, tag_names, tag_mode,
+    favorites_of, collection, terms, phrases, excluded, field_filters
+  )
+$$;
+
+grant execute on function public.command_search_matches to anon, authenticated;
+grant execute on function public.search_commands to anon, authenticated;
+grant execute on function public.count_commands to anon, authenticated;
@@ -0,0 +1,31 @@
+-- Supabase links a provider sign-in to an existing account only when both
+-- have verified the same email. Otherwise it creates a second account for
+-- the provider identity, and since an identity belongs to one account only,
+-- connecting the provider to the existing account fails until that second
+-- account is gone. The app calls this right after such a sign-in, before it
+-- asks the user to sign in to the existing account and connect from there.
+--
+-- Only accounts without a profile can be removed this way; every account the
+-- app has set up has one.
+create or replace function public.discard_unlinked_account()
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  if exists (select 1 from public.user_profiles where id = auth.uid()) then
+    raise exception 'This account is in use and cannot be discarded';
+  end if;
+
+  -- Its identities go with it
+  delete from auth.users where id = auth.uid();
+end;
+$$;
+
+revoke execute on function public.discard_unlinked_account from public, anon;
+grant execute on function public.discard_unlinked_account to authenticated;
@@ -0,0 +1,104 @@
+-- Deleting an account from the Profile page (src/lib/profiles.ts). Only the
+-- database may remove a sign-in account, so the whole deletion happens here,
+-- in one transaction.
+--
+-- With `keep_commands` the user's approved commands stay in the library with
+-- no author: `created_by` becomes null rather than passing to someone else.
+-- Their pending, rejected and sent-back commands are deleted either way, and
+-- so is everything else that was theirs alone: favorites, collections, the
+-- runs they started and workspace memberships. Things shared with others stay
+-- and lose the reference to the user instead: revisions they wrote of kept
+-- commands, reviews they made, runbooks they wrote and workspaces they
+-- created. Audit log entries stay as they are; they carry the actor's email
+-- for this reason.
+--
+-- The last admin of the app, or of a workspace, can't delete their account
+-- until they have made someone else an admin, so nothing is left unmanaged.
+-- Pictures in the avatars bucket are removed by the app beforehand, since
+-- storage objects can only be deleted through the Storage API.
+
+alter table public.commands alter column created_by drop not null;
+alter table public.command_revisions alter column created_by drop not null;
+alter table public.workspaces alter column created_by drop not null;
+alter table public.runbooks alter column created_by drop not null;
+
+create or replace function public.delete_account(keep_commands boolean)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  account uuid := auth.uid();
+  doomed uuid[];
+  orphaned text;
+begin
+  if account is null then
+    raise exception 'Not signed in';
+  end if;
+
+  if public.account_role() = 'admin' and not exists (
+    select 1 from public.user_profiles
+    where id <> account
+      and coalesce(role, case when is_admin then 'admin' else 'contributor' end) = 'admin'
+  ) then
+    raise exception 'You are the only admin. Make someone else an admin before deleting your account.';
+  end if;
+
+  select w.name into orphaned
+  from public.workspace_members m
+  join public.workspaces w on w.id = m.workspace_id
+  where m.user_id = account
+    and m.role = 'admin'
+    and not exists (
+      select 1 from public.workspace_members other
+      where other.workspace_id = m.workspace_id
+        and other.user_id <> account
+        and other.role = 'admin'
+    )
+  limit 1;
+  if orphaned is not null then
+    raise exception 'You are the only admin of the workspace "%". Make someone else an admin there before deleting your account.', orphaned;
+  end if;
+
+  select coalesce(array_agg(id), '{}') into doomed
+  from public.commands
+  where created_by = account
+    and not (keep_commands and status = 'approved');
+
+  -- Commands that go, and what hangs off them
+  delete from public.command_tags where command_id = any(doomed);
+  delete from public.favorites where command_id = any(doomed);
+  delete from public.collection_items where command_id = any(doomed);
+  update public.runbook_steps set command_id = null where command_id = any(doomed);
+  delete from public.command_revisions where command_id = any(doomed);
+  delete from public.commands where id = any(doomed);
+
+  -- Commands that stay
+  update public.commands set created_by = null where created_by = account;
+  update public.commands set reviewed_by = null where reviewed_by = account;
+  update public.command_revisions set created_by = null where created_by = account;
+
+  -- Everything else of theirs
+  delete from public.favorites where user_id = account;
+  delete from public.collection_items
+    where collection_id in (select id from public.collections where owner_id = account);
+  delete from public.collections where owner_id = account;
+
+  delete from public.runbook_step_completions
+    where completed_by = account
+      or run_id in (select id from public.runbook_runs where started_by = account);
+  delete from public.runbook_runs where started_by = account;
+  update public.runbooks set created_by = null where created_by = account;
+
+  delete from public.workspace_members where user_id = account;
+  update public.workspaces set created_by = null where created_by = account;
+
+  delete from public.user_profiles where id = account;
+  -- Its identities and sessions go with it
+  delete from auth.users where id = account;
+end;
+$$;
+
+revoke execute on function public.delete_account from public, anon;
+grant execute on function public.delete_account to authenticated;
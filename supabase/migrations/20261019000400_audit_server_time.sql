@@ -0,0 +1,24 @@
+-- Audit entries are timed by the server, so a browser can't backdate them.
+-- The time the browser saw is kept in `occurred_at`: entries queued while
+-- offline are sent later, and that is when the action actually happened.
+alter table public.audit_logs add column if not exists occurred_at timestamptz;
+
+update public.audit_logs set occurred_at = created_at where occurred_at is null;
+
+create or replace function public.stamp_audit_log()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_audit_log on public.audit_logs;
+create trigger stamp_audit_log
+  before insert on public.audit_logs
+  for each row execute function public.stamp_audit_log();
+
+-- Entries are never changed once written
+revoke update, delete on public.audit_logs from anon, authenticated;
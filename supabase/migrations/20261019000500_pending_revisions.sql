@@ -0,0 +1,70 @@
+-- Where approval is required, an edit to an approved command doesn't touch
+-- the published command. It is recorded as a pending revision holding the
+-- proposed version, and a moderator applies or rejects it from the review
+-- queue (src/lib/moderation.ts). Revisions recorded so far are all applied.
+alter table public.command_revisions
+  add column if not exists status text not null default 'applied'
+    check (status in ('applied', 'pending', 'rejected')),
+  add column if not exists reviewed_by uuid references auth.users (id) on delete set null,
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists review_note text;
+
+create index if not exists command_revisions_pending_idx on public.command_revisions (created_at)
+  where status = 'pending';
+
+-- Moderators decide pending revisions; nothing else about a revision changes
+drop policy if exists "Moderators review revisions" on public.command_revisions;
+create policy "Moderators review revisions" on public.command_revisions
+  for update to authenticated using (
+    exists (select 1 from public.commands c where c.id = command_id and public.can(c.workspace_id, 'moderate'))
+  );
+
+-- As in 20261018000000_app_schema.sql, and approved commands only change
+-- through review for everyone but moderators
+create or replace function public.guard_command()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.copy_count := 0;
+  else
+    new.copy_count := old.copy_count;
+    new.created_by := old.created_by;
+    new.created_at := old.created_at;
+  end if;
+
+  if public.can(new.workspace_id, 'moderate') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.reviewed_by := null;
+    new.reviewed_at := null;
+    new.review_note := null;
+    if public.approval_required() or new.status <> 'approved' then
+      new.status := 'pending';
+    end if;
+  else
+    if old.status = 'approved' and public.approval_required()
+      and (new.name, new.description, new.command, new.category, new.variants)
+        is distinct from (old.name, old.description, old.command, old.category, old.variants)
+    then
+      raise exception 'Edits to approved commands need review; record them as a pending revision';
+    end if;
+
+    new.reviewed_by := old.reviewed_by;
+    new.reviewed_at := old.reviewed_at;
+    new.review_note := old.review_note;
+    -- Authors may only send a command back for review
+    if new.status is distinct from old.status and new.status <> 'pending' then
+      new.status := old.status;
+    end if;
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,27 @@
+-- Profile pictures (src/lib/avatars.ts). The bucket is public, so pictures
+-- load without a token; each user writes only to the folder named after
+-- their id, and removes old pictures there when they replace or remove one
+-- and before their account is deleted.
+
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', true)
+on conflict (id) do update set public = true;
+
+drop policy if exists "Users upload their own avatars" on storage.objects;
+create policy "Users upload their own avatars" on storage.objects
+  for insert to authenticated with check (
+    bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Listing the folder is a select, which removing needs as well
+drop policy if exists "Users see their own avatars" on storage.objects;
+create policy "Users see their own avatars" on storage.objects
+  for select to authenticated using (
+    bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists "Users remove their own avatars" on storage.objects;
+create policy "Users remove their own avatars" on storage.objects
+  for delete to authenticated using (
+    bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text
+  );
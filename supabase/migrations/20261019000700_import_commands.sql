@@ -0,0 +1,108 @@
+-- Library import (src/lib/libraryImport.ts). The app plans the import and
+-- checks every row first, then hands all writes to `import_commands`, which
+-- makes them in one transaction: a row that fails leaves the library as it
+-- was rather than half-imported.
+
+-- Of `ids`, the ones a command already has, in any workspace. Ids in an
+-- import file are kept only when they are free or match a command of the
+-- workspace being imported into; the caller may not see the others.
+create or replace function public.taken_command_ids(ids uuid[])
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select id from public.commands where id = any(ids)
+$$;
+
+revoke execute on function public.taken_command_ids from public, anon;
+grant execute on function public.taken_command_ids to authenticated;
+
+-- Creates `creates` in `workspace` and applies `updates`, each an array of
+-- command rows as JSON. Updates name the fields that change in
+-- `changed_fields`; those get a revision, after a baseline revision for
+-- commands without history, the same as edits made in the app. Runs with the
+-- caller's rights, so row level security and the command guards still apply.
+-- Returns the created commands, then the updated ones, in the order given.
+create or replace function public.import_commands(workspace uuid, creates jsonb, updates jsonb)
+returns setof public.commands
+language plpgsql
+set search_path = ''
+as $$
+declare
+  item jsonb;
+  saved public.commands;
+  previous public.commands;
+  fields text[];
+begin
+  for item in select value from jsonb_array_elements(creates) loop
+    insert into public.commands (
+      id, name, description, command, category, variants, is_active, status, workspace_id, created_by
+    ) values (
+      coalesce((item->>'id')::uuid, gen_random_uuid()),
+      item->>'name',
+      coalesce(item->>'description', ''),
+      item->>'command',
+      item->>'category',
+      coalesce(item->'variants', '{}'::jsonb),
+      coalesce((item->>'is_active')::boolean, true),
+      'approved',
+      workspace,
+      auth.uid()
+    )
+    returning * into saved;
+
+    insert into public.command_revisions (command_id, name, description, command, category, variants, changed_fields, created_by)
+    values (
+      saved.id, saved.name, saved.description, saved.command, saved.category, saved.variants,
+      array['name', 'description', 'command', 'category', 'variants'], auth.uid()
+    );
+    return next saved;
+  end loop;
+
+  for item in select value from jsonb_array_elements(updates) loop
+    select * into previous from public.commands where id = (item->>'id')::uuid;
+    if previous.id is null then
+      raise exception 'Command % no longer exists', item->>'id';
+    end if;
+    fields := array(select jsonb_array_elements_text(coalesce(item->'changed_fields', '[]'::jsonb)));
+
+    if cardinality(fields) > 0 and not exists (
+      select 1 from public.command_revisions where command_id = previous.id and status = 'applied'
+    ) then
+      insert into public.command_revisions (
+        command_id, name, description, command, category, variants, changed_fields, created_by, created_at
+      ) values (
+        previous.id, previous.name, previous.description, previous.command, previous.category, previous.variants,
+        array['name', 'description', 'command', 'category', 'variants'], previous.created_by, previous.updated_at
+      );
+    end if;
+
+    update public.commands set
+      name = item->>'name',
+      description = coalesce(item->>'description', ''),
+      command = item->>'command',
+      category = item->>'category',
+      variants = coalesce(item->'variants', variants),
+      is_active = coalesce((item->>'is_active')::boolean, is_active),
+      updated_at = now()
+    where id = previous.id
+    returning * into saved;
+
+    -- Row level security skips rows the caller may not change without an error
+    if saved.id is null then
+      raise exception 'You may not change the command "%"', previous.name;
+    end if;
+
+    if cardinality(fields) > 0 then
+      insert into public.command_revisions (command_id, name, description, command, category, variants, changed_fields, created_by)
+      values (saved.id, saved.name, saved.description, saved.command, saved.category, saved.variants, fields, auth.uid());
+    end if;
+    return next saved;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.import_commands from public, anon;
+grant execute on function public.import_commands to authenticated;
@@ -0,0 +1,14 @@
+-- How many commands each category has, for the Admin categories tab
+-- (src/lib/categories.ts), counted in the database instead of by loading every
+-- command. Runs with the caller's rights, so only commands they can see count.
+create or replace function public.category_usage()
+returns table (category text, commands bigint)
+language sql
+stable
+set search_path = ''
+as $$
+  select category, count(*) from public.commands group by category
+$$;
+
+revoke execute on function public.category_usage from public, anon;
+grant execute on function public.category_usage to authenticated;
@@ -1,9 +1,34 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { readFileSync } from 'fs'
+import { createHash } from 'crypto'
+
+// Writes src/sw.js into the build with the build's own files to precache.
+// Runs last, once the HTML and CSS are part of the bundle too.
+function serviceWorker(): Plugin {
+  return {
+    name: 'ariola-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const assets = Object.keys(bundle)
+        .filter(file => !file.endsWith('.map'))
+        .sort()
+        .map(file => `/${file}`)
+      const build = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12)
+
+      const source = readFileSync(new URL('./src/sw.js', import.meta.url), 'utf8')
+        .replace('__BUILD_ID__', build)
+        .replace('__PRECACHE_ASSETS__', JSON.stringify(assets))
+
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   server: {
     port: 3000
   }
-})
\ No newline at end of file
+})